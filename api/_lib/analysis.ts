@@ -1,34 +1,143 @@
-import OpenAI from 'openai';
-import { requireEnv } from './supabase';
+import { z } from 'zod';
+import { getLlmProvider } from './llm';
 
+export const EMOTION_DIMENSIONS = [
+  'anger',
+  'sadness',
+  'anxiety',
+  'contempt',
+  'defensiveness',
+  'stonewalling',
+  'warmth',
+] as const;
+
+export type EmotionDimension = (typeof EMOTION_DIMENSIONS)[number];
+
+export const PRIMARY_NEEDS = [
+  'connection',
+  'respect',
+  'understanding',
+  'security',
+  'autonomy',
+  'appreciation',
+  'fairness',
+  'rest',
+  'none',
+] as const;
+
+export type PrimaryNeed = (typeof PRIMARY_NEEDS)[number];
+
+// Version 1 rows (pre multi-dimensional analysis) only carry { anger }
 export type AngerAnalysis = { anger: number };
 
-export async function analyzeAnger(messages: { role: string; content: string }[]): Promise<AngerAnalysis> {
-  const openai = new OpenAI({ apiKey: requireEnv('XAI_API_KEY'), baseURL: 'https://api.x.ai/v1' });
+export const ANALYSIS_VERSION = 2;
+
+export type EmotionAnalysis = Record<EmotionDimension, number> & {
+  version: typeof ANALYSIS_VERSION;
+  primaryNeed: PrimaryNeed;
+  // Set when the model output could not be used and neutral values were substituted
+  fallback?: true;
+};
+
+// Models occasionally return floats, strings or out-of-range values; coerce onto the 1-5 scale
+const scoreSchema = z.coerce
+  .number()
+  .finite()
+  .transform((n) => Math.max(1, Math.min(5, Math.round(n))));
+
+const modelOutputSchema = z.object({
+  anger: scoreSchema,
+  sadness: scoreSchema,
+  anxiety: scoreSchema,
+  contempt: scoreSchema,
+  defensiveness: scoreSchema,
+  stonewalling: scoreSchema,
+  warmth: scoreSchema,
+  primaryNeed: z.enum(PRIMARY_NEEDS).catch('none'),
+});
+
+export function fallbackEmotionAnalysis(): EmotionAnalysis {
+  return {
+    version: ANALYSIS_VERSION,
+    anger: 1,
+    sadness: 1,
+    anxiety: 1,
+    contempt: 1,
+    defensiveness: 1,
+    stonewalling: 1,
+    warmth: 3,
+    primaryNeed: 'none',
+    fallback: true,
+  };
+}
+
+export function parseEmotionAnalysis(content: string): EmotionAnalysis {
+  // Tolerate code fences or stray prose around the JSON object
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start < 0 || end <= start) return fallbackEmotionAnalysis();
+  try {
+    const parsed = modelOutputSchema.safeParse(JSON.parse(content.slice(start, end + 1)));
+    if (!parsed.success) return fallbackEmotionAnalysis();
+    return { version: ANALYSIS_VERSION, ...parsed.data };
+  } catch {
+    return fallbackEmotionAnalysis();
+  }
+}
+
+/**
+ * Reads a stored messages.analysis value of any version. Version 1 rows only know anger,
+ * so the remaining dimensions come back as null.
+ */
+export function normalizeStoredAnalysis(
+  raw: unknown
+): (Partial<Record<EmotionDimension, number | null>> & { version: number; primaryNeed: PrimaryNeed | null }) | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const row = raw as Record<string, unknown>;
+  if (row.version === ANALYSIS_VERSION) {
+    const parsed = modelOutputSchema.safeParse(row);
+    return parsed.success ? { version: ANALYSIS_VERSION, ...parsed.data } : null;
+  }
+  if (typeof row.anger === 'number') {
+    return {
+      version: 1,
+      anger: row.anger,
+      sadness: null,
+      anxiety: null,
+      contempt: null,
+      defensiveness: null,
+      stonewalling: null,
+      warmth: null,
+      primaryNeed: null,
+    };
+  }
+  return null;
+}
+
+export async function analyzeEmotions(messages: { role: string; content: string }[]): Promise<EmotionAnalysis> {
   const userText = messages.filter(m => m.role === 'user').map(m => m.content).join('\n');
   const systemPrompt = [
-    'You are a strict JSON-only analyzer. Analyze the provided message for anger on a 1-5 scale.',
+    'You are a strict JSON-only analyzer of emotional tone in relationship conversations.',
+    'Rate the provided message on each dimension using an integer from 1 (absent) to 5 (very strong):',
+    '- "anger": hostility, irritation or rage.',
+    '- "sadness": hurt, grief or hopelessness.',
+    '- "anxiety": worry, fear or panic.',
+    '- "contempt": mockery, sarcasm, superiority or disgust toward the other person.',
+    '- "defensiveness": deflecting blame, counter-attacking or playing the victim.',
+    '- "stonewalling": shutting down, withdrawing or refusing to engage.',
+    '- "warmth": affection, appreciation or openness toward the other person.',
+    `Also pick "primaryNeed", the single most evident unmet need, from: ${PRIMARY_NEEDS.join(', ')}.`,
     'Rules:',
-    '- Output ONLY a single JSON object with one key: "anger".',
-    '- The value must be an integer from 1 (no anger) to 5 (very angry).',
+    '- Output ONLY a single JSON object with exactly these keys.',
     '- No prose or explanation, only JSON.',
   ].join('\n');
-  const completion = await openai.chat.completions.create({
-    model: 'grok-3-mini',
+  const completion = await getLlmProvider().complete({
+    task: 'analysis',
     temperature: 0,
     messages: [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: `Message:\n${userText}\nRespond with JSON only.` },
     ],
   });
-  const content = completion.choices[0]?.message?.content ?? '{}';
-  try {
-    const parsed = JSON.parse(content);
-    const anger = Math.max(1, Math.min(5, Number(parsed?.anger ?? 1)));
-    return { anger };
-  } catch {
-    return { anger: 1 };
-  }
+  return parseEmotionAnalysis(completion.content || '{}');
 }
-
-
@@ -0,0 +1,79 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getLlmProvider } from "./llm";
+
+export const CHAT_TITLE_MAX_LENGTH = 80;
+
+export async function generateChatTitle(userText: string, assistantText: string): Promise<string> {
+  const systemPrompt = [
+    "You name conversations for a relationship counseling app.",
+    "Rules:",
+    "- Reply with a short, neutral title of at most 6 words describing the topic.",
+    "- No quotes, no trailing punctuation, no names of people.",
+  ].join("\n");
+  const completion = await getLlmProvider().complete({
+    task: "title",
+    temperature: 0.3,
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: `User:\n${userText}\n\nCounselor:\n${assistantText}\n\nTitle:` },
+    ],
+  });
+  return cleanTitle(completion.content) || "New conversation";
+}
+
+export function cleanTitle(raw: string): string {
+  return (raw.split("\n")[0] ?? "")
+    .replace(/^["'\s]+|["'.\s]+$/g, "")
+    .slice(0, CHAT_TITLE_MAX_LENGTH);
+}
+
+/**
+ * Titles a chat from its first exchange as stored, whichever turn triggers it. Only writes when
+ * the chat is still untitled so a user rename is never overwritten.
+ */
+export async function autoTitleChat(writer: SupabaseClient, chatId: string): Promise<void> {
+  const { data: chat, error: chatErr } = await writer.from("chats").select("title").eq("id", chatId).maybeSingle();
+  if (chatErr) throw new Error(chatErr.message);
+  if (!chat || chat.title) return;
+  const { data: opening, error: openingErr } = await writer
+    .from("messages")
+    .select("role,content")
+    .eq("chat_id", chatId)
+    .is("deleted_at", null)
+    .eq("active_variant", true)
+    .order("created_at", { ascending: true })
+    .limit(2);
+  if (openingErr) throw new Error(openingErr.message);
+  const [first, reply] = (opening ?? []) as { role: string; content: string }[];
+  if (first?.role !== "user" || reply?.role !== "assistant" || !reply.content) return;
+  const title = await generateChatTitle(first.content, reply.content);
+  const { error } = await writer.from("chats").update({ title }).eq("id", chatId).is("title", null);
+  if (error) throw new Error(error.message);
+}
+
+export type ChatKind = "solo" | "joint";
+
+export type ChatMembership = {
+  id: string;
+  user_id: string;
+  kind: ChatKind;
+  partner_user_id: string | null;
+};
+
+export const CHAT_MEMBERSHIP_COLUMNS = "id,user_id,kind,partner_user_id";
+
+// Mirrors public.is_chat_member in supabase.schema.sql, except for the partner link check:
+// chats are read through RLS, which already hides joint sessions from an unlinked partner
+export function isChatMember(chat: ChatMembership, userId: string): boolean {
+  if (chat.user_id === userId) return true;
+  return chat.kind === "joint" && chat.partner_user_id === userId;
+}
+
+/**
+ * Neutral per-speaker labels for joint sessions; the model sees these instead of any
+ * identifying details. Solo chats need no attribution.
+ */
+export function speakerLabelsFor(chat: ChatMembership): Record<string, string> | undefined {
+  if (chat.kind !== "joint" || !chat.partner_user_id) return undefined;
+  return { [chat.user_id]: "Partner A", [chat.partner_user_id]: "Partner B" };
+}
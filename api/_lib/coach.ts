@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { getLlmProvider, type TokenUsage } from "./llm";
+import type { EmotionAnalysis } from "./analysis";
+import type { TestDefinition } from "./questions";
+import type { DimensionScore } from "./scoring";
+
+export type PatternType = "blame" | "absolute" | "contempt" | "criticism" | "defensiveness" | "stonewalling";
+
+export type FlaggedPattern = {
+  type: PatternType;
+  // The matched wording, or null when only the emotion analysis raised it
+  match: string | null;
+  index: number | null;
+  explanation: string;
+  source: "rule" | "analysis";
+};
+
+export type Rewrite = { text: string; approach: string };
+
+export type StyleProfile = {
+  primary: string;
+  secondary: string;
+  narrative: string | null;
+  dimensions: { label: string; percent: number }[];
+};
+
+type PatternRule = { type: PatternType; pattern: RegExp; explanation: string };
+
+// Phrase-level cues only; the emotion analysis catches tone these miss
+const PATTERN_RULES: PatternRule[] = [
+  {
+    type: "absolute",
+    pattern: /\b(always|never|every single time|every time|constantly|nothing|everything)\b/gi,
+    explanation: "Absolutes invite a debate about exceptions instead of the issue itself.",
+  },
+  {
+    type: "blame",
+    pattern: /\b(you made me|it'?s (all )?your fault|because of you|thanks to you|you ruined)\b/gi,
+    explanation: "Blame puts your partner on trial; describing the impact on you is easier to hear.",
+  },
+  {
+    type: "criticism",
+    pattern: /\b(you'?re (so|such an?|just|always) \w+|you are (so|such an?) \w+|what'?s wrong with you|you don'?t even care)\b/gi,
+    explanation: "This targets who your partner is rather than what happened.",
+  },
+  {
+    type: "contempt",
+    pattern: /\b(pathetic|stupid|idiot|useless|lazy|ridiculous|grow up|get a grip|oh,? great|nice job|whatever you say|as usual)\b/gi,
+    explanation: "Mockery and insults are the strongest predictor of conflict going badly; name the hurt instead.",
+  },
+  {
+    type: "defensiveness",
+    pattern: /\b(not my fault|i didn'?t do anything|what about you|you do it too|i was only)\b/gi,
+    explanation: "Counter-attacking or excusing can feel like dismissing your partner's concern.",
+  },
+  {
+    type: "stonewalling",
+    pattern: /\b(i'?m done( talking)?|forget it|i don'?t care anymore|talk to the hand|never mind)\b/gi,
+    explanation: "Shutting the conversation down leaves the issue unresolved; ask for a break instead.",
+  },
+];
+
+// Emotion scores (1-5) at or above which the analysis alone flags a pattern
+const ANALYSIS_FLAGS: { type: PatternType; dimension: "contempt" | "defensiveness" | "stonewalling"; explanation: string }[] = [
+  { type: "contempt", dimension: "contempt", explanation: "The overall tone reads as contemptuous or sarcastic." },
+  { type: "defensiveness", dimension: "defensiveness", explanation: "The overall tone reads as defensive." },
+  { type: "stonewalling", dimension: "stonewalling", explanation: "The overall tone reads as shutting down." },
+];
+const ANALYSIS_FLAG_LEVEL = 4;
+
+const MIN_REWRITES = 2;
+const MAX_REWRITES = 3;
+
+const rewritesSchema = z.object({
+  rewrites: z
+    .array(z.object({ text: z.string().trim().min(1).max(2000), approach: z.string().trim().max(80).catch("Softer wording") }))
+    .min(MIN_REWRITES)
+    .max(MAX_REWRITES),
+});
+
+/** Rule matches in order of appearance, plus tone-level flags from the analysis not already matched. */
+export function detectPatterns(draft: string, analysis: EmotionAnalysis | null): FlaggedPattern[] {
+  const flagged: FlaggedPattern[] = [];
+  for (const rule of PATTERN_RULES) {
+    for (const m of draft.matchAll(rule.pattern)) {
+      flagged.push({ type: rule.type, match: m[0], index: m.index ?? null, explanation: rule.explanation, source: "rule" });
+    }
+  }
+  flagged.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  if (analysis && !analysis.fallback) {
+    for (const flag of ANALYSIS_FLAGS) {
+      if (analysis[flag.dimension] >= ANALYSIS_FLAG_LEVEL && !flagged.some((p) => p.type === flag.type)) {
+        flagged.push({ type: flag.type, match: null, index: null, explanation: flag.explanation, source: "analysis" });
+      }
+    }
+  }
+  return flagged;
+}
+
+/** Style summary from a communication test's dimension scores, for tailoring the rewrite prompt. */
+export function toStyleProfile(test: TestDefinition, dimensions: DimensionScore[]): StyleProfile | null {
+  if (dimensions.length === 0) return null;
+  const ranked = [...dimensions].sort((a, b) => b.percent - a.percent);
+  const top = ranked[0]!;
+  return {
+    primary: top.label,
+    secondary: ranked[1]?.label ?? top.label,
+    narrative: test.scoring.dimensions.find((d) => d.id === top.id)?.narrative ?? null,
+    dimensions: ranked.map((d) => ({ label: d.label, percent: d.percent })),
+  };
+}
+
+// Deterministic stand-in when the model output is unusable: drops absolutes, keeps everything else,
+// framed two ways so the caller still gets a choice
+function fallbackRewrites(draft: string): Rewrite[] {
+  const softened = draft
+    .replace(/\b(always|constantly|every single time|every time)\b/gi, "often")
+    .replace(/\bnever\b/gi, "rarely")
+    .trim();
+  return [
+    { text: `I'd like to talk about something that matters to me. ${softened}`, approach: "Softened wording" },
+    { text: `${softened} Could we find a time to talk about it together?`, approach: "Brief and direct" },
+  ];
+}
+
+function parseRewrites(content: string): Rewrite[] | null {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start < 0 || end <= start) return null;
+  try {
+    const parsed = rewritesSchema.safeParse(JSON.parse(content.slice(start, end + 1)));
+    return parsed.success ? parsed.data.rewrites : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Asks the coach model for two or three softer versions of the draft that keep its intent, in the
+ * writer's own style and, when known, tuned to how the partner prefers to be spoken to.
+ */
+export async function generateRewrites(
+  draft: string,
+  context: {
+    patterns: FlaggedPattern[];
+    analysis: EmotionAnalysis | null;
+    style: StyleProfile | null;
+    partnerStyle: StyleProfile | null;
+    toPartner: boolean;
+    model?: string;
+  }
+): Promise<{ rewrites: Rewrite[]; model: string; usage?: TokenUsage; fallback?: true }> {
+  const systemPrompt = [
+    "You help someone rephrase a message to their romantic partner before they send it.",
+    "Write 2 or 3 alternative versions that keep the writer's intent and request, but:",
+    "- describe the situation and its impact instead of blaming or labelling the partner;",
+    "- use I-statements (feeling + need) and end with a clear, doable request where there is one;",
+    "- drop absolutes, sarcasm, insults and threats to leave;",
+    "- keep roughly the original length and the writer's voice; do not add apologies the writer did not mean.",
+    "Each version should take a different approach (for example: gentle start-up, appreciation first, brief and direct).",
+    'Output ONLY JSON: {"rewrites":[{"text":"...","approach":"short label"}]}',
+  ].join("\n");
+
+  const notes: string[] = [];
+  if (context.patterns.length) {
+    notes.push(`Patterns found: ${[...new Set(context.patterns.map((p) => p.type))].join(", ")}.`);
+  }
+  if (context.analysis && !context.analysis.fallback) {
+    notes.push(
+      `Tone (1-5): anger ${context.analysis.anger}, contempt ${context.analysis.contempt}, warmth ${context.analysis.warmth}; underlying need: ${context.analysis.primaryNeed}.`
+    );
+  }
+  if (context.style) {
+    notes.push(`The writer's communication style is mostly ${context.style.primary}, then ${context.style.secondary}. Keep that voice.`);
+  }
+  if (context.partnerStyle) {
+    notes.push(
+      `The partner's style is mostly ${context.partnerStyle.primary}, then ${context.partnerStyle.secondary}. Phrase it so it lands well for them.`
+    );
+  }
+  if (context.toPartner) notes.push("The message is addressed to the writer's partner.");
+
+  const completion = await getLlmProvider().complete({
+    task: "coach",
+    model: context.model,
+    temperature: 0.7,
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: `${notes.join("\n")}\n\nDraft:\n${draft}\n\nRespond with JSON only.` },
+    ],
+  });
+  const rewrites = parseRewrites(completion.content || "");
+  if (!rewrites) {
+    return { rewrites: fallbackRewrites(draft), model: completion.model, usage: completion.usage, fallback: true };
+  }
+  return { rewrites, model: completion.model, usage: completion.usage };
+}
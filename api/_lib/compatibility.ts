@@ -0,0 +1,118 @@
+import type { TestDefinition } from "./questions";
+import { scoreTest, type Answer } from "./scoring";
+
+// Dimension scores are 0-100 percentages from the scoring engine
+const HIGH = 70;
+const NOTABLE_GAP = 20;
+const LARGE_GAP = 35;
+
+export type DimensionComparison = {
+  dimension: string;
+  label: string;
+  you: number;
+  partner: number;
+  gap: number;
+};
+
+export type CompatibilityReport = {
+  dimensions: DimensionComparison[];
+  you: { primary: string; secondary: string };
+  partner: { primary: string; secondary: string };
+  sharedStrengths: string[];
+  complementaryStrengths: string[];
+  frictionPoints: string[];
+  conversationPrompts: string[];
+};
+
+const GENERAL_PROMPTS = [
+  "Think of a recent conversation between us that went well. What made it work?",
+  "What is one small thing the other could do this week that would help you feel more understood?",
+];
+
+// Known friction pairings (communication-v1 dimensions) when one partner leans on `a` and the other on `b`
+const FRICTION_PAIRS: { a: string; b: string; text: string }[] = [
+  {
+    a: "direct",
+    b: "empathetic",
+    text: "Bluntness from one side can land as harsh for the other; softened start-ups help the message get through.",
+  },
+  {
+    a: "analytical",
+    b: "adaptive",
+    text: "One prefers structure and precision while the other follows the flow of the moment; agree up front on how decisions get made.",
+  },
+  {
+    a: "direct",
+    b: "adaptive",
+    text: "Fast, direct feedback can cut across attempts to read and match the mood; check whether it is a good time before raising issues.",
+  },
+  {
+    a: "analytical",
+    b: "empathetic",
+    text: "Jumping to solutions can feel dismissive to someone who first wants feelings acknowledged; reflect before problem-solving.",
+  },
+];
+
+export function buildCompatibilityReport(
+  test: TestDefinition,
+  yourAnswers: Answer[],
+  partnerAnswers: Answer[]
+): CompatibilityReport {
+  const yourScore = scoreTest(test, yourAnswers);
+  const partnerScore = scoreTest(test, partnerAnswers);
+  const yours: Record<string, number> = {};
+  const theirs: Record<string, number> = {};
+  for (const d of yourScore.dimensions) yours[d.id] = d.percent;
+  for (const d of partnerScore.dimensions) theirs[d.id] = d.percent;
+
+  const dimensions = yourScore.dimensions.map((d) => ({
+    dimension: d.id,
+    label: d.label,
+    you: yours[d.id] ?? 0,
+    partner: theirs[d.id] ?? 0,
+    gap: Math.abs((yours[d.id] ?? 0) - (theirs[d.id] ?? 0)),
+  }));
+  const specFor = (id: string) => test.scoring.dimensions.find((d) => d.id === id);
+
+  const sharedStrengths: string[] = [];
+  const complementaryStrengths: string[] = [];
+  const frictionPoints: string[] = [];
+  const conversationPrompts: string[] = [];
+
+  for (const d of dimensions) {
+    const strength = specFor(d.dimension)?.strength ?? d.label.toLowerCase();
+    if (d.you >= HIGH && d.partner >= HIGH) {
+      sharedStrengths.push(`You are both strong at ${strength} (${d.label}).`);
+    } else if (d.gap >= NOTABLE_GAP && Math.max(d.you, d.partner) >= HIGH) {
+      const who = d.you > d.partner ? "You bring" : "Your partner brings";
+      complementaryStrengths.push(`${who} a strength in ${strength} (${d.label}).`);
+    }
+    if (d.gap >= LARGE_GAP) {
+      frictionPoints.push(`You differ sharply on the ${d.label} dimension (${d.you} vs ${d.partner}).`);
+    }
+    const prompt = specFor(d.dimension)?.discussionPrompt;
+    if (d.gap >= NOTABLE_GAP && prompt) conversationPrompts.push(prompt);
+  }
+
+  for (const pair of FRICTION_PAIRS) {
+    if (!(pair.a in yours) || !(pair.b in yours)) continue;
+    const youA = (yours[pair.a] ?? 0) - (yours[pair.b] ?? 0);
+    const partnerA = (theirs[pair.a] ?? 0) - (theirs[pair.b] ?? 0);
+    // Opposite leanings of at least NOTABLE_GAP each way
+    if ((youA >= NOTABLE_GAP && partnerA <= -NOTABLE_GAP) || (youA <= -NOTABLE_GAP && partnerA >= NOTABLE_GAP)) {
+      frictionPoints.push(pair.text);
+    }
+  }
+
+  if (conversationPrompts.length < 2) conversationPrompts.push(...GENERAL_PROMPTS.slice(0, 2 - conversationPrompts.length));
+
+  return {
+    dimensions,
+    you: { primary: yourScore.primary, secondary: yourScore.secondary },
+    partner: { primary: partnerScore.primary, secondary: partnerScore.secondary },
+    sharedStrengths,
+    complementaryStrengths,
+    frictionPoints,
+    conversationPrompts,
+  };
+}
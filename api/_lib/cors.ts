@@ -1,20 +1,11 @@
-import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { VercelResponse } from "@vercel/node";
 
 export function setCors(res: VercelResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET,POST,DELETE,OPTIONS");
+  res.setHeader("Access-Control-Allow-Methods", "GET,POST,PATCH,DELETE,OPTIONS");
   res.setHeader(
     "Access-Control-Allow-Headers",
-    "Content-Type, Authorization, x-supabase-auth"
+    "Content-Type, Authorization, x-supabase-auth, x-request-id"
   );
+  res.setHeader("Access-Control-Expose-Headers", "X-Request-Id, Retry-After");
 }
-
-export function handleCors(req: VercelRequest, res: VercelResponse): boolean {
-  setCors(res);
-  if (req.method === "OPTIONS") {
-    res.status(204).end();
-    return true;
-  }
-  return false;
-}
-
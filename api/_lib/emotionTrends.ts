@@ -0,0 +1,173 @@
+import { EMOTION_DIMENSIONS, normalizeStoredAnalysis, type EmotionDimension } from "./analysis";
+
+// Dimensions where a sudden rise is worth flagging; warmth rising is good news, not a spike
+const ESCALATION_DIMENSIONS: EmotionDimension[] = [
+  "anger",
+  "contempt",
+  "defensiveness",
+  "stonewalling",
+  "anxiety",
+  "sadness",
+];
+
+// A day is a spike when its average beats the trailing baseline by this much on the 1-5 scale...
+const SPIKE_MIN_RISE = 1;
+// ...and is itself clearly elevated
+const SPIKE_MIN_LEVEL = 3;
+// An hour needs this many messages before its anger average is trusted
+const MIN_HOUR_SAMPLES = 3;
+const ELEVATED_HOUR_MARGIN = 0.5;
+
+export type AnalysisPoint = { chatId: string | null; createdAt: string; analysis: unknown };
+
+export type DimensionValues = Record<EmotionDimension, number | null>;
+
+export type DailyPoint = {
+  date: string;
+  count: number;
+  averages: DimensionValues;
+  // Mean of the daily averages over the trailing window ending on this date
+  rolling: DimensionValues;
+};
+
+export type Spike = { date: string; dimension: EmotionDimension; value: number; baseline: number };
+
+export type HourBucket = { hour: number; count: number; averageAnger: number | null };
+
+export type EmotionTrends = {
+  daily: DailyPoint[];
+  chats: { chatId: string; count: number; averages: DimensionValues; daily: DailyPoint[] }[];
+  spikes: Spike[];
+  angerByHour: HourBucket[];
+  elevatedHours: number[];
+};
+
+type Normalized = { chatId: string | null; date: string; hour: number; values: DimensionValues };
+
+function emptyValues(): DimensionValues {
+  return Object.fromEntries(EMOTION_DIMENSIONS.map((d) => [d, null])) as DimensionValues;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Throws RangeError for unknown IANA zones; callers validate with this before aggregating. */
+export function assertTimeZone(timeZone: string): void {
+  new Intl.DateTimeFormat("en-US", { timeZone });
+}
+
+function localParts(iso: string, timeZone: string): { date: string; hour: number } {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(iso));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "00";
+  return { date: `${get("year")}-${get("month")}-${get("day")}`, hour: Number(get("hour")) };
+}
+
+// Averages each dimension over the points that have it (legacy rows only carry anger)
+function average(rows: DimensionValues[]): DimensionValues {
+  const out = emptyValues();
+  for (const d of EMOTION_DIMENSIONS) {
+    const values = rows.map((r) => r[d]).filter((v): v is number => v !== null);
+    out[d] = values.length ? round2(values.reduce((a, b) => a + b, 0) / values.length) : null;
+  }
+  return out;
+}
+
+function dailySeries(points: Normalized[], windowDays: number): DailyPoint[] {
+  const byDate = new Map<string, DimensionValues[]>();
+  for (const p of points) {
+    const list = byDate.get(p.date) ?? [];
+    list.push(p.values);
+    byDate.set(p.date, list);
+  }
+  const dates = [...byDate.keys()].sort();
+  const days = dates.map((date) => ({ date, count: byDate.get(date)!.length, averages: average(byDate.get(date)!) }));
+  return days.map((day, i) => {
+    const start = Date.parse(day.date) - (windowDays - 1) * 86_400_000;
+    const inWindow = days.slice(0, i + 1).filter((d) => Date.parse(d.date) >= start);
+    return { ...day, rolling: average(inWindow.map((d) => d.averages)) };
+  });
+}
+
+function findSpikes(daily: DailyPoint[]): Spike[] {
+  const spikes: Spike[] = [];
+  for (let i = 1; i < daily.length; i++) {
+    const day = daily[i]!;
+    // Baseline is the rolling average up to the day before, so the spike does not raise its own bar
+    const baselineDay = daily[i - 1]!;
+    for (const d of ESCALATION_DIMENSIONS) {
+      const value = day.averages[d];
+      const baseline = baselineDay.rolling[d];
+      if (value === null || baseline === null) continue;
+      if (value >= SPIKE_MIN_LEVEL && value - baseline >= SPIKE_MIN_RISE) {
+        spikes.push({ date: day.date, dimension: d, value, baseline });
+      }
+    }
+  }
+  return spikes;
+}
+
+/**
+ * Aggregates stored per-message analyses into day and chat series in the caller's time zone,
+ * flags days that jump above their trailing baseline and hours with elevated anger. Rows may come
+ * in any order; series are sorted by date.
+ */
+export function buildEmotionTrends(
+  rows: AnalysisPoint[],
+  { timeZone, windowDays }: { timeZone: string; windowDays: number }
+): EmotionTrends {
+  const points: Normalized[] = [];
+  for (const row of rows) {
+    const analysis = normalizeStoredAnalysis(row.analysis);
+    if (!analysis) continue;
+    const values = emptyValues();
+    for (const d of EMOTION_DIMENSIONS) values[d] = analysis[d] ?? null;
+    points.push({ chatId: row.chatId, ...localParts(row.createdAt, timeZone), values });
+  }
+
+  const daily = dailySeries(points, windowDays);
+
+  const byChat = new Map<string, Normalized[]>();
+  for (const p of points) {
+    if (!p.chatId) continue;
+    const list = byChat.get(p.chatId) ?? [];
+    list.push(p);
+    byChat.set(p.chatId, list);
+  }
+  const chats = [...byChat.entries()]
+    .map(([chatId, list]) => ({
+      chatId,
+      count: list.length,
+      averages: average(list.map((p) => p.values)),
+      daily: dailySeries(list, windowDays),
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  const angerByHour: HourBucket[] = Array.from({ length: 24 }, (_, hour) => {
+    const anger = points
+      .filter((p) => p.hour === hour)
+      .map((p) => p.values.anger)
+      .filter((v): v is number => v !== null);
+    return {
+      hour,
+      count: anger.length,
+      averageAnger: anger.length ? round2(anger.reduce((a, b) => a + b, 0) / anger.length) : null,
+    };
+  });
+  const overallAnger = average(points.map((p) => p.values)).anger;
+  const elevatedHours =
+    overallAnger === null
+      ? []
+      : angerByHour
+          .filter((h) => h.count >= MIN_HOUR_SAMPLES && (h.averageAnger ?? 0) >= overallAnger + ELEVATED_HOUR_MARGIN)
+          .map((h) => h.hour);
+
+  return { daily, chats, spikes: findSpikes(daily), angerByHour, elevatedHours };
+}
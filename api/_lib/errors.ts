@@ -0,0 +1,199 @@
+/**
+ * Error responses all have the shape `{ error, code, requestId, ...extra }`: `error` is a message
+ * fit to show a user, `code` is stable and machine-readable (clients switch on it; never rename
+ * one), and `extra` carries structured context such as validation `details`.
+ */
+
+export type ValidationCode =
+  | "VALIDATION_FAILED"
+  | "ANSWERS_INVALID"
+  | "STEP_INVALID"
+  | "NOT_A_VARIANT"
+  | "PARTNER_SELF"
+  | "PARTNER_NOT_LINKED"
+  | "PARTNER_LINK_PENDING";
+
+export type AuthenticationCode = "UNAUTHORIZED";
+
+export type ForbiddenCode =
+  | "FORBIDDEN"
+  | "MODEL_NOT_ALLOWED"
+  | "SHARING_DISABLED"
+  | "NOT_MESSAGE_AUTHOR"
+  | "MESSAGE_NOT_EDITABLE"
+  | "PLAN_LOCKED";
+
+export type NotFoundCode =
+  | "NOT_FOUND"
+  | "CHAT_NOT_FOUND"
+  | "MESSAGE_NOT_FOUND"
+  | "TEST_NOT_FOUND"
+  | "EXERCISE_NOT_FOUND"
+  | "SESSION_NOT_FOUND"
+  | "ATTEMPT_NOT_FOUND"
+  | "INVITE_NOT_FOUND"
+  | "RESULTS_MISSING";
+
+export type MethodNotAllowedCode = "METHOD_NOT_ALLOWED";
+
+export type ConflictCode =
+  | "CONFLICT"
+  | "CONCURRENT_UPDATE"
+  | "PARTNER_ALREADY_LINKED"
+  | "PARTNER_UNAVAILABLE"
+  | "NOTHING_TO_REDO"
+  | "EDIT_NOT_LAST"
+  | "VARIANT_LIMIT"
+  | "ATTEMPT_CLOSED"
+  | "SESSION_CLOSED"
+  | "TEST_CHANGED"
+  | "EXERCISE_CHANGED"
+  | "AT_FIRST_STEP";
+
+export type GoneCode = "INVITE_EXPIRED" | "INVITE_NOT_PENDING" | "ATTEMPT_EXPIRED" | "ENDPOINT_REMOVED";
+
+export type RateLimitCode = "RATE_LIMITED" | "QUOTA_EXCEEDED";
+
+export type InternalCode = "INTERNAL" | "SERVER_MISCONFIGURED";
+
+export type UpstreamCode = "LLM_UNAVAILABLE";
+
+export type ErrorCode =
+  | ValidationCode
+  | AuthenticationCode
+  | ForbiddenCode
+  | NotFoundCode
+  | MethodNotAllowedCode
+  | ConflictCode
+  | GoneCode
+  | RateLimitCode
+  | InternalCode
+  | UpstreamCode;
+
+export type ErrorBody = { error: string; code: ErrorCode; requestId: string } & Record<string, unknown>;
+
+export abstract class ApiError<C extends ErrorCode = ErrorCode> extends Error {
+  abstract readonly status: number;
+
+  constructor(
+    readonly code: C,
+    message: string,
+    readonly extra: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  headers(): Record<string, string> {
+    return {};
+  }
+
+  toBody(requestId: string): ErrorBody {
+    return { ...this.extra, error: this.message, code: this.code, requestId };
+  }
+}
+
+export class ValidationError extends ApiError<ValidationCode> {
+  readonly status = 400;
+}
+
+export class AuthenticationError extends ApiError<AuthenticationCode> {
+  readonly status = 401;
+}
+
+export class ForbiddenError extends ApiError<ForbiddenCode> {
+  readonly status = 403;
+}
+
+export class NotFoundError extends ApiError<NotFoundCode> {
+  readonly status = 404;
+}
+
+export class MethodNotAllowedError extends ApiError<MethodNotAllowedCode> {
+  readonly status = 405;
+
+  constructor(private readonly allow: string[]) {
+    super("METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  headers() {
+    return { Allow: this.allow.join(", ") };
+  }
+}
+
+export class ConflictError extends ApiError<ConflictCode> {
+  readonly status = 409;
+}
+
+export class GoneError extends ApiError<GoneCode> {
+  readonly status = 410;
+}
+
+export class RateLimitError extends ApiError<RateLimitCode> {
+  readonly status = 429;
+
+  constructor(code: RateLimitCode, message: string, readonly retryAfterSeconds: number, extra: Record<string, unknown> = {}) {
+    super(code, message, { ...extra, retryAfterSeconds });
+  }
+
+  headers() {
+    return { "Retry-After": String(this.retryAfterSeconds) };
+  }
+}
+
+/** The message is generic on purpose; whatever caused it is logged, never sent. */
+export class InternalError extends ApiError<InternalCode> {
+  readonly status = 500;
+
+  constructor(code: InternalCode, message: string, readonly cause?: unknown) {
+    super(code, message);
+  }
+}
+
+export class UpstreamError extends ApiError<UpstreamCode> {
+  readonly status = 502;
+}
+
+// The subset of a PostgREST error this module reads
+export type DbError = { message: string; code?: string; details?: string | null; hint?: string | null };
+
+// Exceptions raised in supabase.schema.sql carry one of these codes in their HINT; the messages
+// here are written for the person using the app rather than for whoever reads the SQL
+const RAISED_ERRORS: Record<string, () => ApiError> = {
+  UNAUTHORIZED: () => new AuthenticationError("UNAUTHORIZED", "Unauthorized"),
+  PARTNER_SELF: () => new ValidationError("PARTNER_SELF", "You cannot link with yourself"),
+  PARTNER_ALREADY_LINKED: () => new ConflictError("PARTNER_ALREADY_LINKED", "You already have a partner"),
+  PARTNER_UNAVAILABLE: () =>
+    new ConflictError("PARTNER_UNAVAILABLE", "The person who invited you is already linked with someone else"),
+  INVITE_NOT_FOUND: () => new NotFoundError("INVITE_NOT_FOUND", "Invite not found"),
+  INVITE_EXPIRED: () => new GoneError("INVITE_EXPIRED", "This invite has expired"),
+  INVITE_NOT_PENDING: () => new GoneError("INVITE_NOT_PENDING", "This invite is no longer open"),
+  MESSAGE_NOT_FOUND: () => new NotFoundError("MESSAGE_NOT_FOUND", "Message not found"),
+  MESSAGE_NOT_EDITABLE: () => new ForbiddenError("MESSAGE_NOT_EDITABLE", "Only your own messages can be edited"),
+  PLAN_LOCKED: () => new ForbiddenError("PLAN_LOCKED", "Your plan can only be changed through billing"),
+};
+
+/**
+ * Translates a Supabase/PostgREST error into an ApiError: codes raised by our own functions
+ * first, then the generic SQLSTATEs a client can cause, and a 500 for everything else. Pass
+ * `null` (with a fallback message) when a write returned neither data nor an error.
+ */
+export function fromDbError(error: DbError | null | undefined, fallback = "Something went wrong"): ApiError {
+  if (!error) return new InternalError("INTERNAL", fallback);
+  const raised = error.hint ? RAISED_ERRORS[error.hint] : undefined;
+  if (raised) return raised();
+  switch (error.code) {
+    case "23505":
+      return new ConflictError("CONFLICT", "That already exists");
+    case "23503":
+      return new ValidationError("VALIDATION_FAILED", "Refers to something that does not exist");
+    case "22P02":
+      return new ValidationError("VALIDATION_FAILED", "Malformed identifier");
+    case "42501":
+      return new ForbiddenError("FORBIDDEN", "Not allowed");
+    case "PGRST116":
+      return new NotFoundError("NOT_FOUND", "Not found");
+    default:
+      return new InternalError("INTERNAL", fallback, error);
+  }
+}
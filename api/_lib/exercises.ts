@@ -0,0 +1,561 @@
+import { z } from "zod";
+
+export type ExerciseValue = number | string | string[];
+
+export type ExerciseInputs = Record<string, ExerciseValue>;
+
+export type ExerciseOption = { value: string; label: string };
+
+export type ExerciseInput =
+  | { type: "text"; maxLength?: number; placeholder?: string; multiline?: boolean }
+  | { type: "choice"; options: ExerciseOption[] }
+  // The answer is an array of distinct option values
+  | { type: "multi_choice"; options: ExerciseOption[]; minSelections?: number; maxSelections?: number }
+  | { type: "scale"; min: number; max: number; labels: { left: string; right: string } }
+  | { type: "minutes"; min: number; max: number; defaultValue: number };
+
+export type ExerciseStep = {
+  id: string;
+  prompt: string;
+  help?: string;
+  // Sample answer shown as a hint; never submitted
+  example?: string;
+  // Defaults to true; skipped optional steps store no input
+  required?: boolean;
+  input: ExerciseInput;
+  // The transition out of this step: a step id, a function of the inputs so far for branching,
+  // or null when answering it finishes the exercise
+  next: string | null | ((inputs: ExerciseInputs) => string | null);
+};
+
+export type ExerciseOutput = {
+  title: string;
+  // The finished statement or plan, ready to say or paste into chat
+  text: string;
+  sections: { label: string; value: string }[];
+};
+
+export type ExerciseCategory = "communication" | "conflict" | "repair" | "self_regulation";
+
+export type ExerciseDefinition = {
+  id: string;
+  title: string;
+  description: string;
+  // Bump whenever steps change; sessions started on an older version cannot continue
+  version: number;
+  category: ExerciseCategory;
+  estimatedMinutes: number;
+  startStep: string;
+  steps: ExerciseStep[];
+  // Called once the machine reaches the end, with only the inputs on the path actually taken
+  complete(inputs: ExerciseInputs): ExerciseOutput;
+};
+
+export type ExerciseCatalogEntry = Pick<
+  ExerciseDefinition,
+  "id" | "title" | "description" | "version" | "category" | "estimatedMinutes"
+> & { stepCount: number };
+
+// Client view of a step; transitions stay on the server
+export type PublicExerciseStep = Omit<ExerciseStep, "next" | "required"> & { required: boolean };
+
+// Where a session stands: `path` lists answered steps in order, `currentStep` is null once finished
+export type ExerciseState = {
+  currentStep: string | null;
+  path: string[];
+  inputs: ExerciseInputs;
+};
+
+const TEXT_MAX_LENGTH = 600;
+
+const FEELINGS: ExerciseOption[] = [
+  { value: "hurt", label: "Hurt" },
+  { value: "lonely", label: "Lonely" },
+  { value: "frustrated", label: "Frustrated" },
+  { value: "anxious", label: "Anxious" },
+  { value: "sad", label: "Sad" },
+  { value: "overwhelmed", label: "Overwhelmed" },
+  { value: "disappointed", label: "Disappointed" },
+  { value: "confused", label: "Confused" },
+  { value: "scared", label: "Scared" },
+  { value: "irritated", label: "Irritated" },
+  { value: "unappreciated", label: "Unappreciated" },
+];
+
+const NEEDS: ExerciseOption[] = [
+  { value: "connection", label: "Connection" },
+  { value: "respect", label: "Respect" },
+  { value: "understanding", label: "Understanding" },
+  { value: "support", label: "Support" },
+  { value: "reassurance", label: "Reassurance" },
+  { value: "rest", label: "Rest" },
+  { value: "fairness", label: "Fairness" },
+  { value: "appreciation", label: "Appreciation" },
+  { value: "autonomy", label: "Autonomy" },
+  { value: "honesty", label: "Honesty" },
+];
+
+// "Always"/"never" and similar turn an observation into a judgment
+const ABSOLUTES = /\b(always|never|every time|constantly|nothing|everything)\b/i;
+
+function text(inputs: ExerciseInputs, stepId: string): string {
+  const value = inputs[stepId];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function labelsOf(options: ExerciseOption[], value: ExerciseValue | undefined): string[] {
+  const values = Array.isArray(value) ? value : typeof value === "string" ? [value] : [];
+  return values.map((v) => options.find((o) => o.value === v)?.label.toLowerCase() ?? v);
+}
+
+function joinWords(words: string[]): string {
+  if (words.length <= 1) return words[0] ?? "";
+  return `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`;
+}
+
+// Lets answers be written naturally ("When you...", "Would you be willing to...") without doubling up
+function stripLead(value: string, lead: RegExp): string {
+  return value.replace(lead, "").replace(/[.?!\s]+$/, "").trim();
+}
+
+const nvcStatementV1: ExerciseDefinition = {
+  id: "nvc-statement-v1",
+  title: "NVC statement builder",
+  description: "Turn a complaint into an observation, a feeling, a need and a clear request.",
+  version: 1,
+  category: "communication",
+  estimatedMinutes: 5,
+  startStep: "observation",
+  steps: [
+    {
+      id: "observation",
+      prompt: "What happened, exactly as a camera would have recorded it?",
+      help: "Describe what was said or done, without interpreting it.",
+      example: "you looked at your phone while I was telling you about my day",
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH, multiline: true },
+      next: (inputs) => (ABSOLUTES.test(text(inputs, "observation")) ? "observation_check" : "feelings"),
+    },
+    {
+      id: "observation_check",
+      prompt: "Words like \"always\" or \"never\" tend to sound like a judgment. Would you like to narrow it to one moment?",
+      input: {
+        type: "choice",
+        options: [
+          { value: "rewrite", label: "Rewrite it" },
+          { value: "keep", label: "Keep it as it is" },
+        ],
+      },
+      next: (inputs) => (inputs.observation_check === "rewrite" ? "observation_revised" : "feelings"),
+    },
+    {
+      id: "observation_revised",
+      prompt: "Describe one specific moment.",
+      example: "you looked at your phone twice during dinner last night",
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH, multiline: true },
+      next: "feelings",
+    },
+    {
+      id: "feelings",
+      prompt: "How did you feel?",
+      help: "Pick feelings rather than thoughts about your partner (\"ignored\" is a thought; \"lonely\" is a feeling).",
+      input: { type: "multi_choice", options: FEELINGS, minSelections: 1, maxSelections: 3 },
+      next: "need",
+    },
+    {
+      id: "need",
+      prompt: "What need of yours was not met?",
+      input: { type: "choice", options: NEEDS },
+      next: "request",
+    },
+    {
+      id: "request",
+      prompt: "What specific, doable thing would you like to ask for?",
+      help: "Ask for something to do rather than something to stop.",
+      example: "put your phone away for the first ten minutes after we get home",
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH, multiline: true },
+      next: null,
+    },
+  ],
+  complete(inputs) {
+    const observation = stripLead(text(inputs, "observation_revised") || text(inputs, "observation"), /^when\s+/i);
+    const feelings = joinWords(labelsOf(FEELINGS, inputs.feelings));
+    const need = labelsOf(NEEDS, inputs.need)[0] ?? "";
+    const request = stripLead(text(inputs, "request"), /^(would you be willing to|could you|can you|please)\s+/i);
+    return {
+      title: "Your NVC statement",
+      text: `When ${observation}, I feel ${feelings} because I need ${need}. Would you be willing to ${request}?`,
+      sections: [
+        { label: "Observation", value: observation },
+        { label: "Feelings", value: feelings },
+        { label: "Need", value: need },
+        { label: "Request", value: request },
+      ],
+    };
+  },
+};
+
+const softStartupV1: ExerciseDefinition = {
+  id: "soft-startup-v1",
+  title: "Soft start-up rewrite",
+  description: "Rewrite a harsh opening into one your partner can hear: a feeling about a situation and a positive need.",
+  version: 1,
+  category: "conflict",
+  estimatedMinutes: 5,
+  startStep: "harsh",
+  steps: [
+    {
+      id: "harsh",
+      prompt: "Write what you feel like saying right now, unfiltered.",
+      help: "Only you will see this. It is the starting point for the rewrite.",
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH, multiline: true },
+      next: "situation",
+    },
+    {
+      id: "situation",
+      prompt: "What is the specific situation you want to talk about?",
+      help: "Describe the situation, not your partner's character.",
+      example: "the dishes piling up in the sink since Sunday",
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH },
+      next: "feelings",
+    },
+    {
+      id: "feelings",
+      prompt: "How do you feel about it?",
+      input: { type: "multi_choice", options: FEELINGS, minSelections: 1, maxSelections: 2 },
+      next: "need",
+    },
+    {
+      id: "need",
+      prompt: "What do you need? Say what you want, not what you don't want.",
+      example: "for us to make a plan for the kitchen together",
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH },
+      next: "appreciation",
+    },
+    {
+      id: "appreciation",
+      prompt: "Is there something you appreciate about your partner that relates to this?",
+      help: "Optional, but starting with appreciation makes it easier to hear the rest.",
+      example: "how much you've been helping with the kids this week",
+      required: false,
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH },
+      next: null,
+    },
+  ],
+  complete(inputs) {
+    const situation = stripLead(text(inputs, "situation"), /^about\s+/i);
+    const feelings = joinWords(labelsOf(FEELINGS, inputs.feelings));
+    const need = stripLead(text(inputs, "need"), /^i\s+need\s+/i);
+    const appreciation = stripLead(text(inputs, "appreciation"), /^i\s+(really\s+)?appreciate\s+/i);
+    const opening = appreciation ? `I really appreciate ${appreciation}. ` : "";
+    const sections = [
+      { label: "What you felt like saying", value: text(inputs, "harsh") },
+      { label: "Situation", value: situation },
+      { label: "Feelings", value: feelings },
+      { label: "Positive need", value: need },
+    ];
+    if (appreciation) sections.push({ label: "Appreciation", value: appreciation });
+    return {
+      title: "Your soft start-up",
+      text: `${opening}I feel ${feelings} about ${situation}. I need ${need}.`,
+      sections,
+    };
+  },
+};
+
+const SOOTHING: ExerciseOption[] = [
+  { value: "walk", label: "Go for a walk" },
+  { value: "breathing", label: "Slow breathing (in 4, out 6)" },
+  { value: "music", label: "Listen to calming music" },
+  { value: "shower", label: "Take a shower" },
+  { value: "stretch", label: "Stretch or do yoga" },
+  { value: "read", label: "Read something unrelated" },
+  { value: "journal", label: "Write down how you feel" },
+];
+
+// At or above this the body is flooded and a break should come before any more talking
+const FLOODING_THRESHOLD = 6;
+
+const timeOutV1: ExerciseDefinition = {
+  id: "time-out-v1",
+  title: "Time-out and self-soothe",
+  description: "Take a break from an escalating argument the constructive way, and plan how to come back to it.",
+  version: 1,
+  category: "self_regulation",
+  estimatedMinutes: 3,
+  startStep: "activation",
+  steps: [
+    {
+      id: "activation",
+      prompt: "How activated do you feel right now?",
+      help: "Racing heart, tight chest, or finding it hard to listen are signs of flooding.",
+      input: { type: "scale", min: 1, max: 10, labels: { left: "Calm", right: "Flooded" } },
+      next: (inputs) => (Number(inputs.activation) >= FLOODING_THRESHOLD ? "announce" : "still_break"),
+    },
+    {
+      id: "still_break",
+      prompt: "You seem fairly settled. Do you still want to take a break?",
+      input: {
+        type: "choice",
+        options: [
+          { value: "yes", label: "Yes, I need a break" },
+          { value: "no", label: "No, I can keep talking" },
+        ],
+      },
+      next: (inputs) => (inputs.still_break === "yes" ? "announce" : null),
+    },
+    {
+      id: "announce",
+      prompt: "How will you tell your partner you are taking a break?",
+      help: "Say that you will come back, and when. Leaving without saying so can feel like stonewalling.",
+      example: "I'm getting overwhelmed and need to calm down. Can we pause and pick this up again after dinner?",
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH, multiline: true },
+      next: "duration",
+    },
+    {
+      id: "duration",
+      prompt: "How long will the break be?",
+      help: "It takes at least 20 minutes for the body to calm down.",
+      input: { type: "minutes", min: 20, max: 24 * 60, defaultValue: 30 },
+      next: "soothing",
+    },
+    {
+      id: "soothing",
+      prompt: "What will you do to calm down?",
+      help: "Avoid replaying the argument or planning your comeback; that keeps you flooded.",
+      input: { type: "multi_choice", options: SOOTHING, minSelections: 1, maxSelections: 3 },
+      next: "return_opening",
+    },
+    {
+      id: "return_opening",
+      prompt: "When you come back, what is the first thing you want to say?",
+      example: "Thanks for giving me that time. I want to understand your side first.",
+      required: false,
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH },
+      next: null,
+    },
+  ],
+  complete(inputs) {
+    if (inputs.still_break === "no") {
+      return {
+        title: "No break needed",
+        text: "You feel settled enough to keep talking. Start gently: a feeling about the situation and what you need.",
+        sections: [{ label: "Activation", value: `${inputs.activation}/10` }],
+      };
+    }
+    const minutes = Number(inputs.duration);
+    const soothing = labelsOf(SOOTHING, inputs.soothing);
+    const opening = text(inputs, "return_opening");
+    const sections = [
+      { label: "Activation", value: `${inputs.activation}/10` },
+      { label: "What to say", value: text(inputs, "announce") },
+      { label: "Break length", value: `${minutes} minutes` },
+      { label: "To calm down", value: soothing.join("; ") },
+    ];
+    if (opening) sections.push({ label: "When you return", value: opening });
+    return {
+      title: "Your time-out plan",
+      text: [
+        `Say: "${text(inputs, "announce")}"`,
+        `Take ${minutes} minutes to ${joinWords(soothing)}.`,
+        opening ? `Come back and open with: "${opening}"` : "Then come back and pick up the conversation.",
+      ].join("\n"),
+      sections,
+    };
+  },
+};
+
+// Grouped after the categories of repair attempts in Gottman's research
+const REPAIR_PHRASES: Record<string, { label: string; phrase: string }> = {
+  sorry: { label: "Apologize", phrase: "I'm sorry. I'd like to try that again." },
+  calm: { label: "Slow down", phrase: "Can we slow down? I want to really hear you." },
+  agree: { label: "Find common ground", phrase: "You have a point, and I want us to figure this out together." },
+  appreciate: { label: "Show appreciation", phrase: "I love you, and this matters to me because we matter to me." },
+  redo: { label: "Ask for a do-over", phrase: "Can we start this conversation over?" },
+};
+
+const repairScriptV1: ExerciseDefinition = {
+  id: "repair-script-v1",
+  title: "Repair attempt script",
+  description: "Prepare a repair after a hurtful moment: own your part, name the impact and offer a way back.",
+  version: 1,
+  category: "repair",
+  estimatedMinutes: 5,
+  startStep: "situation",
+  steps: [
+    {
+      id: "situation",
+      prompt: "What happened that you want to repair?",
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH, multiline: true },
+      next: "ownership",
+    },
+    {
+      id: "ownership",
+      prompt: "What was your part in it? Name one specific thing you said or did.",
+      help: "Leave out \"but\". The repair is about your part, not theirs.",
+      example: "raised my voice when you brought up the budget",
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH },
+      next: "impact",
+    },
+    {
+      id: "impact",
+      prompt: "How do you think it left your partner feeling?",
+      input: { type: "multi_choice", options: FEELINGS, minSelections: 1, maxSelections: 3 },
+      next: "repair_type",
+    },
+    {
+      id: "repair_type",
+      prompt: "Which kind of repair fits best?",
+      input: {
+        type: "choice",
+        options: Object.entries(REPAIR_PHRASES).map(([value, r]) => ({ value, label: r.label })),
+      },
+      next: "next_time",
+    },
+    {
+      id: "next_time",
+      prompt: "What will you try differently next time?",
+      example: "ask for a break before I get that heated",
+      required: false,
+      input: { type: "text", maxLength: TEXT_MAX_LENGTH },
+      next: null,
+    },
+  ],
+  complete(inputs) {
+    const ownership = stripLead(text(inputs, "ownership"), /^i\s+/i);
+    const impact = joinWords(labelsOf(FEELINGS, inputs.impact));
+    const repair = REPAIR_PHRASES[String(inputs.repair_type)] ?? REPAIR_PHRASES.sorry!;
+    const nextTime = stripLead(text(inputs, "next_time"), /^(next time\s+)?i('ll| will)\s+/i);
+    const lines = [
+      `I've been thinking about ${stripLead(text(inputs, "situation"), /^when\s+/i)}.`,
+      `I ${ownership}, and I can imagine that left you feeling ${impact}.`,
+      repair.phrase,
+    ];
+    if (nextTime) lines.push(`Next time I'll ${nextTime}.`);
+    return {
+      title: "Your repair script",
+      text: lines.join(" "),
+      sections: [
+        { label: "What happened", value: text(inputs, "situation") },
+        { label: "Your part", value: ownership },
+        { label: "Impact", value: impact },
+        { label: "Repair", value: repair.label },
+        ...(nextTime ? [{ label: "Next time", value: nextTime }] : []),
+      ],
+    };
+  },
+};
+
+const exerciseIndex: Record<string, ExerciseDefinition> = {
+  [nvcStatementV1.id]: nvcStatementV1,
+  [softStartupV1.id]: softStartupV1,
+  [timeOutV1.id]: timeOutV1,
+  [repairScriptV1.id]: repairScriptV1,
+};
+
+export function getExerciseDefinition(exerciseId: string): ExerciseDefinition | null {
+  return exerciseIndex[exerciseId] ?? null;
+}
+
+export function listExercises(): ExerciseCatalogEntry[] {
+  return Object.values(exerciseIndex).map((e) => ({
+    id: e.id,
+    title: e.title,
+    description: e.description,
+    version: e.version,
+    category: e.category,
+    estimatedMinutes: e.estimatedMinutes,
+    stepCount: e.steps.length,
+  }));
+}
+
+export function getStep(exercise: ExerciseDefinition, stepId: string | null): ExerciseStep | null {
+  return exercise.steps.find((s) => s.id === stepId) ?? null;
+}
+
+export function toPublicStep(step: ExerciseStep): PublicExerciseStep {
+  const { next: _next, required, ...rest } = step;
+  return { ...rest, required: required ?? true };
+}
+
+function inputSchema(input: ExerciseInput): z.ZodType<ExerciseValue> {
+  switch (input.type) {
+    case "text":
+      return z.string().trim().min(1).max(input.maxLength ?? TEXT_MAX_LENGTH);
+    case "choice": {
+      const values = input.options.map((o) => o.value);
+      return z.string().refine((v) => values.includes(v), { message: `Value must be one of ${values.join(", ")}` });
+    }
+    case "multi_choice": {
+      const values = input.options.map((o) => o.value);
+      return z
+        .array(z.string().refine((v) => values.includes(v), { message: `Values must be among ${values.join(", ")}` }))
+        .min(input.minSelections ?? 1)
+        .max(input.maxSelections ?? input.options.length)
+        .refine((v) => new Set(v).size === v.length, { message: "Options may only be selected once" });
+    }
+    case "scale":
+      return z.number().int().min(input.min).max(input.max);
+    case "minutes":
+      return z.number().int().min(input.min).max(input.max);
+  }
+}
+
+export function startState(exercise: ExerciseDefinition): ExerciseState {
+  return { currentStep: exercise.startStep, path: [], inputs: {} };
+}
+
+function resolveNext(step: ExerciseStep, inputs: ExerciseInputs): string | null {
+  return typeof step.next === "function" ? step.next(inputs) : step.next;
+}
+
+// Only the answers to the given steps; answers kept from branches the user backed out of drop away.
+function inputsOnPath(inputs: ExerciseInputs, path: string[]): ExerciseInputs {
+  const onPath: ExerciseInputs = {};
+  for (const stepId of path) {
+    const value = inputs[stepId];
+    if (value !== undefined) onPath[stepId] = value;
+  }
+  return onPath;
+}
+
+/**
+ * Answers the current step and moves the machine along. `value` may be omitted only for optional
+ * steps. Returns an error message instead of a state when the answer does not fit the step.
+ */
+export function advance(
+  exercise: ExerciseDefinition,
+  state: ExerciseState,
+  stepId: string,
+  value: ExerciseValue | undefined
+): { state: ExerciseState } | { error: string } {
+  const step = getStep(exercise, state.currentStep);
+  if (!step) return { error: "This exercise is already finished" };
+  if (step.id !== stepId) return { error: `Expected an answer for step ${step.id}` };
+
+  const inputs = { ...state.inputs };
+  if (value === undefined || (typeof value === "string" && value.trim() === "")) {
+    if (step.required ?? true) return { error: "This step needs an answer" };
+    delete inputs[step.id];
+  } else {
+    const parsed = inputSchema(step.input).safeParse(value);
+    if (!parsed.success) return { error: parsed.error.issues[0]?.message ?? "Invalid answer" };
+    inputs[step.id] = parsed.data;
+  }
+
+  const path = [...state.path, step.id];
+  const next = resolveNext(step, inputsOnPath(inputs, path));
+  if (next !== null && !getStep(exercise, next)) throw new Error(`Exercise ${exercise.id} has no step ${next}`);
+  return { state: { currentStep: next, path, inputs } };
+}
+
+/** Steps back to the last answered step; its earlier answer is kept for editing. */
+export function goBack(state: ExerciseState): ExerciseState | null {
+  const previous = state.path[state.path.length - 1];
+  if (!previous) return null;
+  return { ...state, currentStep: previous, path: state.path.slice(0, -1) };
+}
+
+/** Builds the output from the answers on the path taken; answers left behind by going back are ignored. */
+export function completeExercise(exercise: ExerciseDefinition, state: ExerciseState): ExerciseOutput {
+  return exercise.complete(inputsOnPath(state.inputs, state.path));
+}
@@ -0,0 +1,210 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { randomUUID } from "node:crypto";
+import type { z } from "zod";
+import { setCors } from "./cors";
+import { ApiError, AuthenticationError, InternalError, MethodNotAllowedError, ValidationError } from "./errors";
+import { createLogger, flushTelemetry, runWithRequestId, withSpan } from "./logger";
+import { createSupabaseClientForUserToken, getBearerTokenFromRequest } from "./supabase";
+
+export type HttpMethod = "GET" | "POST" | "PATCH" | "DELETE";
+
+// `requestId` correlates a response (X-Request-Id header, `requestId` in error bodies) with its logs
+export type RequestContext = { req: VercelRequest; res: VercelResponse; requestId: string };
+
+export type AuthContext = { token: string; supabase: SupabaseClient; userId: string };
+
+export type OptionalAuthContext = { token: string | null; supabase: SupabaseClient; userId: string | null };
+
+/**
+ * What the OpenAPI document (see openapi.ts) says about an endpoint. Stages that read the request
+ * contribute their part (`body`, `query`, `auth`), so the document follows the code that validates.
+ */
+export type EndpointSpec = {
+  operationId?: string;
+  summary?: string;
+  auth?: "required" | "optional";
+  body?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  response?: z.ZodTypeAny;
+  // Success statuses the response is sent with; the first is the default
+  statuses?: number[];
+  // Rejects with 429 past a rate limit or quota (see limits.ts)
+  rateLimited?: boolean;
+  // Server-Sent Event payloads, for endpoints that can answer with an event stream
+  events?: z.ZodTypeAny;
+  // Left out of the document: endpoints only the platform calls, or removed ones
+  hidden?: boolean;
+};
+
+/**
+ * One pipeline stage: reads the context built so far and returns the fields it adds.
+ * A stage that rejects the request throws an ApiError instead of writing the response.
+ */
+export type Middleware<In, Add extends object> = ((ctx: In) => Add | Promise<Add>) & { spec?: EndpointSpec };
+
+// Handlers write their own response (JSON or an event stream); anything thrown goes through the error mapping
+export type EndpointHandler<Ctx> = (ctx: Ctx) => Promise<unknown>;
+
+export type Endpoint = ((ctx: RequestContext) => Promise<void>) & { spec: EndpointSpec };
+
+export type RouteHandler = ((req: VercelRequest, res: VercelResponse) => Promise<void>) & {
+  methods: HttpMethod[];
+  endpoints: Partial<Record<HttpMethod, Endpoint>>;
+};
+
+class EndpointBuilder<Ctx extends RequestContext> {
+  constructor(
+    private readonly stages: Middleware<any, object>[],
+    private readonly spec: EndpointSpec
+  ) {}
+
+  // Builders are immutable, so a shared base (e.g. `authed`) can be extended per method
+  use<Add extends object>(middleware: Middleware<Ctx, Add>): EndpointBuilder<Ctx & Add> {
+    return new EndpointBuilder<Ctx & Add>([...this.stages, middleware], { ...this.spec, ...middleware.spec });
+  }
+
+  /** Names the endpoint in the OpenAPI document; `operationId` becomes the method name in the API client. */
+  doc(spec: Pick<EndpointSpec, "operationId" | "summary" | "hidden">): EndpointBuilder<Ctx> {
+    return new EndpointBuilder<Ctx>(this.stages, { ...this.spec, ...spec });
+  }
+
+  /** Declares the JSON success body and adds `send`, which only accepts bodies matching it. */
+  returns<S extends z.ZodTypeAny>(
+    schema: S,
+    statuses: number[] = [200]
+  ): EndpointBuilder<Ctx & { send: (body: z.infer<S>, status?: number) => void }> {
+    const stage = ({ res }: RequestContext) => ({
+      send: (body: z.infer<S>, status = statuses[0]) => void res.status(status ?? 200).json(body),
+    });
+    return this.use(Object.assign(stage, { spec: { response: schema, statuses } }));
+  }
+
+  /** Declares the events of a Server-Sent Event response; writing them stays with the handler (see sse.ts). */
+  streams(schema: z.ZodTypeAny): EndpointBuilder<Ctx> {
+    return new EndpointBuilder<Ctx>(this.stages, { ...this.spec, events: schema });
+  }
+
+  handle(handler: EndpointHandler<Ctx>): Endpoint {
+    const stages = this.stages;
+    const run = async (base: RequestContext) => {
+      let ctx: any = base;
+      for (const stage of stages) ctx = { ...ctx, ...(await stage(ctx)) };
+      await handler(ctx as Ctx);
+    };
+    return Object.assign(run, { spec: this.spec });
+  }
+}
+
+export function endpoint(): EndpointBuilder<RequestContext> {
+  return new EndpointBuilder<RequestContext>([], {});
+}
+
+/** Rejects requests without a valid session with 401. */
+export function requireAuth(): Middleware<RequestContext, AuthContext> {
+  const stage = async ({ req }: RequestContext) => {
+    const auth = await authenticate(req);
+    if (!auth.userId || !auth.token) throw new AuthenticationError("UNAUTHORIZED", "Unauthorized");
+    return { token: auth.token, supabase: auth.supabase, userId: auth.userId };
+  };
+  return Object.assign(stage, { spec: { auth: "required" as const } });
+}
+
+/** Anonymous requests pass with `userId: null`; a token that does not resolve to a user is still a 401. */
+export function optionalAuth(): Middleware<RequestContext, OptionalAuthContext> {
+  const stage = async ({ req }: RequestContext) => {
+    const auth = await authenticate(req);
+    if (auth.token && !auth.userId) throw new AuthenticationError("UNAUTHORIZED", "Unauthorized");
+    return auth;
+  };
+  return Object.assign(stage, { spec: { auth: "optional" as const } });
+}
+
+async function authenticate(req: VercelRequest): Promise<OptionalAuthContext> {
+  const token = getBearerTokenFromRequest(req);
+  const supabase = createSupabaseClientForUserToken(token);
+  if (!token) return { token, supabase, userId: null };
+  const { data, error } = await supabase.auth.getUser(token);
+  return { token, supabase, userId: error ? null : (data.user?.id ?? null) };
+}
+
+export function body<S extends z.ZodTypeAny>(schema: S): Middleware<RequestContext, { body: z.infer<S> }> {
+  const stage = ({ req }: RequestContext) => {
+    const parsed = schema.safeParse(req.body ?? {});
+    if (!parsed.success) throw new ValidationError("VALIDATION_FAILED", "Invalid payload", { details: parsed.error.issues });
+    return { body: parsed.data as z.infer<S> };
+  };
+  return Object.assign(stage, { spec: { body: schema } });
+}
+
+// The schema should be a z.object of the query parameters; each key is documented as one parameter
+export function query<S extends z.ZodTypeAny>(schema: S): Middleware<RequestContext, { query: z.infer<S> }> {
+  const stage = ({ req }: RequestContext) => {
+    const parsed = schema.safeParse(req.query ?? {});
+    if (!parsed.success) throw new ValidationError("VALIDATION_FAILED", "Invalid query", { details: parsed.error.issues });
+    return { query: parsed.data as z.infer<S> };
+  };
+  return Object.assign(stage, { spec: { query: schema } });
+}
+
+// A caller-supplied id (e.g. from a proxy or the app) is kept so both sides log the same one
+export function resolveRequestId(req: VercelRequest): string {
+  const header = req.headers["x-request-id"];
+  return typeof header === "string" && /^[\w.-]{8,128}$/.test(header) ? header : randomUUID();
+}
+
+/** Writes any thrown value as a structured error response; only ApiErrors say what went wrong. */
+export function sendError(res: VercelResponse, error: unknown, label: string, requestId: string) {
+  const log = createLogger(label);
+  if (res.headersSent) {
+    // Mid-stream there is no status left to set; close what was started
+    log.error("failed after responding", { error });
+    res.end();
+    return;
+  }
+  const apiError = error instanceof ApiError ? error : new InternalError("INTERNAL", "Something went wrong", error);
+  if (apiError instanceof InternalError) {
+    log.error(apiError.code, { error: apiError.cause ?? apiError });
+  }
+  for (const [name, value] of Object.entries(apiError.headers())) res.setHeader(name, value);
+  res.status(apiError.status).json(apiError.toBody(requestId));
+}
+
+/**
+ * The default export of every file in api/: CORS, preflight, request ids, method dispatch and
+ * error mapping around one endpoint per method. The dev server mounts the same handlers (see routes.ts).
+ * Each request runs in its own trace (see logger.ts): a server span, and the request id on every log line.
+ */
+export function defineRoute(name: string, endpoints: Partial<Record<HttpMethod, Endpoint>>): RouteHandler {
+  const methods = Object.keys(endpoints) as HttpMethod[];
+  const handler = async (req: VercelRequest, res: VercelResponse) => {
+    setCors(res);
+    if (req.method === "OPTIONS") {
+      res.status(204).end();
+      return;
+    }
+    const requestId = resolveRequestId(req);
+    res.setHeader("X-Request-Id", requestId);
+    const method = req.method ?? "GET";
+    await runWithRequestId(requestId, () =>
+      withSpan(
+        `${method} ${name}`,
+        { route: name, method },
+        async (span) => {
+          try {
+            const run = endpoints[method as HttpMethod];
+            if (!run) throw new MethodNotAllowedError([...methods, "OPTIONS"]);
+            await run({ req, res, requestId });
+          } catch (e) {
+            sendError(res, e, name, requestId);
+          }
+          span.end(res.statusCode >= 500 ? "error" : "ok", { status: res.statusCode });
+        },
+        "server"
+      )
+    );
+    // Serverless invocations freeze once the handler returns; buffered telemetry goes out first
+    await flushTelemetry();
+  };
+  return Object.assign(handler, { methods, endpoints });
+}
@@ -0,0 +1,255 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { randomUUID } from "node:crypto";
+import { analyzeEmotions } from "./analysis";
+import { autoTitleChat, CHAT_MEMBERSHIP_COLUMNS, speakerLabelsFor, type ChatMembership } from "./chats";
+import { createLogger, currentRequestId, runWithRequestId, withSpan } from "./logger";
+import { updateRollingSummary } from "./memory";
+
+const log = createLogger("jobs");
+
+export type JobKind = "analyze_message" | "title_chat" | "summarize_chat";
+
+// Follow-up work on a chat after a reply is stored
+export type ChatJobKind = Exclude<JobKind, "analyze_message">;
+
+export type JobRow = {
+  id: string;
+  kind: JobKind;
+  payload: Record<string, unknown>;
+  idempotency_key: string;
+  status: "queued" | "running" | "succeeded" | "dead";
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+};
+
+export type JobContext = {
+  client: SupabaseClient;
+  // True on the job's last allowed attempt, so handlers can accept a degraded result
+  finalAttempt: boolean;
+};
+
+export type WorkerStats = {
+  claimed: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+  backfilled: number;
+  // Abandoned test drafts marked expired this run
+  expiredAttempts: number;
+};
+
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 30 * 60_000;
+const LOCK_SECONDS = 300;
+
+function getBackfillDays(): number {
+  const n = Number(process.env.JOBS_BACKFILL_DAYS);
+  return Number.isFinite(n) && n >= 0 ? n : 30;
+}
+
+// Exponential with jitter: ~5s, 10s, 20s, ... capped at 30 minutes
+export function backoffDelayMs(attempts: number): number {
+  const exp = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(exp * (0.8 + Math.random() * 0.4));
+}
+
+async function analyzeMessage(payload: Record<string, unknown>, { client, finalAttempt }: JobContext) {
+  const messageId = payload.messageId;
+  if (typeof messageId !== "string") throw new Error("analyze_message job is missing messageId");
+  const { data: message, error } = await client
+    .from("messages")
+    .select("id,role,content,analysis,revision,deleted_at")
+    .eq("id", messageId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  // Deleted, not a user message, or already analyzed by an earlier attempt: nothing to do
+  if (!message || message.deleted_at || message.role !== "user" || message.analysis) return;
+  // Edited since this job was queued; the job for the newer revision covers it
+  if (typeof payload.revision === "number" && payload.revision !== message.revision) return;
+
+  const analysis = await analyzeEmotions([{ role: "user", content: message.content as string }]);
+  // Unparseable model output is worth another try; keep the neutral fallback only at the end
+  if (analysis.fallback && !finalAttempt) throw new Error("Analysis model returned unusable output");
+  // Guarded on the revision so an edit made while the model ran never gets the old text's analysis
+  const { error: upErr } = await client
+    .from("messages")
+    .update({ analysis })
+    .eq("id", messageId)
+    .eq("revision", message.revision);
+  if (upErr) throw new Error(upErr.message);
+}
+
+function chatIdOf(kind: ChatJobKind, payload: Record<string, unknown>): string {
+  if (typeof payload.chatId !== "string") throw new Error(`${kind} job is missing chatId`);
+  return payload.chatId;
+}
+
+async function titleChat(payload: Record<string, unknown>, { client }: JobContext) {
+  await autoTitleChat(client, chatIdOf("title_chat", payload));
+}
+
+async function summarizeChat(payload: Record<string, unknown>, { client }: JobContext) {
+  const chatId = chatIdOf("summarize_chat", payload);
+  const { data: chat, error } = await client.from("chats").select(CHAT_MEMBERSHIP_COLUMNS).eq("id", chatId).maybeSingle();
+  if (error) throw new Error(error.message);
+  // Deleted since: nothing to summarize
+  if (!chat) return;
+  await updateRollingSummary(client, chatId, speakerLabelsFor(chat as ChatMembership));
+}
+
+const JOB_HANDLERS: Record<JobKind, (payload: Record<string, unknown>, ctx: JobContext) => Promise<void>> = {
+  analyze_message: analyzeMessage,
+  title_chat: titleChat,
+  summarize_chat: summarizeChat,
+};
+
+/**
+ * Queues emotion analysis for a user message's current revision; safe to call more than once.
+ * The job keeps the current request id, so its logs and spans join that request's trace.
+ */
+export async function enqueueMessageAnalysis(client: SupabaseClient, messageId: string): Promise<string | null> {
+  const { data, error } = await client.rpc("enqueue_message_analysis", {
+    p_message_id: messageId,
+    p_request_id: currentRequestId() ?? null,
+  });
+  if (error) throw new Error(error.message);
+  return (data as string | null) ?? null;
+}
+
+/**
+ * Queues titling or summarizing a chat after the reply `messageId` was stored; safe to call more
+ * than once. Returns null when there is nothing to do (a title job for an already titled chat).
+ */
+export async function enqueueChatJob(
+  client: SupabaseClient,
+  kind: ChatJobKind,
+  chatId: string,
+  messageId: string
+): Promise<string | null> {
+  const { data, error } = await client.rpc("enqueue_chat_job", {
+    p_kind: kind,
+    p_chat_id: chatId,
+    p_message_id: messageId,
+    p_request_id: currentRequestId() ?? null,
+  });
+  if (error) throw new Error(error.message);
+  return (data as string | null) ?? null;
+}
+
+// Runs in the trace of the request that queued the job; backfilled jobs get a trace of their own
+function runJob(client: SupabaseClient, worker: string, job: JobRow, stats: WorkerStats): Promise<void> {
+  const requestId = typeof job.payload.requestId === "string" ? job.payload.requestId : `job-${job.id}`;
+  return runWithRequestId(requestId, () =>
+    withSpan(`job ${job.kind}`, { jobId: job.id, attempt: job.attempts }, async (span) => {
+      const result = await attemptJob(client, worker, job, stats);
+      span.end(result === "succeeded" ? "ok" : "error", { result });
+    })
+  );
+}
+
+async function attemptJob(
+  client: SupabaseClient,
+  worker: string,
+  job: JobRow,
+  stats: WorkerStats
+): Promise<"succeeded" | "retried" | "dead"> {
+  const handler = JOB_HANDLERS[job.kind];
+  const finalAttempt = job.attempts >= job.max_attempts;
+  try {
+    if (!handler) throw new Error(`Unknown job kind: ${job.kind}`);
+    await handler(job.payload, { client, finalAttempt });
+    const { error } = await client
+      .from("jobs")
+      .update({ status: "succeeded", completed_at: new Date().toISOString(), updated_at: new Date().toISOString(), last_error: null })
+      .eq("id", job.id)
+      .eq("locked_by", worker);
+    // The work is done; the job stays running until its lock expires and the rerun finds nothing to do
+    if (error) log.error("failed to mark job succeeded", { kind: job.kind, jobId: job.id, error });
+    stats.succeeded++;
+    return "succeeded";
+  } catch (e) {
+    const message = (e instanceof Error ? e.message : String(e)).slice(0, 2000);
+    const dead = finalAttempt || !handler;
+    const { error } = await client
+      .from("jobs")
+      .update({
+        status: dead ? "dead" : "queued",
+        run_at: dead ? undefined : new Date(Date.now() + backoffDelayMs(job.attempts)).toISOString(),
+        last_error: message,
+        locked_at: null,
+        locked_by: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", job.id)
+      .eq("locked_by", worker);
+    // Left running, the job is claimed again once its lock expires
+    if (error) log.error("failed to record job failure", { kind: job.kind, jobId: job.id, error });
+    if (dead) stats.dead++;
+    else stats.retried++;
+    log.error(dead ? "job failed, giving up" : "job failed, will retry", {
+      kind: job.kind,
+      jobId: job.id,
+      attempt: job.attempts,
+      error: message,
+    });
+    return dead ? "dead" : "retried";
+  }
+}
+
+/**
+ * Claims and runs due jobs until none are left or the time budget is spent. Needs the
+ * service role client: jobs span every user's messages.
+ */
+export async function runWorker(
+  client: SupabaseClient,
+  { batchSize = 10, maxRuntimeMs = 25_000, backfill = true }: { batchSize?: number; maxRuntimeMs?: number; backfill?: boolean } = {}
+): Promise<WorkerStats> {
+  const worker = `worker-${randomUUID()}`;
+  const stats: WorkerStats = { claimed: 0, succeeded: 0, retried: 0, dead: 0, backfilled: 0, expiredAttempts: 0 };
+  const deadline = Date.now() + maxRuntimeMs;
+
+  if (backfill) {
+    const since = new Date(Date.now() - getBackfillDays() * 86_400_000).toISOString();
+    const { data, error } = await client.rpc("enqueue_missing_analyses", { p_since: since, p_limit: 100 });
+    if (error) log.error("backfill failed", { error });
+    else stats.backfilled = (data as number) ?? 0;
+  }
+
+  // The API only expires drafts it touches; this sweeps the ones nobody comes back to
+  const { data: expired, error: expireErr } = await client.rpc("expire_test_attempts");
+  if (expireErr) log.error("expiring test attempts failed", { error: expireErr });
+  else stats.expiredAttempts = (expired as number) ?? 0;
+
+  while (Date.now() < deadline) {
+    const { data, error } = await client.rpc("claim_jobs", {
+      p_worker: worker,
+      p_limit: batchSize,
+      p_lock_seconds: LOCK_SECONDS,
+    });
+    if (error) throw new Error(error.message);
+    const jobs = (data ?? []) as JobRow[];
+    if (jobs.length === 0) break;
+    stats.claimed += jobs.length;
+    for (const job of jobs) await runJob(client, worker, job, stats);
+  }
+  return stats;
+}
+
+/**
+ * Best-effort immediate run of one job from the request that enqueued it. If the invocation
+ * is killed first, the lock expires and the cron worker picks the job up again.
+ */
+export async function runJobNow(client: SupabaseClient, jobId: string): Promise<void> {
+  const worker = `inline-${randomUUID()}`;
+  const { data, error } = await client.rpc("claim_jobs", {
+    p_worker: worker,
+    p_limit: 1,
+    p_lock_seconds: LOCK_SECONDS,
+    p_job_id: jobId,
+  });
+  if (error) throw new Error(error.message);
+  const job = ((data ?? []) as JobRow[])[0];
+  if (!job) return;
+  await runJob(client, worker, job, { claimed: 1, succeeded: 0, retried: 0, dead: 0, backfilled: 0, expiredAttempts: 0 });
+}
@@ -0,0 +1,187 @@
+import type { VercelRequest } from "@vercel/node";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { RateLimitError } from "./errors";
+import type { AuthContext, Middleware, RequestContext } from "./http";
+import { createServiceRoleClient } from "./supabase";
+import { getModelForTask, type LlmTask, type TokenUsage } from "./llm";
+import { createLogger } from "./logger";
+
+const log = createLogger("limits");
+
+export type PlanTier = "free" | "plus" | "pro";
+
+export type PlanLimits = {
+  requestsPerMinute: number;
+  messagesPerDay: number;
+  tokensPerDay: number;
+  // Models a caller may request explicitly; the task's configured default is always allowed
+  models: string[];
+};
+
+const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
+  free: { requestsPerMinute: 10, messagesPerDay: 50, tokensPerDay: 100_000, models: [] },
+  plus: {
+    requestsPerMinute: 30,
+    messagesPerDay: 300,
+    tokensPerDay: 1_000_000,
+    models: ["grok-3-mini", "grok-3", "gpt-4o-mini"],
+  },
+  pro: {
+    requestsPerMinute: 60,
+    messagesPerDay: 1_000,
+    tokensPerDay: 5_000_000,
+    models: ["grok-3-mini", "grok-3", "grok-4", "gpt-4o-mini", "gpt-4o"],
+  },
+};
+
+// Shared by everyone behind one address, so looser than any single user's limit
+const IP_REQUESTS_PER_MINUTE = 60;
+const WINDOW_SECONDS = 60;
+
+export function getPlanLimits(plan: PlanTier): PlanLimits {
+  const limits = PLAN_LIMITS[plan];
+  // PLAN_MODELS_FREE / PLAN_MODELS_PLUS / PLAN_MODELS_PRO override the allowlist (comma-separated)
+  const override = process.env[`PLAN_MODELS_${plan.toUpperCase()}`];
+  if (override === undefined) return limits;
+  return { ...limits, models: override.split(",").map((m) => m.trim()).filter(Boolean) };
+}
+
+export async function getUserPlan(supabase: SupabaseClient, userId: string): Promise<PlanTier> {
+  const { data } = await supabase.from("profiles").select("plan").eq("user_id", userId).maybeSingle();
+  const plan = data?.plan;
+  return plan === "plus" || plan === "pro" ? plan : "free";
+}
+
+/** The requested model when the plan allows it, the task default when none was requested, else null. */
+export function resolveModel(limits: PlanLimits, task: LlmTask, requested: string | undefined): string | null {
+  const fallback = getModelForTask(task);
+  if (!requested || requested === fallback) return fallback;
+  return limits.models.includes(requested) ? requested : null;
+}
+
+export function allowedModels(limits: PlanLimits, task: LlmTask): string[] {
+  return [...new Set([getModelForTask(task), ...limits.models])];
+}
+
+// First x-forwarded-for hop is the client on Vercel; the socket address is the dev server fallback
+export function getClientIp(req: VercelRequest): string {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0]?.trim();
+  return first || req.socket?.remoteAddress || "unknown";
+}
+
+export type LimitDecision = { allowed: boolean; retryAfterSeconds: number };
+
+// Per-instance fallback when no service role is configured (local dev); not shared across instances
+const memoryWindows = new Map<string, { windowStart: number; hits: number }>();
+
+function hitMemoryLimit(key: string, limit: number, windowSeconds: number): LimitDecision {
+  const now = Date.now();
+  const windowStart = Math.floor(now / (windowSeconds * 1000)) * windowSeconds * 1000;
+  const entry = memoryWindows.get(key);
+  const hits = entry && entry.windowStart === windowStart ? entry.hits + 1 : 1;
+  memoryWindows.set(key, { windowStart, hits });
+  return { allowed: hits <= limit, retryAfterSeconds: Math.max(1, Math.ceil((windowStart + windowSeconds * 1000 - now) / 1000)) };
+}
+
+/** Counts one request against `key` in a fixed window; fails open if the counter itself errors. */
+export async function hitRateLimit(
+  service: SupabaseClient | null,
+  key: string,
+  limit: number,
+  windowSeconds = WINDOW_SECONDS
+): Promise<LimitDecision> {
+  if (!service) return hitMemoryLimit(key, limit, windowSeconds);
+  const { data, error } = await service
+    .rpc("hit_rate_limit", { p_key: key, p_limit: limit, p_window_seconds: windowSeconds })
+    .maybeSingle();
+  if (error || !data) {
+    log.error("rate limit check failed", { error });
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+  const row = data as { allowed: boolean; retry_after_seconds: number };
+  return { allowed: row.allowed, retryAfterSeconds: row.retry_after_seconds };
+}
+
+export function checkIpRateLimit(service: SupabaseClient | null, req: VercelRequest): Promise<LimitDecision> {
+  return hitRateLimit(service, `ip:${getClientIp(req)}`, IP_REQUESTS_PER_MINUTE);
+}
+
+export function checkUserRateLimit(
+  service: SupabaseClient | null,
+  userId: string,
+  limits: PlanLimits
+): Promise<LimitDecision> {
+  return hitRateLimit(service, `user:${userId}`, limits.requestsPerMinute);
+}
+
+export type DailyUsage = { messages: number; promptTokens: number; completionTokens: number };
+
+function utcDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight(): number {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.max(1, Math.ceil((midnight - now.getTime()) / 1000));
+}
+
+export async function checkDailyQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  limits: PlanLimits
+): Promise<LimitDecision & { usage: DailyUsage }> {
+  const { data } = await supabase
+    .from("usage_daily")
+    .select("messages,prompt_tokens,completion_tokens")
+    .eq("user_id", userId)
+    .eq("day", utcDay())
+    .maybeSingle();
+  const usage: DailyUsage = {
+    messages: Number(data?.messages ?? 0),
+    promptTokens: Number(data?.prompt_tokens ?? 0),
+    completionTokens: Number(data?.completion_tokens ?? 0),
+  };
+  const allowed =
+    usage.messages < limits.messagesPerDay && usage.promptTokens + usage.completionTokens < limits.tokensPerDay;
+  return { allowed, retryAfterSeconds: allowed ? 0 : secondsUntilUtcMidnight(), usage };
+}
+
+export async function recordUsage(writer: SupabaseClient, userId: string, usage: TokenUsage | undefined) {
+  const { error } = await writer.rpc("record_llm_usage", {
+    p_user_id: userId,
+    p_messages: 1,
+    p_prompt_tokens: usage?.promptTokens ?? 0,
+    p_completion_tokens: usage?.completionTokens ?? 0,
+  });
+  if (error) log.error("failed to record usage", { error });
+}
+
+/** Pipeline stage for model-backed endpoints; runs before authentication so it also covers bad tokens. */
+export function ipRateLimit(): Middleware<RequestContext, object> {
+  const stage = async ({ req }: RequestContext) => {
+    const decision = await checkIpRateLimit(createServiceRoleClient(), req);
+    if (!decision.allowed) throw new RateLimitError("RATE_LIMITED", "Too many requests", decision.retryAfterSeconds);
+    return {};
+  };
+  return Object.assign(stage, { spec: { rateLimited: true } });
+}
+
+/** Pipeline stage after auth: the plan tier sets the per-user rate limit, the daily quota and the allowed models. */
+export function planLimits(): Middleware<RequestContext & AuthContext, { limits: PlanLimits }> {
+  const stage = async ({ supabase, userId }: RequestContext & AuthContext) => {
+    const limits = getPlanLimits(await getUserPlan(supabase, userId));
+    const userLimit = await checkUserRateLimit(createServiceRoleClient(), userId, limits);
+    if (!userLimit.allowed) throw new RateLimitError("RATE_LIMITED", "Too many requests", userLimit.retryAfterSeconds);
+    const quota = await checkDailyQuota(supabase, userId, limits);
+    if (!quota.allowed) {
+      throw new RateLimitError("QUOTA_EXCEEDED", "Daily usage limit reached", quota.retryAfterSeconds, {
+        usage: quota.usage,
+        limits: { messagesPerDay: limits.messagesPerDay, tokensPerDay: limits.tokensPerDay },
+      });
+    }
+    return { limits };
+  };
+  return Object.assign(stage, { spec: { rateLimited: true } });
+}
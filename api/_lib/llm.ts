@@ -0,0 +1,298 @@
+import OpenAI from "openai";
+import { readFileSync } from "node:fs";
+import { requireEnv } from "./supabase";
+import { startSpan, type SpanOutcome } from "./logger";
+
+export type LlmProviderName = "xai" | "openai" | "compatible" | "fake";
+
+// Each task can be pointed at its own model (e.g. a cheap model for analysis)
+export type LlmTask = "counsel" | "analysis" | "safety" | "title" | "summary" | "coach";
+
+export type LlmMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type CompletionRequest = {
+  task: LlmTask;
+  messages: LlmMessage[];
+  model?: string;
+  temperature?: number;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type CompletionResult = {
+  content: string;
+  model: string;
+  usage?: TokenUsage;
+};
+
+export type CompletionChunk = {
+  delta: string;
+  model?: string;
+  // Present on the final chunk when the provider reports usage for streams
+  usage?: TokenUsage;
+};
+
+export type LlmProvider = {
+  name: LlmProviderName;
+  complete(req: CompletionRequest): Promise<CompletionResult>;
+  stream(req: CompletionRequest): AsyncIterable<CompletionChunk>;
+};
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  xai: "grok-3-mini",
+  openai: "gpt-4o-mini",
+  compatible: "",
+  fake: "fake-1",
+};
+
+const TASK_MODEL_ENV: Record<LlmTask, string> = {
+  counsel: "LLM_MODEL_COUNSEL",
+  analysis: "LLM_MODEL_ANALYSIS",
+  safety: "LLM_MODEL_SAFETY",
+  title: "LLM_MODEL_TITLE",
+  summary: "LLM_MODEL_SUMMARY",
+  coach: "LLM_MODEL_COACH",
+};
+
+export function getProviderName(): LlmProviderName {
+  const raw = (process.env.LLM_PROVIDER || "xai").toLowerCase();
+  if (raw === "xai" || raw === "openai" || raw === "compatible" || raw === "fake") return raw;
+  throw new Error(`Unknown LLM_PROVIDER "${raw}" (expected xai, openai, compatible or fake)`);
+}
+
+export function getModelForTask(task: LlmTask, providerName = getProviderName()): string {
+  const model = process.env[TASK_MODEL_ENV[task]] || process.env.LLM_MODEL || DEFAULT_MODELS[providerName];
+  if (!model) throw new Error(`Missing model for task "${task}"; set ${TASK_MODEL_ENV[task]} or LLM_MODEL`);
+  return model;
+}
+
+let _provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (!_provider) _provider = withTelemetry(createProvider(getProviderName()));
+  return _provider;
+}
+
+function createProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case "xai":
+      return createOpenAICompatibleProvider(name, {
+        apiKey: requireEnv("XAI_API_KEY"),
+        baseURL: "https://api.x.ai/v1",
+      });
+    case "openai":
+      return createOpenAICompatibleProvider(name, { apiKey: requireEnv("OPENAI_API_KEY") });
+    case "compatible":
+      return createOpenAICompatibleProvider(name, {
+        apiKey: process.env.LLM_API_KEY || "not-needed",
+        baseURL: requireEnv("LLM_BASE_URL"),
+      });
+    case "fake":
+      return createFakeProvider(loadFakeScript());
+  }
+}
+
+// Override the process-wide provider (used by tests and the dev server)
+export function setLlmProvider(provider: LlmProvider | null) {
+  _provider = provider && withTelemetry(provider);
+}
+
+/**
+ * Records an `llm.complete` / `llm.stream` span per call: provider, task, model, latency, token
+ * counts and outcome. Only metadata is recorded, never the messages or the reply.
+ */
+function withTelemetry(provider: LlmProvider): LlmProvider {
+  const attributes = (req: CompletionRequest) => ({ provider: provider.name, task: req.task, model: req.model });
+  return {
+    name: provider.name,
+    async complete(req) {
+      const span = startSpan("llm.complete", attributes(req), "client");
+      try {
+        const result = await provider.complete(req);
+        span.end("ok", { model: result.model, ...result.usage });
+        return result;
+      } catch (e) {
+        span.end("error", { error: e });
+        throw e;
+      }
+    },
+    async *stream(req) {
+      const span = startSpan("llm.stream", attributes(req), "client");
+      // Stays "cancelled" if the caller stops reading before the stream ends
+      let outcome: SpanOutcome = "cancelled";
+      let model = req.model;
+      let usage: TokenUsage | undefined;
+      let firstTokenMs: number | undefined;
+      try {
+        for await (const chunk of provider.stream(req)) {
+          if (firstTokenMs === undefined && chunk.delta) firstTokenMs = span.elapsedMs();
+          if (chunk.model) model = chunk.model;
+          if (chunk.usage) usage = chunk.usage;
+          yield chunk;
+        }
+        outcome = "ok";
+      } catch (e) {
+        span.end("error", { model, firstTokenMs, error: e });
+        throw e;
+      } finally {
+        span.end(outcome, { model, firstTokenMs, ...usage });
+      }
+    },
+  };
+}
+
+export function createOpenAICompatibleProvider(
+  name: LlmProviderName,
+  options: { apiKey: string; baseURL?: string }
+): LlmProvider {
+  const client = new OpenAI(options);
+  // Generic compatible servers may reject stream_options, so only ask the known providers for stream usage
+  const streamUsage = name === "xai" || name === "openai";
+  return {
+    name,
+    async complete(req) {
+      const model = req.model ?? getModelForTask(req.task, name);
+      const completion = await client.chat.completions.create({
+        model,
+        messages: req.messages,
+        temperature: req.temperature,
+      });
+      return {
+        content: completion.choices[0]?.message?.content ?? "",
+        model: completion.model || model,
+        usage: toTokenUsage(completion.usage),
+      };
+    },
+    async *stream(req) {
+      const model = req.model ?? getModelForTask(req.task, name);
+      const completionStream = await client.chat.completions.create({
+        model,
+        messages: req.messages,
+        temperature: req.temperature,
+        stream: true,
+        ...(streamUsage ? { stream_options: { include_usage: true } } : {}),
+      });
+      for await (const chunk of completionStream) {
+        yield {
+          delta: chunk.choices[0]?.delta?.content ?? "",
+          model: chunk.model || undefined,
+          usage: toTokenUsage(chunk.usage),
+        };
+      }
+    },
+  };
+}
+
+function toTokenUsage(
+  usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null | undefined
+): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens, totalTokens: usage.total_tokens };
+}
+
+// Rough chars/4 count so the fake provider reports usage like a real one
+function fakeUsage(messages: LlmMessage[], reply: string): TokenUsage {
+  const promptTokens = Math.ceil(messages.reduce((n, m) => n + m.content.length, 0) / 4);
+  const completionTokens = Math.ceil(reply.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Scripted offline provider. Replies for a task are taken from the script in order
+ * (cycling once exhausted); tasks without a script fall back to a deterministic default.
+ */
+export type FakeScript = Partial<Record<LlmTask, string[] | ((messages: LlmMessage[]) => string)>>;
+
+export function createFakeProvider(script: FakeScript = {}): LlmProvider {
+  const cursors: Partial<Record<LlmTask, number>> = {};
+  const next = (req: CompletionRequest): string => {
+    const entry = script[req.task];
+    if (typeof entry === "function") return entry(req.messages);
+    if (Array.isArray(entry) && entry.length > 0) {
+      const i = cursors[req.task] ?? 0;
+      cursors[req.task] = i + 1;
+      return entry[i % entry.length] ?? "";
+    }
+    return defaultFakeReply(req);
+  };
+  return {
+    name: "fake",
+    async complete(req) {
+      const content = next(req);
+      return { content, model: req.model ?? DEFAULT_MODELS.fake, usage: fakeUsage(req.messages, content) };
+    },
+    async *stream(req) {
+      const model = req.model ?? DEFAULT_MODELS.fake;
+      const content = next(req);
+      for (const piece of content.split(/(?<=\s)/)) {
+        yield { delta: piece, model };
+      }
+      yield { delta: "", model, usage: fakeUsage(req.messages, content) };
+    },
+  };
+}
+
+function lastUserContent(messages: LlmMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (m?.role === "user") return m.content;
+  }
+  return "";
+}
+
+function defaultFakeReply(req: CompletionRequest): string {
+  switch (req.task) {
+    case "analysis":
+      return JSON.stringify({
+        anger: 1,
+        sadness: 1,
+        anxiety: 1,
+        contempt: 1,
+        defensiveness: 1,
+        stonewalling: 1,
+        warmth: 3,
+        primaryNeed: "understanding",
+      });
+    case "safety":
+      return JSON.stringify({ severity: "none", categories: [] });
+    case "title":
+      // Title prompts are "User:\n<first message>\n\nCounselor:..."; echo the first words of the message
+      return (lastUserContent(req.messages).split("\n")[1] ?? "").split(/\s+/).slice(0, 6).join(" ") || "New conversation";
+    case "summary":
+      // Summary prompts end with the new transcript; keep its first lines as the "summary"
+      return (lastUserContent(req.messages).split("New transcript:\n")[1] ?? "").split("\n").slice(0, 3).join(" ").slice(0, 400);
+    case "coach": {
+      // Coach prompts end with the draft; offer it back with a gentle opener
+      const draft = (lastUserContent(req.messages).split("Draft:\n")[1] ?? "").split("\n")[0]?.trim() ?? "";
+      return JSON.stringify({
+        rewrites: [
+          { text: `I'd like to talk about something that's been on my mind. ${draft}`, approach: "Gentle opener" },
+          { text: `I feel unsettled about this and I need us to talk: ${draft}`, approach: "I-statement" },
+        ],
+      });
+    }
+    case "counsel": {
+      const said = lastUserContent(req.messages).replace(/\s+/g, " ").trim().slice(0, 80);
+      return `It sounds like "${said}" is weighing on you. Would you like ideas or just to be heard right now?`;
+    }
+  }
+}
+
+function loadFakeScript(): FakeScript {
+  const path = process.env.LLM_FAKE_SCRIPT;
+  if (!path) return {};
+  const parsed = JSON.parse(readFileSync(path, "utf8")) as Record<string, unknown>;
+  const script: FakeScript = {};
+  for (const task of Object.keys(TASK_MODEL_ENV) as LlmTask[]) {
+    const replies = parsed[task];
+    if (Array.isArray(replies)) script[task] = replies.map(String);
+  }
+  return script;
+}
@@ -0,0 +1,280 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, randomBytes } from "node:crypto";
+import { createOtlpSink } from "./otlp";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export type LogRecord = {
+  time: string;
+  level: LogLevel;
+  scope: string;
+  msg: string;
+  requestId?: string;
+  traceId?: string;
+  spanId?: string;
+  // Already redacted
+  fields: LogFields;
+};
+
+export type SpanKind = "server" | "client" | "internal";
+
+export type SpanOutcome = "ok" | "error" | "cancelled";
+
+export type SpanRecord = {
+  name: string;
+  kind: SpanKind;
+  requestId?: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  startTime: number;
+  durationMs: number;
+  outcome: SpanOutcome;
+  // Already redacted
+  attributes: LogFields;
+};
+
+/** Where log lines and finished spans go: stdout by default, plus OTLP when configured (see otlp.ts). */
+export type TelemetrySink = {
+  log(record: LogRecord): void;
+  span(record: SpanRecord): void;
+  // Sends anything buffered; called before a serverless invocation finishes
+  flush?(): Promise<void>;
+};
+
+export type Logger = {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+};
+
+export type Span = {
+  readonly traceId: string;
+  readonly spanId: string;
+  elapsedMs(): number;
+  set(attributes: LogFields): void;
+  // Only the first call counts, so a failure recorded in a catch is not overwritten by a finally
+  end(outcome?: SpanOutcome, attributes?: LogFields): void;
+};
+
+// The request (or job) being served; carried across awaits, timers and fire-and-forget work
+type TraceContext = { requestId?: string; traceId: string; spanId?: string };
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Message text, model output, answers and credentials never reach a sink
+const REDACTED_KEY = /^(content|draft|reply|text|prompt|messages|analysis|summary|answers|inputs|email|token|authorization|password|secret|api_?key)$/i;
+// People are logged as a stable digest, so one user's lines still correlate without naming them
+const PSEUDONYMIZED_KEY = /^(user|partner|inviter|acceptor)_?id$/i;
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+const BEARER = /\bBearer\s+[\w.~+/=-]+/gi;
+const MAX_DEPTH = 5;
+const MAX_ITEMS = 20;
+const MAX_STRING = 2000;
+
+const storage = new AsyncLocalStorage<TraceContext>();
+
+function getMinLevel(): number {
+  const raw = (process.env.LOG_LEVEL || "info").toLowerCase();
+  return LEVELS[raw as LogLevel] ?? LEVELS.info;
+}
+
+function randomHex(bytes: number): string {
+  return randomBytes(bytes).toString("hex");
+}
+
+// Deterministic, so a queued job that carries the request id joins the request's trace
+function traceIdFor(requestId: string): string {
+  const hex = requestId.replace(/-/g, "");
+  return /^[0-9a-f]{32}$/i.test(hex) ? hex.toLowerCase() : createHash("sha256").update(requestId).digest("hex").slice(0, 32);
+}
+
+export function pseudonymize(value: string): string {
+  const salt = process.env.LOG_REDACTION_SALT ?? "";
+  return `anon:${createHash("sha256").update(salt + value).digest("hex").slice(0, 12)}`;
+}
+
+function scrub(value: string): string {
+  const text = value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}…` : value;
+  return text.replace(EMAIL, "[email]").replace(BEARER, "Bearer [redacted]");
+}
+
+/** Copy of `value` that is safe to log: see REDACTED_KEY and PSEUDONYMIZED_KEY; errors keep name, message and code. */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return scrub(value);
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[truncated]";
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Error) {
+    const code = (value as { code?: unknown }).code;
+    return {
+      name: value.name,
+      message: scrub(value.message),
+      ...(code !== undefined ? { code } : {}),
+      ...(value.stack ? { stack: scrub(value.stack) } : {}),
+      ...(value.cause !== undefined ? { cause: redact(value.cause, depth + 1) } : {}),
+    };
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ITEMS).map((item) => redact(item, depth + 1));
+    return value.length > MAX_ITEMS ? [...items, `[${value.length - MAX_ITEMS} more]`] : items;
+  }
+  const out: LogFields = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field === undefined) continue;
+    if (REDACTED_KEY.test(key)) out[key] = "[redacted]";
+    else if (PSEUDONYMIZED_KEY.test(key) && typeof field === "string") out[key] = pseudonymize(field);
+    else out[key] = redact(field, depth + 1);
+  }
+  return out;
+}
+
+let _sinks: TelemetrySink[] | null = null;
+
+function getSinks(): TelemetrySink[] {
+  if (_sinks) return _sinks;
+  _sinks = [createStdoutSink()];
+  const endpoint = process.env.OTEL_EXPORTER_OTLP_ENDPOINT?.trim();
+  if (endpoint) _sinks.push(createOtlpSink({ endpoint }));
+  return _sinks;
+}
+
+// Override the process-wide sinks (used by tests; null restores the env-configured ones)
+export function setTelemetrySinks(sinks: TelemetrySink[] | null) {
+  _sinks = sinks;
+}
+
+/** Waits for buffered sinks to send; never throws. */
+export async function flushTelemetry(): Promise<void> {
+  await Promise.all(getSinks().map((sink) => sink.flush?.().catch(() => {})));
+}
+
+function emit(write: (sink: TelemetrySink) => void) {
+  for (const sink of getSinks()) {
+    try {
+      write(sink);
+    } catch {
+      // A broken sink must never break the request it is reporting on
+    }
+  }
+}
+
+/** One JSON object per line; warnings and errors go to stderr so platforms flag them. */
+export function createStdoutSink(): TelemetrySink {
+  const write = (level: LogLevel, line: LogFields) => {
+    const stream = LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout;
+    stream.write(`${JSON.stringify(line)}\n`);
+  };
+  return {
+    log({ fields, ...record }) {
+      write(record.level, { ...record, ...fields });
+    },
+    span({ attributes, name, ...record }) {
+      const level = record.outcome === "error" ? "warn" : "info";
+      write(level, {
+        time: new Date(record.startTime + record.durationMs).toISOString(),
+        level,
+        scope: "span",
+        msg: name,
+        ...record,
+        ...attributes,
+      });
+    },
+  };
+}
+
+/** Scoped logger; every line carries the current request id and trace, and its fields are redacted. */
+export function createLogger(scope: string, bound: LogFields = {}): Logger {
+  const write = (level: LogLevel, msg: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < getMinLevel()) return;
+    const trace = storage.getStore();
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level,
+      scope,
+      msg,
+      ...(trace?.requestId ? { requestId: trace.requestId } : {}),
+      ...(trace ? { traceId: trace.traceId } : {}),
+      ...(trace?.spanId ? { spanId: trace.spanId } : {}),
+      fields: redact({ ...bound, ...fields }) as LogFields,
+    };
+    emit((sink) => sink.log(record));
+  };
+  return {
+    debug: (msg, fields) => write("debug", msg, fields),
+    info: (msg, fields) => write("info", msg, fields),
+    warn: (msg, fields) => write("warn", msg, fields),
+    error: (msg, fields) => write("error", msg, fields),
+    child: (fields) => createLogger(scope, { ...bound, ...fields }),
+  };
+}
+
+/** Runs `fn` (and everything it starts, awaited or not) as part of one request's trace. */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return storage.run({ requestId, traceId: traceIdFor(requestId) }, fn);
+}
+
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/** Starts a span under the current one; the caller ends it. See `withSpan` for spans with children. */
+export function startSpan(name: string, attributes: LogFields = {}, kind: SpanKind = "internal"): Span {
+  const parent = storage.getStore();
+  const traceId = parent?.traceId ?? randomHex(16);
+  const spanId = randomHex(8);
+  const startTime = Date.now();
+  const started = performance.now();
+  let current: LogFields = { ...attributes };
+  let ended = false;
+  return {
+    traceId,
+    spanId,
+    elapsedMs: () => Math.round(performance.now() - started),
+    set(more) {
+      current = { ...current, ...more };
+    },
+    end(outcome = "ok", more = {}) {
+      if (ended) return;
+      ended = true;
+      const record: SpanRecord = {
+        name,
+        kind,
+        ...(parent?.requestId ? { requestId: parent.requestId } : {}),
+        traceId,
+        spanId,
+        ...(parent?.spanId ? { parentSpanId: parent.spanId } : {}),
+        startTime,
+        durationMs: Math.round(performance.now() - started),
+        outcome,
+        attributes: redact({ ...current, ...more }) as LogFields,
+      };
+      emit((sink) => sink.span(record));
+    },
+  };
+}
+
+/** Runs `fn` inside a new span: spans and log lines it produces are its children. Ends as "error" if `fn` throws. */
+export async function withSpan<T>(
+  name: string,
+  attributes: LogFields,
+  fn: (span: Span) => Promise<T>,
+  kind: SpanKind = "internal"
+): Promise<T> {
+  const span = startSpan(name, attributes, kind);
+  const context: TraceContext = { requestId: currentRequestId(), traceId: span.traceId, spanId: span.spanId };
+  return storage.run(context, async () => {
+    try {
+      const result = await fn(span);
+      span.end();
+      return result;
+    } catch (e) {
+      span.end("error", { error: e });
+      throw e;
+    }
+  });
+}
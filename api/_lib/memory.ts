@@ -0,0 +1,209 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getLlmProvider, type LlmMessage } from "./llm";
+import { createLogger } from "./logger";
+
+const log = createLogger("memory");
+
+// Most recent messages always sent verbatim; everything older is folded into chats.summary
+const KEEP_RECENT_MESSAGES = Number(process.env.MEMORY_KEEP_RECENT_MESSAGES || 16);
+// Only re-summarize once this many messages have fallen out of the verbatim window
+const SUMMARY_BATCH_MESSAGES = Number(process.env.MEMORY_SUMMARY_BATCH_MESSAGES || 8);
+// Upper bound on unsummarized rows fetched per turn (summarization normally keeps this small), and
+// on the rows folded per summary call when a long chat is summarized again from the start
+const MAX_UNSUMMARIZED_FETCH = 200;
+const REPLY_RESERVE_TOKENS = 1024;
+
+// Prompt budgets per model, chosen for cost rather than the model's full context window
+const MODEL_CONTEXT_BUDGETS: Record<string, number> = {
+  "grok-3-mini": 16000,
+  "grok-3": 16000,
+  "gpt-4o-mini": 16000,
+  "gpt-4o": 12000,
+};
+const DEFAULT_CONTEXT_BUDGET = 8000;
+
+type StoredMessage = { role: LlmMessage["role"]; content: string; created_at: string; user_id: string | null };
+
+// Joint sessions attribute user turns per speaker (user id -> label); solo chats pass nothing
+export type SpeakerLabels = Record<string, string>;
+
+function speakerOf(m: StoredMessage, speakerLabels?: SpeakerLabels): string | undefined {
+  return m.role === "user" && m.user_id ? speakerLabels?.[m.user_id] : undefined;
+}
+
+export function getContextBudget(model: string): number {
+  const override = Number(process.env.LLM_CONTEXT_BUDGET_TOKENS);
+  if (override > 0) return override;
+  return MODEL_CONTEXT_BUDGETS[model] ?? DEFAULT_CONTEXT_BUDGET;
+}
+
+// Rough heuristic (~4 characters per token plus per-message overhead); good enough for budgeting
+export function estimateTokens(messages: LlmMessage[]): number {
+  return messages.reduce((acc, m) => acc + Math.ceil(m.content.length / 4) + 4, 0);
+}
+
+// Visible messages after the summary watermark, in chronological order: the newest ones for the
+// prompt, or the oldest ones when folding them into the summary
+async function loadUnsummarized(
+  supabase: SupabaseClient,
+  chatId: string,
+  summaryThrough: string | null,
+  from: "newest" | "oldest" = "newest"
+): Promise<StoredMessage[]> {
+  let query = supabase
+    .from("messages")
+    .select("role,content,created_at,user_id")
+    .eq("chat_id", chatId)
+    .is("deleted_at", null)
+    .eq("active_variant", true)
+    .order("created_at", { ascending: from === "oldest" })
+    .limit(MAX_UNSUMMARIZED_FETCH);
+  if (summaryThrough) query = query.gt("created_at", summaryThrough);
+  const { data } = await query;
+  const rows = (data ?? []) as StoredMessage[];
+  return from === "oldest" ? rows : rows.reverse();
+}
+
+async function countUnsummarized(supabase: SupabaseClient, chatId: string, summaryThrough: string | null): Promise<number> {
+  let query = supabase
+    .from("messages")
+    .select("id", { count: "exact", head: true })
+    .eq("chat_id", chatId)
+    .is("deleted_at", null)
+    .eq("active_variant", true);
+  if (summaryThrough) query = query.gt("created_at", summaryThrough);
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/**
+ * Builds the prompt for the next counselor turn: system prompt, the running summary of earlier
+ * turns (if any), then the last KEEP_RECENT_MESSAGES messages not yet folded into the summary.
+ * If that still exceeds the model's budget the oldest verbatim messages are dropped, always
+ * keeping the latest one.
+ */
+export async function buildConversationContext(
+  supabase: SupabaseClient,
+  chatId: string,
+  systemPrompt: string,
+  model: string,
+  speakerLabels?: SpeakerLabels
+): Promise<LlmMessage[]> {
+  const { data: chat } = await supabase
+    .from("chats")
+    .select("summary,summary_through")
+    .eq("id", chatId)
+    .maybeSingle();
+  const summary = (chat?.summary as string | null) ?? null;
+  const history = await loadUnsummarized(supabase, chatId, (chat?.summary_through as string | null) ?? null);
+
+  const head: LlmMessage[] = [{ role: "system", content: systemPrompt }];
+  if (summary) {
+    head.push({ role: "system", content: `Summary of the earlier conversation:\n${summary}` });
+  }
+  let recent: LlmMessage[] = history.slice(-KEEP_RECENT_MESSAGES).map((m) => {
+    const speaker = speakerOf(m, speakerLabels);
+    return { role: m.role, content: speaker ? `${speaker}: ${m.content}` : m.content };
+  });
+  const budget = getContextBudget(model) - REPLY_RESERVE_TOKENS;
+  while (recent.length > 1 && estimateTokens([...head, ...recent]) > budget) {
+    recent = recent.slice(1);
+  }
+  return [...head, ...recent];
+}
+
+export async function summarizeTranscript(
+  previousSummary: string | null,
+  messages: StoredMessage[],
+  speakerLabels?: SpeakerLabels
+): Promise<string> {
+  const transcript = messages
+    .map((m) => `${m.role === "assistant" ? "Counselor" : speakerOf(m, speakerLabels) ?? "User"}: ${m.content}`)
+    .join("\n");
+  const systemPrompt = [
+    "You maintain the running memory of a relationship counseling conversation.",
+    "Update the summary with the new transcript. Keep: the people involved and how they relate, key events,",
+    "feelings and needs expressed, goals, agreements, suggestions already tried and how they landed, and any safety concerns.",
+    "Rules:",
+    "- Write concise third-person notes, at most 200 words.",
+    "- Do not invent details. Output only the updated summary.",
+  ].join("\n");
+  const completion = await getLlmProvider().complete({
+    task: "summary",
+    temperature: 0,
+    messages: [
+      { role: "system", content: systemPrompt },
+      {
+        role: "user",
+        content: `Current summary:\n${previousSummary || "(none)"}\n\nNew transcript:\n${transcript}`,
+      },
+    ],
+  });
+  return completion.content.trim();
+}
+
+/**
+ * Folds messages that have left the verbatim window into chats.summary, oldest first. Runs after a
+ * reply and is a no-op until at least SUMMARY_BATCH_MESSAGES have overflowed, so most turns cost
+ * nothing; after an invalidation it folds a page at a time until the whole chat is covered again.
+ */
+export async function updateRollingSummary(
+  writer: SupabaseClient,
+  chatId: string,
+  speakerLabels?: SpeakerLabels
+): Promise<boolean> {
+  const { data: chat } = await writer
+    .from("chats")
+    .select("summary,summary_through")
+    .eq("id", chatId)
+    .maybeSingle();
+  if (!chat) return false;
+  let summary = (chat.summary as string | null) ?? null;
+  let summaryThrough = (chat.summary_through as string | null) ?? null;
+  let folded = false;
+
+  for (;;) {
+    const overflowCount = (await countUnsummarized(writer, chatId, summaryThrough)) - KEEP_RECENT_MESSAGES;
+    if (overflowCount < SUMMARY_BATCH_MESSAGES) return folded;
+    const overflow = (await loadUnsummarized(writer, chatId, summaryThrough, "oldest")).slice(0, overflowCount);
+    if (!overflow.length) return folded;
+
+    const nextSummary = await summarizeTranscript(summary, overflow, speakerLabels);
+    if (!nextSummary) return folded;
+    const nextThrough = overflow[overflow.length - 1]!.created_at;
+    // Guard on the previous watermark so two concurrent runs cannot both apply
+    let update = writer
+      .from("chats")
+      .update({ summary: nextSummary, summary_through: nextThrough, summary_updated_at: new Date().toISOString() })
+      .eq("id", chatId);
+    update = summaryThrough ? update.eq("summary_through", summaryThrough) : update.is("summary_through", null);
+    const { data: applied, error } = await update.select("id");
+    if (error) {
+      log.error("summary update failed", { chatId, error });
+      return folded;
+    }
+    // Another run moved the watermark first; it carries on from there
+    if (!applied?.length) return folded;
+    summary = nextSummary;
+    summaryThrough = nextThrough;
+    folded = true;
+  }
+}
+
+/**
+ * Drops the running summary when it already covers a message that was just edited or deleted,
+ * so the next turns rebuild it from the visible messages instead of remembering the old text.
+ */
+export async function invalidateSummaryCovering(
+  writer: SupabaseClient,
+  chatId: string,
+  messageCreatedAt: string
+): Promise<void> {
+  const { error } = await writer
+    .from("chats")
+    .update({ summary: null, summary_through: null, summary_updated_at: new Date().toISOString() })
+    .eq("id", chatId)
+    .gte("summary_through", messageCreatedAt);
+  if (error) log.error("summary invalidation failed", { chatId, error });
+}
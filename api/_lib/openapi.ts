@@ -0,0 +1,139 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { EndpointSpec, HttpMethod } from "./http";
+import { ROUTES } from "./routes";
+import { COMPONENTS } from "./schemas";
+
+type JsonSchema = Record<string, unknown>;
+
+const COMPONENT_PATH = "#/components/schemas/";
+
+const COMPONENT_REF = /^#\/components\/schemas\/[^/]+$/;
+
+// Error statuses documented when an endpoint's stages can produce them; every other error is `default`
+const ERROR_RESPONSES: { status: string; name: string; description: string; applies: (spec: EndpointSpec) => boolean }[] = [
+  { status: "400", name: "BadRequest", description: "Invalid payload or query", applies: (spec) => !!(spec.body || spec.query) },
+  { status: "401", name: "Unauthorized", description: "Missing or invalid session", applies: (spec) => !!spec.auth },
+  {
+    status: "429",
+    name: "TooManyRequests",
+    description: "Rate limit or daily quota reached; see Retry-After",
+    applies: (spec) => !!spec.rateLimited,
+  },
+  { status: "default", name: "Error", description: "Any other error; `code` says which", applies: () => true },
+];
+
+function pascalCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * JSON Schema 2019-09 (what OpenAPI 3.1 embeds) for one zod schema. Schemas listed in COMPONENTS
+ * become `$ref`s, so a shape shared by several endpoints is named once in the document.
+ */
+function toJsonSchema(schema: z.ZodTypeAny, self?: string): JsonSchema {
+  const definitions = Object.fromEntries(Object.entries(COMPONENTS).filter(([name]) => name !== self));
+  const converted = zodToJsonSchema(schema, {
+    target: "jsonSchema2019-09",
+    basePath: ["#", "components"],
+    definitionPath: "schemas",
+    definitions,
+    // Requests are documented as the client writes them, before defaults and preprocessing apply
+    effectStrategy: "input",
+  }) as JsonSchema;
+  const { $schema: _schema, schemas: _schemas, ...rest } = inlineRefs(converted, converted) as JsonSchema;
+  return rest;
+}
+
+/**
+ * zod-to-json-schema points a sub-schema it has already seen (e.g. a property shared through
+ * `.extend`) at wherever it first met it, relative to `basePath`. Those pointers are inlined so the
+ * document only references whole components.
+ */
+function inlineRefs(node: unknown, root: JsonSchema): unknown {
+  if (Array.isArray(node)) return node.map((item) => inlineRefs(item, root));
+  if (!node || typeof node !== "object") return node;
+  const { $ref, ...rest } = node as JsonSchema;
+  if (typeof $ref === "string" && !COMPONENT_REF.test($ref)) {
+    const target = $ref
+      .split("/")
+      .slice(2)
+      .reduce<unknown>((at, key) => (at as Record<string, unknown> | undefined)?.[key], root);
+    return inlineRefs({ ...(target as JsonSchema), ...rest }, root);
+  }
+  return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, inlineRefs(value, root)]));
+}
+
+// Query schemas are z.objects (see `query()`), so each key becomes one parameter
+function queryParameters(schema: z.ZodTypeAny) {
+  const converted = toJsonSchema(schema) as { properties?: Record<string, JsonSchema>; required?: string[] };
+  return Object.entries(converted.properties ?? {}).map(([name, property]) => ({
+    name,
+    in: "query",
+    required: converted.required?.includes(name) ?? false,
+    schema: property,
+  }));
+}
+
+// A named schema for each request and response, so the generated client exports a type per operation
+function operation(path: string, method: HttpMethod, spec: EndpointSpec, schemas: Record<string, JsonSchema>) {
+  const operationId = spec.operationId ?? `${method.toLowerCase()}${path.split("/").slice(2).map(pascalCase).join("")}`;
+  const typeName = pascalCase(operationId);
+  const ref = (name: string, schema: z.ZodTypeAny) => {
+    schemas[name] = toJsonSchema(schema);
+    return { $ref: `${COMPONENT_PATH}${name}` };
+  };
+
+  const responses: Record<string, unknown> = {};
+  const content: Record<string, unknown> = {};
+  if (spec.response) content["application/json"] = { schema: ref(`${typeName}Response`, spec.response) };
+  if (spec.events) content["text/event-stream"] = { schema: ref(`${typeName}Event`, spec.events) };
+  for (const status of spec.statuses ?? [200]) responses[String(status)] = { description: "Success", content };
+  for (const error of ERROR_RESPONSES) {
+    if (error.applies(spec)) responses[error.status] = { $ref: `#/components/responses/${error.name}` };
+  }
+
+  return {
+    operationId,
+    ...(spec.summary ? { summary: spec.summary } : {}),
+    ...(spec.auth ? { security: spec.auth === "required" ? [{ bearerAuth: [] }] : [{ bearerAuth: [] }, {}] } : {}),
+    ...(spec.query ? { parameters: queryParameters(spec.query) } : {}),
+    ...(spec.body
+      ? { requestBody: { required: true, content: { "application/json": { schema: ref(`${typeName}Request`, spec.body) } } } }
+      : {}),
+    responses,
+  };
+}
+
+/** The OpenAPI 3.1 document for every route in ROUTES, built from the schemas the endpoints validate with. */
+export async function buildOpenApiDocument() {
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, schema] of Object.entries(COMPONENTS)) schemas[name] = toJsonSchema(schema, name);
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of ROUTES) {
+    const { default: handler } = await route.load();
+    for (const [method, endpoint] of Object.entries(handler.endpoints) as [HttpMethod, { spec: EndpointSpec }][]) {
+      if (endpoint.spec.hidden) continue;
+      paths[route.path] = { ...paths[route.path], [method.toLowerCase()]: operation(route.path, method, endpoint.spec, schemas) };
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: "TapFocus Tandem API", version: "0.1.0" },
+    paths,
+    components: {
+      schemas: Object.fromEntries(Object.entries(schemas).sort(([a], [b]) => a.localeCompare(b))),
+      responses: Object.fromEntries(
+        ERROR_RESPONSES.map(({ name, description }) => [
+          name,
+          { description, content: { "application/json": { schema: { $ref: `${COMPONENT_PATH}ErrorBody` } } } },
+        ])
+      ),
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "Supabase session access token" },
+      },
+    },
+  };
+}
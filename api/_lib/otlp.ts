@@ -0,0 +1,167 @@
+import type { LogFields, LogLevel, LogRecord, SpanKind, SpanRecord, TelemetrySink } from "./logger";
+
+/**
+ * OTLP/HTTP JSON exporter (https://opentelemetry.io/docs/specs/otlp/): log lines go to
+ * `<endpoint>/v1/logs` and spans to `<endpoint>/v1/traces`, e.g. a local collector on
+ * http://localhost:4318. Records are buffered and sent in batches; a failed send is dropped.
+ */
+
+type OtlpValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number };
+
+type OtlpAttribute = { key: string; value: OtlpValue };
+
+export type OtlpSinkOptions = {
+  endpoint: string;
+  // Extra request headers, e.g. a collector's auth; defaults to OTEL_EXPORTER_OTLP_HEADERS
+  headers?: Record<string, string>;
+  serviceName?: string;
+  maxBatch?: number;
+  flushIntervalMs?: number;
+};
+
+const SEVERITY: Record<LogLevel, number> = { debug: 5, info: 9, warn: 13, error: 17 };
+
+const SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+// "key1=value1,key2=value2", as the OpenTelemetry SDKs read it
+function parseHeaders(raw: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (raw ?? "").split(",")) {
+    const i = pair.indexOf("=");
+    if (i > 0) headers[decodeURIComponent(pair.slice(0, i).trim())] = decodeURIComponent(pair.slice(i + 1).trim());
+  }
+  return headers;
+}
+
+function toValue(value: unknown): OtlpValue {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  return { stringValue: JSON.stringify(value) };
+}
+
+function toAttributes(fields: LogFields): OtlpAttribute[] {
+  return Object.entries(fields)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({ key, value: toValue(value) }));
+}
+
+function nanos(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+export function createOtlpSink(options: OtlpSinkOptions): TelemetrySink {
+  const endpoint = options.endpoint.replace(/\/+$/, "");
+  const headers = {
+    "Content-Type": "application/json",
+    ...(options.headers ?? parseHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS)),
+  };
+  const resource = {
+    attributes: toAttributes({ "service.name": options.serviceName ?? process.env.OTEL_SERVICE_NAME ?? "tapfocus-api" }),
+  };
+  const scope = { name: "tapfocus-api" };
+  const maxBatch = options.maxBatch ?? 100;
+  const flushIntervalMs = options.flushIntervalMs ?? 2_000;
+
+  let logs: LogRecord[] = [];
+  let spans: SpanRecord[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const post = async (path: string, body: unknown) => {
+    try {
+      const res = await fetch(`${endpoint}${path}`, { method: "POST", headers, body: JSON.stringify(body) });
+      if (!res.ok) process.stderr.write(`[otlp] ${path} rejected with ${res.status}\n`);
+    } catch (e) {
+      // Not logged through the logger: that would feed the failure back into this sink
+      process.stderr.write(`[otlp] ${path} failed: ${String(e)}\n`);
+    }
+  };
+
+  const flush = async () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const pendingLogs = logs;
+    const pendingSpans = spans;
+    logs = [];
+    spans = [];
+    await Promise.all([
+      pendingLogs.length
+        ? post("/v1/logs", {
+            resourceLogs: [
+              {
+                resource,
+                scopeLogs: [
+                  {
+                    scope,
+                    logRecords: pendingLogs.map((record) => ({
+                      timeUnixNano: nanos(Date.parse(record.time)),
+                      severityNumber: SEVERITY[record.level],
+                      severityText: record.level.toUpperCase(),
+                      body: { stringValue: record.msg },
+                      attributes: toAttributes({ scope: record.scope, requestId: record.requestId, ...record.fields }),
+                      ...(record.traceId ? { traceId: record.traceId } : {}),
+                      ...(record.spanId ? { spanId: record.spanId } : {}),
+                    })),
+                  },
+                ],
+              },
+            ],
+          })
+        : undefined,
+      pendingSpans.length
+        ? post("/v1/traces", {
+            resourceSpans: [
+              {
+                resource,
+                scopeSpans: [
+                  {
+                    scope,
+                    spans: pendingSpans.map((record) => ({
+                      traceId: record.traceId,
+                      spanId: record.spanId,
+                      ...(record.parentSpanId ? { parentSpanId: record.parentSpanId } : {}),
+                      name: record.name,
+                      kind: SPAN_KIND[record.kind],
+                      startTimeUnixNano: nanos(record.startTime),
+                      endTimeUnixNano: nanos(record.startTime + record.durationMs),
+                      attributes: toAttributes({ requestId: record.requestId, outcome: record.outcome, ...record.attributes }),
+                      status: { code: record.outcome === "error" ? STATUS_ERROR : STATUS_OK },
+                    })),
+                  },
+                ],
+              },
+            ],
+          })
+        : undefined,
+    ]);
+  };
+
+  const schedule = () => {
+    if (logs.length + spans.length >= maxBatch) {
+      void flush();
+    } else if (!timer) {
+      timer = setTimeout(() => void flush(), flushIntervalMs);
+      // Buffered telemetry alone must not keep a script alive; flushTelemetry() sends it on the way out
+      timer.unref();
+    }
+  };
+
+  return {
+    log(record) {
+      logs.push(record);
+      schedule();
+    },
+    span(record) {
+      spans.push(record);
+      schedule();
+    },
+    flush,
+  };
+}
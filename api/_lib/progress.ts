@@ -0,0 +1,112 @@
+import { getTestDefinition } from "./questions";
+import { scoreTest, validateAnswers, type Answer, type DimensionScore, type ResultBandMatch } from "./scoring";
+
+// Smallest move in a dimension's 0-100 percent that we call out to the user
+export const MEANINGFUL_CHANGE = 10;
+
+export type ResultRow = {
+  id: string;
+  test_id: string;
+  answers: unknown;
+  score: number;
+  percentile: number;
+  summary: string | null;
+  result: { dimensions?: DimensionScore[]; style?: { primary: string; secondary: string }; band?: ResultBandMatch | null } | null;
+  created_at: string;
+};
+
+export type HistoricalResult = {
+  id: string;
+  testId: string;
+  score: number;
+  percentile: number;
+  summary: string | null;
+  dimensions: DimensionScore[];
+  style: { primary: string; secondary: string } | null;
+  band: ResultBandMatch | null;
+  createdAt: string;
+};
+
+export type TrendPoint = { resultId: string; createdAt: string; percent: number };
+
+export type DimensionTrend = {
+  testId: string;
+  dimension: string;
+  label: string;
+  points: TrendPoint[];
+  latest: number;
+  changeFromPrevious: number | null;
+  changeFromFirst: number | null;
+  direction: "up" | "down" | "steady";
+  meaningful: boolean;
+};
+
+/**
+ * Rows written before the scoring engine have no `result`; rescore their answers
+ * when the test still exists and they still fit its questions, so every attempt has
+ * per-dimension data. Questions added since may be unanswered.
+ */
+export function toHistoricalResult(row: ResultRow): HistoricalResult {
+  let dimensions = row.result?.dimensions ?? [];
+  let style = row.result?.style ?? null;
+  let band = row.result?.band ?? null;
+  const test = dimensions.length === 0 ? getTestDefinition(row.test_id) : null;
+  if (test && Array.isArray(row.answers) && validateAnswers(test, row.answers as Answer[], { partial: true }).length === 0) {
+    const scored = scoreTest(test, row.answers as Answer[]);
+    dimensions = scored.dimensions;
+    style = { primary: scored.primary, secondary: scored.secondary };
+    band = scored.band;
+  }
+  return {
+    id: row.id,
+    testId: row.test_id,
+    score: row.score,
+    percentile: row.percentile,
+    summary: row.summary,
+    dimensions,
+    style,
+    band,
+    createdAt: row.created_at,
+  };
+}
+
+/** Per test and dimension, the series of attempts in chronological order plus how the latest compares. */
+export function buildDimensionTrends(results: HistoricalResult[]): DimensionTrend[] {
+  const chronological = [...results].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const series = new Map<string, { testId: string; dimension: string; label: string; points: TrendPoint[] }>();
+  for (const r of chronological) {
+    for (const d of r.dimensions) {
+      const key = `${r.testId}:${d.id}`;
+      const entry = series.get(key) ?? { testId: r.testId, dimension: d.id, label: d.label, points: [] };
+      entry.points.push({ resultId: r.id, createdAt: r.createdAt, percent: d.percent });
+      series.set(key, entry);
+    }
+  }
+
+  return [...series.values()].map((s) => {
+    const percents = s.points.map((p) => p.percent);
+    const latest = percents[percents.length - 1] ?? 0;
+    const previous = percents.length > 1 ? (percents[percents.length - 2] ?? null) : null;
+    const changeFromPrevious = previous === null ? null : latest - previous;
+    const changeFromFirst = percents.length > 1 ? latest - (percents[0] ?? latest) : null;
+    const change = changeFromPrevious ?? 0;
+    return {
+      ...s,
+      latest,
+      changeFromPrevious,
+      changeFromFirst,
+      direction: change >= MEANINGFUL_CHANGE ? "up" : change <= -MEANINGFUL_CHANGE ? "down" : "steady",
+      meaningful: Math.abs(change) >= MEANINGFUL_CHANGE || Math.abs(changeFromFirst ?? 0) >= MEANINGFUL_CHANGE,
+    };
+  });
+}
+
+export function describeTrend(trend: DimensionTrend): string | null {
+  if (!trend.meaningful) return null;
+  if (trend.changeFromPrevious !== null && Math.abs(trend.changeFromPrevious) >= MEANINGFUL_CHANGE) {
+    const verb = trend.changeFromPrevious > 0 ? "rose" : "fell";
+    return `${trend.label} ${verb} ${Math.abs(trend.changeFromPrevious)} points since your previous attempt.`;
+  }
+  const verb = (trend.changeFromFirst ?? 0) > 0 ? "up" : "down";
+  return `${trend.label} is ${verb} ${Math.abs(trend.changeFromFirst ?? 0)} points since your first attempt.`;
+}
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import type { ChoiceOption, ScoringItem, TestQuestion, QuestionType } from "./questions";
+
+export type AnswerValue = number | string | string[];
+
+// Structural check only; per-question rules live in each handler's answerSchema
+export const answerValueSchema = z.union([
+  z.number(),
+  z.string().max(4000),
+  z.array(z.string().max(100)).max(50),
+]);
+
+// Points a single answer adds to one dimension, with the range it could have added
+export type Contribution = { dimension: string; raw: number; min: number; max: number };
+
+type QuestionHandler<Q extends TestQuestion> = {
+  answerSchema(question: Q): z.ZodType<AnswerValue>;
+  // Only called for answered questions that passed answerSchema
+  score(question: Q, value: AnswerValue, items: ScoringItem[]): Contribution[];
+};
+
+const LIKERT_MIN = 1;
+const LIKERT_MAX = 5;
+const FREE_TEXT_MAX_LENGTH = 2000;
+
+function numericContributions(
+  questionId: string,
+  value: number,
+  min: number,
+  max: number,
+  items: ScoringItem[]
+): Contribution[] {
+  return items
+    .filter((item) => item.questionId === questionId)
+    .map((item) => {
+      const weight = item.weight ?? 1;
+      const v = item.reverse ? min + max - value : value;
+      return { dimension: item.dimension, raw: v * weight, min: min * weight, max: max * weight };
+    });
+}
+
+// Chosen options earn their points. A dimension's max is its best single option when only
+// one can be picked, otherwise the sum of all its options.
+function choiceContributions(options: ChoiceOption[], selected: string[], single: boolean): Contribution[] {
+  const byDimension = new Map<string, Contribution>();
+  for (const option of options) {
+    if (!option.dimension) continue;
+    const points = option.points ?? 1;
+    const entry = byDimension.get(option.dimension) ?? { dimension: option.dimension, raw: 0, min: 0, max: 0 };
+    if (selected.includes(option.value)) entry.raw += points;
+    entry.max = single ? Math.max(entry.max, points) : entry.max + points;
+    byDimension.set(option.dimension, entry);
+  }
+  return [...byDimension.values()];
+}
+
+function optionValueSchema(options: ChoiceOption[]) {
+  const values = options.map((o) => o.value);
+  return z.string().refine((v) => values.includes(v), { message: `Value must be one of ${values.join(", ")}` });
+}
+
+const likertHandler: QuestionHandler<Extract<TestQuestion, { type: "likert" }>> = {
+  answerSchema: () => z.number().int().min(LIKERT_MIN).max(LIKERT_MAX),
+  score: (q, value, items) => numericContributions(q.id, value as number, LIKERT_MIN, LIKERT_MAX, items),
+};
+
+const singleChoiceHandler: QuestionHandler<Extract<TestQuestion, { type: "forced_choice" | "single_select" }>> = {
+  answerSchema: (q) => optionValueSchema(q.options),
+  score: (q, value) => choiceContributions(q.options, [value as string], true),
+};
+
+const multiSelectHandler: QuestionHandler<Extract<TestQuestion, { type: "multi_select" }>> = {
+  answerSchema: (q) =>
+    z
+      .array(optionValueSchema(q.options))
+      .min(q.minSelections ?? 0)
+      .max(q.maxSelections ?? q.options.length)
+      .refine((v) => new Set(v).size === v.length, { message: "Options may only be selected once" }),
+  score: (q, value) => choiceContributions(q.options, value as string[], false),
+};
+
+const rankingHandler: QuestionHandler<Extract<TestQuestion, { type: "ranking" }>> = {
+  answerSchema: (q) =>
+    z
+      .array(optionValueSchema(q.options))
+      .length(q.options.length)
+      .refine((v) => new Set(v).size === v.length, { message: "Every option must be ranked exactly once" }),
+  // First place earns n-1 points, last place earns none
+  score: (q, value) => {
+    const order = value as string[];
+    const n = q.options.length;
+    const byDimension = new Map<string, Contribution>();
+    for (const option of q.options) {
+      if (!option.dimension) continue;
+      const weight = option.points ?? 1;
+      const entry = byDimension.get(option.dimension) ?? { dimension: option.dimension, raw: 0, min: 0, max: 0 };
+      entry.raw += (n - 1 - order.indexOf(option.value)) * weight;
+      entry.max += (n - 1) * weight;
+      byDimension.set(option.dimension, entry);
+    }
+    return [...byDimension.values()];
+  },
+};
+
+const sliderHandler: QuestionHandler<Extract<TestQuestion, { type: "slider" }>> = {
+  answerSchema: (q) => {
+    const step = q.step ?? 1;
+    return z
+      .number()
+      .min(q.min)
+      .max(q.max)
+      .refine((v) => Math.abs((v - q.min) / step - Math.round((v - q.min) / step)) < 1e-9, {
+        message: `Value must be in steps of ${step} from ${q.min}`,
+      });
+  },
+  score: (q, value, items) => numericContributions(q.id, value as number, q.min, q.max, items),
+};
+
+const freeTextHandler: QuestionHandler<Extract<TestQuestion, { type: "free_text" }>> = {
+  answerSchema: (q) => z.string().max(q.maxLength ?? FREE_TEXT_MAX_LENGTH),
+  score: () => [],
+};
+
+const handlers: { [K in QuestionType]: QuestionHandler<Extract<TestQuestion, { type: K }>> } = {
+  likert: likertHandler,
+  forced_choice: singleChoiceHandler,
+  single_select: singleChoiceHandler,
+  multi_select: multiSelectHandler,
+  ranking: rankingHandler,
+  slider: sliderHandler,
+  free_text: freeTextHandler,
+};
+
+function handlerFor(question: TestQuestion): QuestionHandler<TestQuestion> {
+  return handlers[question.type] as QuestionHandler<TestQuestion>;
+}
+
+export function isRequired(question: TestQuestion): boolean {
+  return question.required ?? question.type !== "free_text";
+}
+
+/** Returns a message when the value is not a valid answer to this question, otherwise null. */
+export function answerIssue(question: TestQuestion, value: AnswerValue): string | null {
+  const parsed = handlerFor(question).answerSchema(question).safeParse(value);
+  return parsed.success ? null : parsed.error.issues.map((i) => i.message).join("; ");
+}
+
+export function scoreAnswer(question: TestQuestion, value: AnswerValue, items: ScoringItem[]): Contribution[] {
+  return handlerFor(question).score(question, value, items);
+}
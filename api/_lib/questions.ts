@@ -1,24 +1,147 @@
 export type LikertOption = 1 | 2 | 3 | 4 | 5;
 
-export type TestQuestion = {
+type QuestionBase = {
   id: string;
   text: string;
+  // Defaults to true for every type except free_text
+  required?: boolean;
+};
+
+export type LikertQuestion = QuestionBase & {
   type: "likert";
   scaleLabels: { left: string; right: string };
 };
 
+export type ChoiceOption = {
+  value: string;
+  label: string;
+  // The dimension credited when this option is chosen (unscored when omitted)
+  dimension?: string;
+  points?: number;
+};
+
+// A pair of statements; the answer is the chosen option's value
+export type ForcedChoiceQuestion = QuestionBase & {
+  type: "forced_choice";
+  options: [ChoiceOption, ChoiceOption];
+};
+
+export type SingleSelectQuestion = QuestionBase & {
+  type: "single_select";
+  options: ChoiceOption[];
+};
+
+// The answer is an array of distinct option values
+export type MultiSelectQuestion = QuestionBase & {
+  type: "multi_select";
+  options: ChoiceOption[];
+  minSelections?: number;
+  maxSelections?: number;
+};
+
+// The answer orders every option value, most preferred first
+export type RankingQuestion = QuestionBase & {
+  type: "ranking";
+  options: ChoiceOption[];
+};
+
+export type SliderQuestion = QuestionBase & {
+  type: "slider";
+  min: number;
+  max: number;
+  step?: number;
+  scaleLabels: { left: string; right: string };
+};
+
+// Never scored; kept with the answers for the user and their counselor
+export type FreeTextQuestion = QuestionBase & {
+  type: "free_text";
+  maxLength?: number;
+  placeholder?: string;
+};
+
+export type TestQuestion =
+  | LikertQuestion
+  | ForcedChoiceQuestion
+  | SingleSelectQuestion
+  | MultiSelectQuestion
+  | RankingQuestion
+  | SliderQuestion
+  | FreeTextQuestion;
+
+export type QuestionType = TestQuestion["type"];
+
+export type ScoringDimension = {
+  id: string;
+  label: string;
+  // Shown in the result summary when this is the user's top dimension
+  narrative: string;
+  // Used by the partner compatibility report
+  strength?: string;
+  discussionPrompt?: string;
+};
+
+// Numeric questions (likert, slider) only; choice and ranking options carry their own dimension
+export type ScoringItem = {
+  questionId: string;
+  dimension: string;
+  weight?: number;
+  reverse?: boolean;
+};
+
+// Inclusive range on the overall 0-100 percentage
+export type ResultBand = {
+  min: number;
+  max: number;
+  label: string;
+  narrative: string;
+};
+
+export type ScoringSpec = {
+  dimensions: ScoringDimension[];
+  items: ScoringItem[];
+  bands?: ResultBand[];
+  // Placeholders: {primary} {secondary} {total} {maxScore} {percentile}
+  summaryTemplate?: string;
+};
+
+export type TestCategory = "communication" | "attachment" | "connection" | "conflict";
+
 export type TestDefinition = {
   id: string;
   title: string;
   description: string;
+  // Bump whenever questions or options change; drafts started on an older version cannot be finalized
+  version: number;
+  category: TestCategory;
+  estimatedMinutes: number;
   questions: TestQuestion[];
+  scoring: ScoringSpec;
 };
 
+export type TestCatalogEntry = {
+  id: string;
+  title: string;
+  description: string;
+  category: TestCategory;
+  estimatedMinutes: number;
+  itemCount: number;
+};
+
+const AGREE_SCALE = { left: "Disagree", right: "Agree" };
+
+function likert(id: string, text: string): LikertQuestion {
+  return { id, text, type: "likert", scaleLabels: AGREE_SCALE };
+}
+
 const communicationV1: TestDefinition = {
   id: "communication-v1",
+  version: 1,
   title: "Communication Style Self-Assessment",
   description:
     "Rate how strongly you identify with each statement (1=Strongly disagree, 5=Strongly agree).",
+  category: "communication",
+  estimatedMinutes: 3,
   questions: [
     {
       id: "q1",
@@ -81,10 +204,380 @@ const communicationV1: TestDefinition = {
       scaleLabels: { left: "Disagree", right: "Agree" },
     },
   ],
+  scoring: {
+    dimensions: [
+      {
+        id: "direct",
+        label: "Direct",
+        narrative: "You tend to say what you mean and address issues head-on.",
+        strength: "naming issues clearly and early",
+        discussionPrompt:
+          "When something bothers you, how soon do you want to talk about it — right away, or after some time to think?",
+      },
+      {
+        id: "empathetic",
+        label: "Empathetic",
+        narrative: "You put connection first and pay close attention to how others feel.",
+        strength: "keeping emotional connection during hard talks",
+        discussionPrompt: "What helps you feel heard before we move on to solving anything?",
+      },
+      {
+        id: "analytical",
+        label: "Analytical",
+        narrative: "You value structure, accuracy and shared understanding before acting.",
+        strength: "structuring problems and following through on plans",
+        discussionPrompt: "Do you prefer we plan hard conversations (time, agenda) or let them happen naturally?",
+      },
+      {
+        id: "adaptive",
+        label: "Adaptive",
+        narrative: "You read the room and adjust your tone and pace to the other person.",
+        strength: "reading the room and adjusting tone",
+        discussionPrompt:
+          "What signals tell you a conversation is going off track, and what would you like the other to do then?",
+      },
+    ],
+    items: [
+      { questionId: "q1", dimension: "direct" },
+      { questionId: "q5", dimension: "direct" },
+      { questionId: "q9", dimension: "direct" },
+      { questionId: "q2", dimension: "empathetic" },
+      { questionId: "q6", dimension: "empathetic" },
+      { questionId: "q3", dimension: "analytical" },
+      { questionId: "q7", dimension: "analytical" },
+      { questionId: "q10", dimension: "analytical" },
+      { questionId: "q4", dimension: "adaptive" },
+      { questionId: "q8", dimension: "adaptive" },
+    ],
+    bands: [
+      {
+        min: 0,
+        max: 39,
+        label: "Reserved",
+        narrative: "Overall you hold back in conversations; small, planned check-ins can make it easier to speak up.",
+      },
+      {
+        min: 40,
+        max: 69,
+        label: "Balanced",
+        narrative: "Overall you draw on several styles and can shift between them as the situation needs.",
+      },
+      {
+        min: 70,
+        max: 100,
+        label: "Expressive",
+        narrative: "Overall you engage strongly in conversations; leaving room for the other person helps them keep up.",
+      },
+    ],
+  },
+};
+
+const attachmentV1: TestDefinition = {
+  id: "attachment-v1",
+  version: 1,
+  title: "Attachment Style Inventory",
+  description:
+    "Think about close relationships in general and rate how well each statement describes you (1=Strongly disagree, 5=Strongly agree).",
+  category: "attachment",
+  estimatedMinutes: 4,
+  questions: [
+    likert("a1", "I find it easy to depend on my partner and to let them depend on me."),
+    likert("a2", "I worry that my partner does not care about me as much as I care about them."),
+    likert("a3", "I feel uncomfortable when my partner wants to be very close."),
+    likert("a4", "I am comfortable sharing my private thoughts and feelings with my partner."),
+    likert("a5", "When my partner is out of touch, I start to wonder if something is wrong between us."),
+    likert("a6", "I prefer not to show my partner how I feel deep down."),
+    likert("a7", "I rarely worry about my partner leaving me."),
+    likert("a8", "I need a lot of reassurance that I am loved."),
+    likert("a9", "I keep some distance so I do not have to rely on anyone."),
+    likert("a10", "I can talk through problems with my partner without feeling threatened."),
+    likert("a11", "I get frustrated when my partner is not available when I need them."),
+    likert("a12", "I find it easy to turn to my partner in times of need."),
+  ],
+  scoring: {
+    dimensions: [
+      {
+        id: "secure",
+        label: "Secure",
+        narrative:
+          "You are generally comfortable with closeness and independence, and trust that the relationship can handle hard moments.",
+        strength: "staying steady and trusting during conflict",
+        discussionPrompt: "What helps you feel safe coming back to each other after a disagreement?",
+      },
+      {
+        id: "anxious",
+        label: "Anxious",
+        narrative:
+          "You care deeply about closeness and can feel unsettled when your partner seems distant; clear, predictable reassurance helps.",
+        strength: "noticing early when the connection feels off",
+        discussionPrompt: "What small signals of reassurance matter most to you when we are apart or busy?",
+      },
+      {
+        id: "avoidant",
+        label: "Avoidant",
+        narrative:
+          "You value independence and may pull back when things get intense; agreeing on space and a time to reconnect helps.",
+        strength: "staying calm and self-reliant under pressure",
+        discussionPrompt: "When you need space, how can you let me know in a way that also tells me you will come back?",
+      },
+    ],
+    items: [
+      { questionId: "a1", dimension: "secure" },
+      { questionId: "a4", dimension: "secure" },
+      { questionId: "a7", dimension: "secure" },
+      { questionId: "a10", dimension: "secure" },
+      { questionId: "a12", dimension: "secure" },
+      { questionId: "a2", dimension: "anxious" },
+      { questionId: "a5", dimension: "anxious" },
+      { questionId: "a8", dimension: "anxious" },
+      { questionId: "a11", dimension: "anxious" },
+      { questionId: "a7", dimension: "anxious", reverse: true },
+      { questionId: "a3", dimension: "avoidant" },
+      { questionId: "a6", dimension: "avoidant" },
+      { questionId: "a9", dimension: "avoidant" },
+      { questionId: "a12", dimension: "avoidant", reverse: true },
+    ],
+    summaryTemplate: "Your responses lean most toward a {primary} attachment style, with some {secondary} patterns.",
+  },
+};
+
+// Every pair of the five languages appears once, so each can be chosen at most four times
+const loveLanguagesV1: TestDefinition = {
+  id: "love-languages-v1",
+  version: 1,
+  title: "Love Languages",
+  description: "For each pair, choose the one that would make you feel more loved. Pick the closer fit even if both appeal.",
+  category: "connection",
+  estimatedMinutes: 3,
+  questions: [
+    {
+      id: "l1",
+      text: "Which would mean more to you?",
+      type: "forced_choice",
+      options: [
+        { value: "a", label: "My partner tells me how much they appreciate me.", dimension: "words" },
+        { value: "b", label: "My partner puts their phone away and spends the evening with me.", dimension: "time" },
+      ],
+    },
+    {
+      id: "l2",
+      text: "Which would mean more to you?",
+      type: "forced_choice",
+      options: [
+        { value: "a", label: "A small, thoughtful present for no reason.", dimension: "gifts" },
+        { value: "b", label: "A long hug when I get home.", dimension: "touch" },
+      ],
+    },
+    {
+      id: "l3",
+      text: "Which would mean more to you?",
+      type: "forced_choice",
+      options: [
+        { value: "a", label: "My partner handles a chore I have been dreading.", dimension: "service" },
+        { value: "b", label: "A note saying what they love about me.", dimension: "words" },
+      ],
+    },
+    {
+      id: "l4",
+      text: "Which would mean more to you?",
+      type: "forced_choice",
+      options: [
+        { value: "a", label: "A walk together with no distractions.", dimension: "time" },
+        { value: "b", label: "Something they picked up because it reminded them of me.", dimension: "gifts" },
+      ],
+    },
+    {
+      id: "l5",
+      text: "Which would mean more to you?",
+      type: "forced_choice",
+      options: [
+        { value: "a", label: "Holding hands while we talk.", dimension: "touch" },
+        { value: "b", label: "My partner cooks dinner so I can rest.", dimension: "service" },
+      ],
+    },
+    {
+      id: "l6",
+      text: "Which would mean more to you?",
+      type: "forced_choice",
+      options: [
+        { value: "a", label: "Being praised in front of friends.", dimension: "words" },
+        { value: "b", label: "A surprise gift on an ordinary day.", dimension: "gifts" },
+      ],
+    },
+    {
+      id: "l7",
+      text: "Which would mean more to you?",
+      type: "forced_choice",
+      options: [
+        { value: "a", label: "A whole weekend afternoon planned just for us.", dimension: "time" },
+        { value: "b", label: "Sitting close on the couch.", dimension: "touch" },
+      ],
+    },
+    {
+      id: "l8",
+      text: "Which would mean more to you?",
+      type: "forced_choice",
+      options: [
+        { value: "a", label: "Something I have had my eye on, wrapped for me.", dimension: "gifts" },
+        { value: "b", label: "My partner runs an errand for me without being asked.", dimension: "service" },
+      ],
+    },
+    {
+      id: "l9",
+      text: "Which would mean more to you?",
+      type: "forced_choice",
+      options: [
+        { value: "a", label: "A kiss or touch on the shoulder in passing.", dimension: "touch" },
+        { value: "b", label: "Hearing \"I am proud of you\".", dimension: "words" },
+      ],
+    },
+    {
+      id: "l10",
+      text: "Which would mean more to you?",
+      type: "forced_choice",
+      options: [
+        { value: "a", label: "My partner fixes something that has been broken for weeks.", dimension: "service" },
+        { value: "b", label: "A long conversation about how we are really doing.", dimension: "time" },
+      ],
+    },
+  ],
+  scoring: {
+    dimensions: [
+      {
+        id: "words",
+        label: "Words of Affirmation",
+        narrative: "You feel most loved through spoken or written appreciation, encouragement and kind words.",
+        strength: "putting appreciation into words",
+        discussionPrompt: "What is something I could say more often that would make your day?",
+      },
+      {
+        id: "time",
+        label: "Quality Time",
+        narrative: "You feel most loved through undivided attention and time that is just for the two of you.",
+        strength: "making time together a priority",
+        discussionPrompt: "What does a really good evening together look like for you?",
+      },
+      {
+        id: "gifts",
+        label: "Receiving Gifts",
+        narrative: "You feel most loved through thoughtful tokens that show you were on your partner's mind.",
+        strength: "remembering the little things",
+        discussionPrompt: "What is a small gesture or gift that meant a lot to you, and why?",
+      },
+      {
+        id: "service",
+        label: "Acts of Service",
+        narrative: "You feel most loved when your partner eases your load by doing things for you.",
+        strength: "showing care through practical help",
+        discussionPrompt: "Which everyday task would feel like a gift if I took it off your plate?",
+      },
+      {
+        id: "touch",
+        label: "Physical Touch",
+        narrative: "You feel most loved through physical closeness such as hugs, holding hands and sitting together.",
+        strength: "staying physically close and affectionate",
+        discussionPrompt: "What kinds of touch feel most comforting to you when you are stressed?",
+      },
+    ],
+    items: [],
+    summaryTemplate: "Your primary love language is {primary}, followed by {secondary}.",
+  },
+};
+
+const conflictV1: TestDefinition = {
+  id: "conflict-v1",
+  version: 1,
+  title: "Conflict Style Inventory",
+  description:
+    "Think about disagreements with your partner and rate how often each statement fits you (1=Strongly disagree, 5=Strongly agree).",
+  category: "conflict",
+  estimatedMinutes: 4,
+  questions: [
+    likert("c1", "I argue my case firmly until my point is accepted."),
+    likert("c2", "I try to get all concerns out in the open so we can solve them together."),
+    likert("c3", "I look for a middle ground where we both give a little."),
+    likert("c4", "I would rather let an issue drop than have an argument."),
+    likert("c5", "I put my partner's needs ahead of my own to keep the peace."),
+    likert("c6", "I find it hard to back down once I have taken a position."),
+    likert("c7", "I keep talking until we find a solution that fully works for both of us."),
+    likert("c8", "I am willing to trade something I want for something my partner wants."),
+    likert("c9", "I change the subject or leave when a conversation gets tense."),
+    likert("c10", "I go along with what my partner wants even when I disagree."),
+    likert("c11", "Winning the argument matters to me."),
+    likert("c12", "I ask about my partner's underlying needs, not just their position."),
+    likert("c13", "I suggest splitting the difference to settle things quickly."),
+    likert("c14", "I postpone difficult conversations for as long as I can."),
+    likert("c15", "I give in quickly so my partner will not be upset."),
+  ],
+  scoring: {
+    dimensions: [
+      {
+        id: "competing",
+        label: "Competing",
+        narrative:
+          "You stand firm for what you believe and push for your position; pausing to ask what your partner needs keeps it from turning into a contest.",
+        strength: "standing up for what matters",
+        discussionPrompt: "When one of us feels strongly, how do we make sure the other still feels heard?",
+      },
+      {
+        id: "collaborating",
+        label: "Collaborating",
+        narrative:
+          "You look for solutions that fully meet both people's needs; this takes time, so it works best when you both have the energy for it.",
+        strength: "working toward solutions that fit both of you",
+        discussionPrompt: "Which of our recurring disagreements would be worth sitting down to solve properly together?",
+      },
+      {
+        id: "compromising",
+        label: "Compromising",
+        narrative:
+          "You aim for a fair middle ground so both of you give a little; check that quick deals are not leaving real needs unmet.",
+        strength: "finding fair middle ground quickly",
+        discussionPrompt: "Is there a compromise we made that still does not sit right with one of us?",
+      },
+      {
+        id: "avoiding",
+        label: "Avoiding",
+        narrative:
+          "You tend to step away from conflict; that can calm things down, but agreeing when you will come back to the topic stops issues piling up.",
+        strength: "knowing when to take a break before things escalate",
+        discussionPrompt: "When you step away from an argument, what would help you come back to it?",
+      },
+      {
+        id: "accommodating",
+        label: "Accommodating",
+        narrative:
+          "You often yield to keep the peace; your generosity is a strength, but your own needs deserve a voice too.",
+        strength: "being generous and flexible",
+        discussionPrompt: "Is there something you have been going along with that you would actually like to change?",
+      },
+    ],
+    items: [
+      { questionId: "c1", dimension: "competing" },
+      { questionId: "c6", dimension: "competing" },
+      { questionId: "c11", dimension: "competing" },
+      { questionId: "c2", dimension: "collaborating" },
+      { questionId: "c7", dimension: "collaborating" },
+      { questionId: "c12", dimension: "collaborating" },
+      { questionId: "c3", dimension: "compromising" },
+      { questionId: "c8", dimension: "compromising" },
+      { questionId: "c13", dimension: "compromising" },
+      { questionId: "c4", dimension: "avoiding" },
+      { questionId: "c9", dimension: "avoiding" },
+      { questionId: "c14", dimension: "avoiding" },
+      { questionId: "c5", dimension: "accommodating" },
+      { questionId: "c10", dimension: "accommodating" },
+      { questionId: "c15", dimension: "accommodating" },
+    ],
+    summaryTemplate: "In conflict you most often use a {primary} approach, with {secondary} as your backup.",
+  },
 };
 
 const testIndex: Record<string, TestDefinition> = {
   [communicationV1.id]: communicationV1,
+  [attachmentV1.id]: attachmentV1,
+  [loveLanguagesV1.id]: loveLanguagesV1,
+  [conflictV1.id]: conflictV1,
 };
 
 export function getTestDefinition(testId: string): TestDefinition | null {
@@ -95,3 +588,13 @@ export function getDefaultTest(): TestDefinition {
   return communicationV1;
 }
 
+export function listTests(): TestCatalogEntry[] {
+  return Object.values(testIndex).map((test) => ({
+    id: test.id,
+    title: test.title,
+    description: test.description,
+    category: test.category,
+    estimatedMinutes: test.estimatedMinutes,
+    itemCount: test.questions.length,
+  }));
+}
@@ -0,0 +1,32 @@
+import type { RouteHandler } from "./http";
+
+export type RouteEntry = {
+  // Vercel routes by file location, so the path must mirror where the module lives under api/
+  path: string;
+  load: () => Promise<{ default: RouteHandler }>;
+  // Extra public paths, mirroring the "rewrites" in vercel.json
+  aliases?: string[];
+};
+
+/** Every endpoint in api/. The dev server mounts from this list; keep it in step when adding a file. */
+export const ROUTES: RouteEntry[] = [
+  { path: "/api/auth", load: () => import("../auth") },
+  { path: "/api/chat", load: () => import("../chat") },
+  { path: "/api/chats", load: () => import("../chats") },
+  { path: "/api/messages", load: () => import("../messages") },
+  { path: "/api/partners", load: () => import("../partners") },
+  { path: "/api/partners/compatibility", load: () => import("../partners/compatibility") },
+  { path: "/api/partnerInvites", load: () => import("../partnerInvites") },
+  { path: "/api/insights/emotions", load: () => import("../insights/emotions") },
+  { path: "/api/coach/rewrite", load: () => import("../coach/rewrite") },
+  { path: "/api/tests", load: () => import("../tests") },
+  { path: "/api/tests/results", load: () => import("../tests/results") },
+  { path: "/api/tests/attempts", load: () => import("../tests/attempts") },
+  { path: "/api/exercises", load: () => import("../exercises") },
+  { path: "/api/exercises/sessions", load: () => import("../exercises/sessions") },
+  { path: "/api/getTest", load: () => import("../getTest") },
+  { path: "/api/submitTest", load: () => import("../submitTest") },
+  { path: "/api/cron/jobs", load: () => import("../cron/jobs") },
+  { path: "/api/ping", load: () => import("../ping") },
+  { path: "/api/openapi", load: () => import("../openapi"), aliases: ["/api/openapi.json"] },
+];
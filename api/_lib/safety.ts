@@ -0,0 +1,216 @@
+import type { VercelRequest } from "@vercel/node";
+import { z } from "zod";
+import { getLlmProvider } from "./llm";
+import { createLogger } from "./logger";
+
+const log = createLogger("safety");
+
+export const SAFETY_SEVERITIES = ["none", "low", "moderate", "high"] as const;
+export type SafetySeverity = (typeof SAFETY_SEVERITIES)[number];
+
+export const SAFETY_CATEGORIES = ["self_harm", "violence", "abuse"] as const;
+export type SafetyCategory = (typeof SAFETY_CATEGORIES)[number];
+
+export type SafetyAssessment = {
+  severity: SafetySeverity;
+  categories: SafetyCategory[];
+  source: "none" | "keyword" | "llm" | "combined";
+};
+
+export type SafetyResource = {
+  kind: "emergency" | "crisis" | "abuse";
+  name: string;
+  contact: string;
+  url?: string;
+};
+
+export type SafetyPayload = {
+  severity: SafetySeverity;
+  categories: SafetyCategory[];
+  locale: string;
+  resources: SafetyResource[];
+  // When true the counselor model is bypassed and the reply is the fixed safety template
+  templated: boolean;
+};
+
+type KeywordRule = { pattern: RegExp; category: SafetyCategory; severity: SafetySeverity };
+
+// Deliberately conservative: false positives only surface resources, misses are worse
+const KEYWORD_RULES: KeywordRule[] = [
+  { pattern: /\bsuicid(e|al)\b/i, category: "self_harm", severity: "high" },
+  { pattern: /\b(kill|hurt|harm|cut)(ing)? (myself|me)\b/i, category: "self_harm", severity: "high" },
+  { pattern: /\bend (it all|my life)\b/i, category: "self_harm", severity: "high" },
+  { pattern: /\b(want|going|wanna) (to )?die\b/i, category: "self_harm", severity: "high" },
+  { pattern: /\b(no reason to live|better off (dead|without me))\b/i, category: "self_harm", severity: "high" },
+  { pattern: /\boverdos(e|ing)\b/i, category: "self_harm", severity: "high" },
+  { pattern: /\b(can'?t|cannot) go on\b/i, category: "self_harm", severity: "moderate" },
+  { pattern: /\bhopeless\b/i, category: "self_harm", severity: "low" },
+  { pattern: /\b(kill|hurt|stab|shoot) (him|her|them|my (partner|husband|wife|boyfriend|girlfriend))\b/i, category: "violence", severity: "high" },
+  { pattern: /\b(hit|hits|choked?|chokes|strangled?|beat|beats|punched?|slapped?) me\b/i, category: "abuse", severity: "high" },
+  { pattern: /\bthreaten(ed|s|ing)? (to kill|to hurt|me)\b/i, category: "abuse", severity: "high" },
+  { pattern: /\bafraid (for my life|of (him|her|them|my partner))\b/i, category: "abuse", severity: "moderate" },
+  { pattern: /\b(stalk(s|ed|ing)?|won'?t let me leave)\b/i, category: "abuse", severity: "moderate" },
+];
+
+const severityRank: Record<SafetySeverity, number> = { none: 0, low: 1, moderate: 2, high: 3 };
+
+function maxSeverity(a: SafetySeverity, b: SafetySeverity): SafetySeverity {
+  return severityRank[a] >= severityRank[b] ? a : b;
+}
+
+export function isAtLeast(severity: SafetySeverity, threshold: SafetySeverity): boolean {
+  return severityRank[severity] >= severityRank[threshold];
+}
+
+export function screenKeywords(text: string): SafetyAssessment {
+  let severity: SafetySeverity = "none";
+  const categories = new Set<SafetyCategory>();
+  for (const rule of KEYWORD_RULES) {
+    if (!rule.pattern.test(text)) continue;
+    severity = maxSeverity(severity, rule.severity);
+    categories.add(rule.category);
+  }
+  return { severity, categories: [...categories], source: severity === "none" ? "none" : "keyword" };
+}
+
+const llmOutputSchema = z.object({
+  severity: z.enum(SAFETY_SEVERITIES).catch("none"),
+  categories: z.array(z.enum(SAFETY_CATEGORIES).or(z.string())).catch([]),
+});
+
+export async function classifyWithLlm(text: string): Promise<SafetyAssessment> {
+  const systemPrompt = [
+    "You are a strict JSON-only safety classifier for a relationship counseling service.",
+    "Assess the message for risk of self-harm or suicide, violence toward others, and abuse (physical, sexual, coercive control, stalking, threats).",
+    "Rules:",
+    '- Output ONLY a single JSON object with keys "severity" and "categories".',
+    `- "severity" is one of: ${SAFETY_SEVERITIES.join(", ")}. Use "high" for any current intent, plan, or danger.`,
+    `- "categories" is an array drawn from: ${SAFETY_CATEGORIES.join(", ")}.`,
+    "- No prose or explanation, only JSON.",
+  ].join("\n");
+  const completion = await getLlmProvider().complete({
+    task: "safety",
+    temperature: 0,
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: `Message:\n${text}\nRespond with JSON only.` },
+    ],
+  });
+  const content = completion.content;
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start < 0 || end <= start) return { severity: "none", categories: [], source: "none" };
+  const parsed = llmOutputSchema.safeParse(JSON.parse(content.slice(start, end + 1)));
+  if (!parsed.success) return { severity: "none", categories: [], source: "none" };
+  const categories = parsed.data.categories.filter((c): c is SafetyCategory =>
+    (SAFETY_CATEGORIES as readonly string[]).includes(c)
+  );
+  const severity = parsed.data.severity;
+  return { severity, categories, source: severity === "none" ? "none" : "llm" };
+}
+
+/**
+ * Keyword screen plus LLM classifier; the stricter of the two wins. If the LLM call fails
+ * the keyword result stands on its own so a provider outage never disables the screen.
+ */
+export async function assessSafety(text: string): Promise<SafetyAssessment> {
+  const keyword = screenKeywords(text);
+  let llm: SafetyAssessment = { severity: "none", categories: [], source: "none" };
+  try {
+    llm = await classifyWithLlm(text);
+  } catch (e) {
+    log.warn("classifier failed, using keyword screen only", { error: e });
+  }
+  const severity = maxSeverity(keyword.severity, llm.severity);
+  const categories = [...new Set([...keyword.categories, ...llm.categories])];
+  let source: SafetyAssessment["source"] = "none";
+  if (keyword.severity !== "none" && llm.severity !== "none") source = "combined";
+  else if (keyword.severity !== "none") source = "keyword";
+  else if (llm.severity !== "none") source = "llm";
+  return { severity, categories, source };
+}
+
+type RegionResources = { emergency: SafetyResource; crisis: SafetyResource; abuse?: SafetyResource };
+
+const REGION_RESOURCES: Record<string, RegionResources> = {
+  US: {
+    emergency: { kind: "emergency", name: "Emergency services", contact: "911" },
+    crisis: { kind: "crisis", name: "988 Suicide & Crisis Lifeline", contact: "988", url: "https://988lifeline.org" },
+    abuse: { kind: "abuse", name: "National Domestic Violence Hotline", contact: "1-800-799-7233", url: "https://www.thehotline.org" },
+  },
+  CA: {
+    emergency: { kind: "emergency", name: "Emergency services", contact: "911" },
+    crisis: { kind: "crisis", name: "9-8-8 Suicide Crisis Helpline", contact: "988", url: "https://988.ca" },
+  },
+  GB: {
+    emergency: { kind: "emergency", name: "Emergency services", contact: "999" },
+    crisis: { kind: "crisis", name: "Samaritans", contact: "116 123", url: "https://www.samaritans.org" },
+    abuse: { kind: "abuse", name: "National Domestic Abuse Helpline", contact: "0808 2000 247", url: "https://www.nationaldahelpline.org.uk" },
+  },
+  IE: {
+    emergency: { kind: "emergency", name: "Emergency services", contact: "112" },
+    crisis: { kind: "crisis", name: "Samaritans Ireland", contact: "116 123", url: "https://www.samaritans.org/ireland" },
+  },
+  AU: {
+    emergency: { kind: "emergency", name: "Emergency services", contact: "000" },
+    crisis: { kind: "crisis", name: "Lifeline Australia", contact: "13 11 14", url: "https://www.lifeline.org.au" },
+    abuse: { kind: "abuse", name: "1800RESPECT", contact: "1800 737 732", url: "https://www.1800respect.org.au" },
+  },
+  NZ: {
+    emergency: { kind: "emergency", name: "Emergency services", contact: "111" },
+    crisis: { kind: "crisis", name: "Need to Talk? (1737)", contact: "1737", url: "https://1737.org.nz" },
+  },
+};
+
+const INTERNATIONAL_RESOURCES: RegionResources = {
+  emergency: { kind: "emergency", name: "Local emergency services", contact: "112" },
+  crisis: { kind: "crisis", name: "Find A Helpline", contact: "findahelpline.com", url: "https://findahelpline.com" },
+};
+
+function regionFromLocale(locale: string): string | null {
+  const parts = locale.replace("_", "-").split("-");
+  const region = parts.find((p, i) => i > 0 && /^[A-Za-z]{2}$/.test(p));
+  return region ? region.toUpperCase() : null;
+}
+
+// Explicit body locale wins; otherwise the first Accept-Language tag
+export function resolveLocale(req: VercelRequest, explicit?: string): string {
+  if (explicit) return explicit;
+  const header = req.headers["accept-language"];
+  const first = typeof header === "string" ? header.split(",")[0]?.split(";")[0]?.trim() : undefined;
+  return first || "en-US";
+}
+
+export function resourcesForLocale(locale: string, categories: SafetyCategory[]): SafetyResource[] {
+  const region = regionFromLocale(locale);
+  const set = (region && REGION_RESOURCES[region]) || INTERNATIONAL_RESOURCES;
+  const resources = [set.emergency, set.crisis];
+  if (set.abuse && (categories.includes("abuse") || categories.includes("violence"))) resources.push(set.abuse);
+  return resources;
+}
+
+// Moderate risk surfaces resources alongside the counselor reply; high risk replaces it
+export function buildSafetyPayload(assessment: SafetyAssessment, locale: string): SafetyPayload | null {
+  if (!isAtLeast(assessment.severity, "moderate")) return null;
+  return {
+    severity: assessment.severity,
+    categories: assessment.categories,
+    locale,
+    resources: resourcesForLocale(locale, assessment.categories),
+    templated: isAtLeast(assessment.severity, "high"),
+  };
+}
+
+export function templatedSafetyReply(payload: SafetyPayload): string {
+  const emergency = payload.resources.find((r) => r.kind === "emergency");
+  const support = payload.resources.filter((r) => r.kind !== "emergency");
+  const lines = [
+    "I'm really glad you told me, and I'm concerned about your safety right now. You deserve support from someone who can help in real time.",
+    emergency
+      ? `If you are in immediate danger, please contact ${emergency.name.toLowerCase()} (${emergency.contact}).`
+      : "If you are in immediate danger, please contact your local emergency services.",
+    ...support.map((r) => `You can also reach ${r.name} at ${r.contact}.`),
+    "If you can, let someone you trust know what's happening. I'm here to keep talking with you too.",
+  ];
+  return lines.join(" ");
+}
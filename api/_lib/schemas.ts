@@ -0,0 +1,407 @@
+import { z } from "zod";
+import { EMOTION_DIMENSIONS, PRIMARY_NEEDS, type EmotionDimension } from "./analysis";
+import { SAFETY_CATEGORIES, SAFETY_SEVERITIES } from "./safety";
+
+/**
+ * Response shapes shared between endpoints. They document what handlers send rather than validate
+ * it: `returns(schema)` types each handler's `send`, so a payload that drifts from its schema fails
+ * to compile. Everything in COMPONENTS is named in the OpenAPI document and the generated client.
+ */
+
+function dimensionShape<T extends z.ZodTypeAny>(value: T) {
+  return Object.fromEntries(EMOTION_DIMENSIONS.map((d) => [d, value])) as Record<EmotionDimension, T>;
+}
+
+export const errorBodySchema = z
+  .object({
+    error: z.string().describe("Message fit to show the user"),
+    code: z.string().describe("Stable, machine-readable error code (see api/_lib/errors.ts)"),
+    requestId: z.string(),
+  })
+  .passthrough();
+
+export const okSchema = z.object({ ok: z.literal(true) });
+
+export const userSchema = z.object({ id: z.string(), email: z.string().nullable().optional() });
+
+// Safety and emotion analysis
+
+export const safetyResourceSchema = z.object({
+  kind: z.enum(["emergency", "crisis", "abuse"]),
+  name: z.string(),
+  contact: z.string(),
+  url: z.string().optional(),
+});
+
+export const safetyPayloadSchema = z.object({
+  severity: z.enum(SAFETY_SEVERITIES),
+  categories: z.array(z.enum(SAFETY_CATEGORIES)),
+  locale: z.string(),
+  resources: z.array(safetyResourceSchema),
+  templated: z.boolean(),
+});
+
+export const emotionAnalysisSchema = z.object({
+  ...dimensionShape(z.number()),
+  version: z.literal(2),
+  primaryNeed: z.enum(PRIMARY_NEEDS),
+  fallback: z.literal(true).optional(),
+});
+
+// Chats
+
+export const chatSchema = z.object({
+  id: z.string(),
+  title: z.string().nullable(),
+  kind: z.enum(["solo", "joint"]),
+  isOwner: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  archivedAt: z.string().nullable(),
+});
+
+export const chatListItemSchema = chatSchema.extend({
+  lastMessage: z.object({ role: z.string(), preview: z.string(), createdAt: z.string() }).nullable(),
+});
+
+export const chatReplySchema = z.object({
+  action: z.enum(["send", "regenerate", "edit"]),
+  reply: z.string(),
+  model: z.string(),
+  chatId: z.string(),
+  userMessageId: z.string(),
+  assistantMessageId: z.string().nullable(),
+  // Versions of this reply kept so far, the new one included
+  variantCount: z.number().int(),
+  safety: safetyPayloadSchema.nullable(),
+});
+
+// Partners
+
+export const partnerInviteSchema = z.object({
+  id: z.string(),
+  code: z.string(),
+  status: z.enum(["pending", "accepted", "declined", "revoked", "expired"]),
+  expiresAt: z.string(),
+  createdAt: z.string(),
+  respondedAt: z.string().nullable(),
+  deepLink: z.string(),
+});
+
+const styleSchema = z.object({ primary: z.string(), secondary: z.string() });
+
+export const compatibilitySchema = z.object({
+  testId: z.string(),
+  dimensions: z.array(
+    z.object({ dimension: z.string(), label: z.string(), you: z.number(), partner: z.number(), gap: z.number() })
+  ),
+  you: styleSchema,
+  partner: styleSchema,
+  sharedStrengths: z.array(z.string()),
+  complementaryStrengths: z.array(z.string()),
+  frictionPoints: z.array(z.string()),
+  conversationPrompts: z.array(z.string()),
+  basedOn: z.object({ yourResultAt: z.string(), partnerResultAt: z.string() }),
+});
+
+// Tests
+
+const scaleLabelsSchema = z.object({ left: z.string(), right: z.string() });
+
+const choiceOptionSchema = z.object({
+  value: z.string(),
+  label: z.string(),
+  dimension: z.string().optional(),
+  points: z.number().optional(),
+});
+
+const questionBase = { id: z.string(), text: z.string(), required: z.boolean().optional() };
+
+export const testQuestionSchema = z.discriminatedUnion("type", [
+  z.object({ ...questionBase, type: z.literal("likert"), scaleLabels: scaleLabelsSchema }),
+  z.object({ ...questionBase, type: z.literal("forced_choice"), options: z.array(choiceOptionSchema) }),
+  z.object({ ...questionBase, type: z.literal("single_select"), options: z.array(choiceOptionSchema) }),
+  z.object({
+    ...questionBase,
+    type: z.literal("multi_select"),
+    options: z.array(choiceOptionSchema),
+    minSelections: z.number().int().optional(),
+    maxSelections: z.number().int().optional(),
+  }),
+  z.object({ ...questionBase, type: z.literal("ranking"), options: z.array(choiceOptionSchema) }),
+  z.object({
+    ...questionBase,
+    type: z.literal("slider"),
+    min: z.number(),
+    max: z.number(),
+    step: z.number().optional(),
+    scaleLabels: scaleLabelsSchema,
+  }),
+  z.object({
+    ...questionBase,
+    type: z.literal("free_text"),
+    maxLength: z.number().int().optional(),
+    placeholder: z.string().optional(),
+  }),
+]);
+
+const testCategorySchema = z.enum(["communication", "attachment", "connection", "conflict"]);
+
+export const testDefinitionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  version: z.number().int(),
+  category: testCategorySchema,
+  estimatedMinutes: z.number(),
+  questions: z.array(testQuestionSchema),
+  scoring: z.object({
+    dimensions: z.array(
+      z.object({
+        id: z.string(),
+        label: z.string(),
+        narrative: z.string(),
+        strength: z.string().optional(),
+        discussionPrompt: z.string().optional(),
+      })
+    ),
+    items: z.array(
+      z.object({
+        questionId: z.string(),
+        dimension: z.string(),
+        weight: z.number().optional(),
+        reverse: z.boolean().optional(),
+      })
+    ),
+    bands: z
+      .array(z.object({ min: z.number(), max: z.number(), label: z.string(), narrative: z.string() }))
+      .optional(),
+    summaryTemplate: z.string().optional(),
+  }),
+});
+
+export const testCatalogEntrySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  category: testCategorySchema,
+  estimatedMinutes: z.number(),
+  itemCount: z.number().int(),
+});
+
+export const answerSchema = z.object({
+  questionId: z.string(),
+  value: z.union([z.number(), z.string(), z.array(z.string())]),
+});
+
+export const dimensionScoreSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  raw: z.number(),
+  max: z.number(),
+  percent: z.number(),
+});
+
+const bandMatchSchema = z.object({ label: z.string(), narrative: z.string() });
+
+export const testResultSchema = z.object({
+  testId: z.string(),
+  score: z.number(),
+  percentile: z.number(),
+  style: styleSchema,
+  dimensions: z.array(dimensionScoreSchema),
+  band: bandMatchSchema.nullable(),
+  summary: z.string(),
+});
+
+export const historicalResultSchema = z.object({
+  id: z.string(),
+  testId: z.string(),
+  score: z.number(),
+  percentile: z.number(),
+  summary: z.string().nullable(),
+  dimensions: z.array(dimensionScoreSchema),
+  style: styleSchema.nullable(),
+  band: bandMatchSchema.nullable(),
+  createdAt: z.string(),
+});
+
+export const dimensionTrendSchema = z.object({
+  testId: z.string(),
+  dimension: z.string(),
+  label: z.string(),
+  points: z.array(z.object({ resultId: z.string(), createdAt: z.string(), percent: z.number() })),
+  latest: z.number(),
+  changeFromPrevious: z.number().nullable(),
+  changeFromFirst: z.number().nullable(),
+  direction: z.enum(["up", "down", "steady"]),
+  meaningful: z.boolean(),
+});
+
+export const testAttemptSchema = z.object({
+  id: z.string(),
+  testId: z.string(),
+  testVersion: z.number().int(),
+  stale: z.boolean(),
+  status: z.enum(["in_progress", "completed", "abandoned", "expired"]),
+  answers: z.array(answerSchema),
+  answeredCount: z.number().int(),
+  totalQuestions: z.number().int().nullable(),
+  resultId: z.string().nullable(),
+  startedAt: z.string(),
+  updatedAt: z.string(),
+  expiresAt: z.string(),
+  completedAt: z.string().nullable(),
+});
+
+// Exercises
+
+const exerciseOptionSchema = z.object({ value: z.string(), label: z.string() });
+
+const exerciseInputSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("text"),
+    maxLength: z.number().int().optional(),
+    placeholder: z.string().optional(),
+    multiline: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal("choice"), options: z.array(exerciseOptionSchema) }),
+  z.object({
+    type: z.literal("multi_choice"),
+    options: z.array(exerciseOptionSchema),
+    minSelections: z.number().int().optional(),
+    maxSelections: z.number().int().optional(),
+  }),
+  z.object({ type: z.literal("scale"), min: z.number(), max: z.number(), labels: scaleLabelsSchema }),
+  z.object({ type: z.literal("minutes"), min: z.number(), max: z.number(), defaultValue: z.number() }),
+]);
+
+export const exerciseStepSchema = z.object({
+  id: z.string(),
+  prompt: z.string(),
+  help: z.string().optional(),
+  example: z.string().optional(),
+  required: z.boolean(),
+  input: exerciseInputSchema,
+});
+
+const exerciseCategorySchema = z.enum(["communication", "conflict", "repair", "self_regulation"]);
+
+export const exerciseCatalogEntrySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  version: z.number().int(),
+  category: exerciseCategorySchema,
+  estimatedMinutes: z.number(),
+  stepCount: z.number().int(),
+});
+
+export const exerciseSchema = exerciseCatalogEntrySchema.omit({ stepCount: true }).extend({
+  startStep: z.string(),
+  steps: z.array(exerciseStepSchema),
+});
+
+export const exerciseOutputSchema = z.object({
+  title: z.string(),
+  text: z.string(),
+  sections: z.array(z.object({ label: z.string(), value: z.string() })),
+});
+
+export const exerciseSessionSchema = z.object({
+  id: z.string(),
+  exerciseId: z.string(),
+  exerciseVersion: z.number().int(),
+  title: z.string().nullable(),
+  stale: z.boolean(),
+  chatId: z.string().nullable(),
+  status: z.enum(["in_progress", "completed", "abandoned"]),
+  step: exerciseStepSchema.nullable(),
+  answeredSteps: z.number().int(),
+  canGoBack: z.boolean(),
+  inputs: z.record(z.union([z.number(), z.string(), z.array(z.string())])),
+  output: exerciseOutputSchema.nullable(),
+  startedAt: z.string(),
+  updatedAt: z.string(),
+  completedAt: z.string().nullable(),
+});
+
+// Insights
+
+const dimensionValuesSchema = z.object(dimensionShape(z.number().nullable()));
+
+export const dailyEmotionPointSchema = z.object({
+  date: z.string(),
+  count: z.number().int(),
+  averages: dimensionValuesSchema,
+  rolling: dimensionValuesSchema,
+});
+
+export const emotionTrendsSchema = z.object({
+  subject: z.enum(["self", "partner"]),
+  range: z.object({ from: z.string(), to: z.string(), days: z.number().int() }),
+  timeZone: z.string(),
+  window: z.number().int(),
+  messageCount: z.number().int(),
+  // The row cap was hit: the oldest messages in the range are left out
+  truncated: z.boolean(),
+  daily: z.array(dailyEmotionPointSchema),
+  chats: z.array(
+    z.object({
+      chatId: z.string(),
+      title: z.string().nullable(),
+      count: z.number().int(),
+      averages: dimensionValuesSchema,
+      daily: z.array(dailyEmotionPointSchema),
+    })
+  ),
+  spikes: z.array(
+    z.object({ date: z.string(), dimension: z.enum(EMOTION_DIMENSIONS), value: z.number(), baseline: z.number() })
+  ),
+  angerByHour: z.array(z.object({ hour: z.number().int(), count: z.number().int(), averageAnger: z.number().nullable() })),
+  elevatedHours: z.array(z.number().int()),
+});
+
+// Coaching
+
+export const flaggedPatternSchema = z.object({
+  type: z.enum(["blame", "absolute", "contempt", "criticism", "defensiveness", "stonewalling"]),
+  match: z.string().nullable(),
+  index: z.number().int().nullable(),
+  explanation: z.string(),
+  source: z.enum(["rule", "analysis"]),
+});
+
+export const rewriteSchema = z.object({ text: z.string(), approach: z.string() });
+
+/** Named schemas in the OpenAPI document; the key is the type name in the generated client. */
+export const COMPONENTS: Record<string, z.ZodTypeAny> = {
+  ErrorBody: errorBodySchema,
+  User: userSchema,
+  SafetyResource: safetyResourceSchema,
+  SafetyPayload: safetyPayloadSchema,
+  EmotionAnalysis: emotionAnalysisSchema,
+  Chat: chatSchema,
+  ChatListItem: chatListItemSchema,
+  ChatReply: chatReplySchema,
+  PartnerInvite: partnerInviteSchema,
+  Compatibility: compatibilitySchema,
+  TestQuestion: testQuestionSchema,
+  TestDefinition: testDefinitionSchema,
+  TestCatalogEntry: testCatalogEntrySchema,
+  Answer: answerSchema,
+  DimensionScore: dimensionScoreSchema,
+  TestResult: testResultSchema,
+  HistoricalResult: historicalResultSchema,
+  DimensionTrend: dimensionTrendSchema,
+  TestAttempt: testAttemptSchema,
+  ExerciseStep: exerciseStepSchema,
+  ExerciseCatalogEntry: exerciseCatalogEntrySchema,
+  Exercise: exerciseSchema,
+  ExerciseOutput: exerciseOutputSchema,
+  ExerciseSession: exerciseSessionSchema,
+  DailyEmotionPoint: dailyEmotionPointSchema,
+  EmotionTrends: emotionTrendsSchema,
+  FlaggedPattern: flaggedPatternSchema,
+  Rewrite: rewriteSchema,
+};
@@ -0,0 +1,143 @@
+import type { TestDefinition } from "./questions";
+import { answerIssue, isRequired, scoreAnswer, type AnswerValue } from "./questionTypes";
+
+export type Answer = { questionId: string; value: AnswerValue };
+
+export type DimensionScore = {
+  id: string;
+  label: string;
+  raw: number;
+  max: number;
+  // 0-100, normalized by the dimension's own min/max so dimensions with different item counts compare fairly
+  percent: number;
+};
+
+export type ResultBandMatch = { label: string; narrative: string };
+
+export type TestScore = {
+  testId: string;
+  total: number;
+  maxScore: number;
+  percentile: number;
+  dimensions: DimensionScore[];
+  primary: string;
+  secondary: string;
+  band: ResultBandMatch | null;
+  summary: string;
+};
+
+export type AnswerIssue = { questionId?: string; message: string };
+
+const DEFAULT_SUMMARY_TEMPLATE =
+  "Your responses suggest a {primary} style with {secondary} tendencies. You scored {total}/{maxScore} ({percentile}%).";
+
+/**
+ * Checks a submission against the test's actual questions: unknown ids, duplicates,
+ * invalid values for the question type and unanswered required questions are all reported.
+ * With `partial` (saving a draft) unanswered questions are allowed.
+ */
+export function validateAnswers(
+  test: TestDefinition,
+  answers: Answer[],
+  { partial = false }: { partial?: boolean } = {}
+): AnswerIssue[] {
+  const issues: AnswerIssue[] = [];
+  const known = new Map(test.questions.map((q) => [q.id, q]));
+  const seen = new Set<string>();
+  for (const a of answers) {
+    const question = known.get(a.questionId);
+    if (!question) {
+      issues.push({ questionId: a.questionId, message: "Unknown question" });
+      continue;
+    }
+    if (seen.has(a.questionId)) issues.push({ questionId: a.questionId, message: "Answered more than once" });
+    seen.add(a.questionId);
+    const message = answerIssue(question, a.value);
+    if (message) issues.push({ questionId: a.questionId, message });
+  }
+  if (partial) return issues;
+  for (const q of test.questions) {
+    if (!seen.has(q.id) && isRequired(q)) issues.push({ questionId: q.id, message: "Missing answer" });
+  }
+  return issues;
+}
+
+function matchBand(
+  bands: { min: number; max: number; label: string; narrative: string }[] | undefined,
+  percent: number
+): ResultBandMatch | null {
+  const band = bands?.find((b) => percent >= b.min && percent <= b.max);
+  return band ? { label: band.label, narrative: band.narrative } : null;
+}
+
+/** Interprets a test's scoring spec; assumes answers already passed validateAnswers. */
+export function scoreTest(test: TestDefinition, answers: Answer[]): TestScore {
+  const { scoring } = test;
+  const byQuestion = new Map(answers.map((a) => [a.questionId, a.value]));
+
+  const totals = new Map(scoring.dimensions.map((d) => [d.id, { raw: 0, min: 0, max: 0 }]));
+  for (const q of test.questions) {
+    const value = byQuestion.get(q.id);
+    if (value === undefined) continue;
+    for (const c of scoreAnswer(q, value, scoring.items)) {
+      const t = totals.get(c.dimension);
+      if (!t) continue;
+      t.raw += c.raw;
+      t.min += c.min;
+      t.max += c.max;
+    }
+  }
+
+  const dimensions: DimensionScore[] = scoring.dimensions.map((d) => {
+    const { raw, min, max } = totals.get(d.id)!;
+    const percent = max > min ? Math.round(((raw - min) / (max - min)) * 100) : 0;
+    return { id: d.id, label: d.label, raw, max, percent };
+  });
+
+  // Rounded because slider steps and item weights can be fractional; test_results.score is an integer
+  const total = Math.round(dimensions.reduce((acc, d) => acc + d.raw, 0));
+  const maxScore = dimensions.reduce((acc, d) => acc + d.max, 0);
+  const percentile = maxScore ? Math.round((total / maxScore) * 100) : 0;
+
+  const ranked = [...dimensions].sort((a, b) => b.percent - a.percent);
+  const primary = ranked[0]?.label ?? "Balanced";
+  const secondary = ranked[1]?.label ?? "Balanced";
+  const band = matchBand(scoring.bands, percentile);
+  const primaryNarrative = scoring.dimensions.find((d) => d.id === ranked[0]?.id)?.narrative;
+
+  const headline = (scoring.summaryTemplate ?? DEFAULT_SUMMARY_TEMPLATE)
+    .replace("{primary}", primary)
+    .replace("{secondary}", secondary)
+    .replace("{total}", String(total))
+    .replace("{maxScore}", String(maxScore))
+    .replace("{percentile}", String(percentile));
+  const summary = [headline, primaryNarrative, band?.narrative].filter(Boolean).join(" ");
+
+  return { testId: test.id, total, maxScore, percentile, dimensions, primary, secondary, band, summary };
+}
+
+/** Scores a complete submission into the test_results row fields and the API response shape. */
+export function buildTestResult(test: TestDefinition, answers: Answer[]) {
+  const scored = scoreTest(test, answers);
+  const { total, percentile, summary } = scored;
+  const style = { primary: scored.primary, secondary: scored.secondary };
+  return {
+    record: {
+      test_id: test.id,
+      answers,
+      score: total,
+      percentile,
+      summary,
+      result: { dimensions: scored.dimensions, style, band: scored.band },
+    },
+    payload: {
+      testId: test.id,
+      score: total,
+      percentile,
+      style,
+      dimensions: scored.dimensions,
+      band: scored.band,
+      summary,
+    },
+  };
+}
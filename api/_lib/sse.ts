@@ -0,0 +1,21 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+export function wantsEventStream(req: VercelRequest, streamFlag?: boolean): boolean {
+  if (streamFlag) return true;
+  const accept = req.headers["accept"];
+  return typeof accept === "string" && accept.includes("text/event-stream");
+}
+
+export function openEventStream(res: VercelResponse) {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Disable proxy buffering (nginx / Vercel edge) so deltas arrive as they are written
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders?.();
+}
+
+export function sendEvent(res: VercelResponse, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
@@ -1,18 +1,17 @@
-import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { handleCors } from "./_lib/cors";
+import { z } from "zod";
+import { AuthenticationError } from "./_lib/errors";
+import { defineRoute, endpoint } from "./_lib/http";
+import { userSchema } from "./_lib/schemas";
 import { getUserFromRequest } from "./_lib/supabase";
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (handleCors(req, res)) return;
-  if (req.method !== "GET") {
-    res.status(405).json({ error: "Method not allowed" });
-    return;
-  }
-  const user = await getUserFromRequest(req);
-  if (!user) {
-    res.status(401).json({ user: null });
-    return;
-  }
-  res.status(200).json({ user });
-}
-
+// Session probe: the signed-in user's id and email
+export default defineRoute("auth", {
+  GET: endpoint()
+    .doc({ operationId: "getSession", summary: "The signed-in user" })
+    .returns(z.object({ user: userSchema }))
+    .handle(async ({ req, send }) => {
+      const user = await getUserFromRequest(req);
+      if (!user) throw new AuthenticationError("UNAUTHORIZED", "Unauthorized");
+      send({ user });
+    }),
+});
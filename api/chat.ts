@@ -1,14 +1,25 @@
-import type { VercelRequest, VercelResponse } from "@vercel/node";
-import OpenAI from "openai";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { z } from "zod";
-import { handleCors } from "./_lib/cors";
-import {
-  createSupabaseClientForUserToken,
-  getBearerTokenFromRequest,
-  requireEnv,
-} from "./_lib/supabase";
+import { ConflictError, ForbiddenError, fromDbError, NotFoundError, UpstreamError } from "./_lib/errors";
+import { body, defineRoute, endpoint, requireAuth } from "./_lib/http";
 import { createServiceRoleClient } from "./_lib/supabase";
-import { analyzeAnger } from "./_lib/analysis";
+import { enqueueChatJob, enqueueMessageAnalysis, runJobNow } from "./_lib/jobs";
+import {
+  CHAT_MEMBERSHIP_COLUMNS,
+  isChatMember,
+  speakerLabelsFor,
+  type ChatMembership,
+} from "./_lib/chats";
+import { buildConversationContext, invalidateSummaryCovering } from "./_lib/memory";
+import { getLlmProvider, type TokenUsage } from "./_lib/llm";
+import { createLogger } from "./_lib/logger";
+import { allowedModels, ipRateLimit, planLimits, recordUsage, resolveModel } from "./_lib/limits";
+import { openEventStream, sendEvent, wantsEventStream } from "./_lib/sse";
+import { assessSafety, buildSafetyPayload, resolveLocale, templatedSafetyReply } from "./_lib/safety";
+import { listExercises } from "./_lib/exercises";
+import { chatReplySchema, errorBodySchema, safetyPayloadSchema } from "./_lib/schemas";
+
+const log = createLogger('chat');
 
 const COUNSELOR_SYSTEM_PROMPT = `You are a highly experienced, trauma-informed relationship counselor and therapist. Your purpose is to help individuals and couples navigate relationship challenges with empathy, clarity, and evidence-based guidance. You are supportive and practical, not a replacement for licensed therapy. Do not diagnose or provide legal advice. If there is risk of harm, encourage contacting appropriate support immediately.
 
@@ -46,127 +57,362 @@ Micro-tools
 - Repair attempt: "I care about us. Can we rewind and try again more slowly?"
 - Timeout: "Let's pause 20-30 minutes to cool off. I'll come back at [time]."`;
 
-const bodySchema = z.object({
-  chatId: z.string().uuid().optional(),
-  content: z.string().min(1),
+// The app's guided exercises walk the user through these tools step by step
+const EXERCISES_PROMPT = `Guided exercises
+- The app has step-by-step exercises: ${listExercises().map((e) => `"${e.title}" (${e.description})`).join('; ')}.
+- When one clearly fits what the user is working on, suggest it by name in a single line. Do not run it yourself in chat.`;
+
+// Appended to the counselor prompt for joint sessions where both linked partners share one chat
+const MEDIATOR_PROMPT_ADDENDUM = `Joint session (mediator mode)
+- Two partners share this conversation. Each user message is prefixed with its speaker label ("Partner A:" or "Partner B:"); refer to them only by these labels.
+- Address both people fairly: balance attention across turns, reflect each perspective before responding, and never take sides or assign blame.
+- When one partner has spoken more, gently invite the other: "Partner B, how does that land for you?"
+- Translate criticism into underlying feelings and needs, and name shared goals when you hear them.
+- If contempt, name-calling or escalation appears, slow things down and suggest a short pause before continuing.
+- Safety still comes first: if either partner indicates fear, coercion or harm, prioritize that partner's safety over mediation.`;
+
+// Regenerating keeps earlier replies as variants the user can flip between, up to this many
+const MAX_REPLY_VARIANTS = 5;
+
+const replyOptions = {
   model: z.string().optional(),
-});
+  stream: z.boolean().optional(),
+  locale: z.string().optional(),
+};
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (handleCors(req, res)) return;
-  if (req.method !== "POST") {
-    res.status(405).json({ error: "Method not allowed" });
-    return;
-  }
-
-  const parse = bodySchema.safeParse(req.body);
-  if (!parse.success) {
-    res.status(400).json({ error: "Invalid payload", details: parse.error.issues });
-    return;
-  }
-
-  const openai = new OpenAI({
-    apiKey: requireEnv("XAI_API_KEY"),
-    baseURL: "https://api.x.ai/v1",
-  });
-
-  const token = getBearerTokenFromRequest(req);
-  const supabase = createSupabaseClientForUserToken(token);
-  const { data: userData } = token ? await supabase.auth.getUser(token) : { data: { user: null } } as any;
-  const userId: string | null = userData?.user?.id ?? null;
-  if (!userId) {
-    res.status(401).json({ error: "Unauthorized" });
-    return;
-  }
-  console.log('[chat] userId', userId);
-
-  const { chatId: incomingChatId, content, model } = parse.data;
-
-  // Ensure a chat exists for this user
-  const service = createServiceRoleClient();
-  const writer = service ?? supabase;
-  console.log('[chat] usingServiceRole', !!service);
-  let chatId = incomingChatId ?? null;
-  if (chatId) {
-    const { data: c, error: cErr } = await supabase.from('chats').select('id,user_id').eq('id', chatId).maybeSingle();
-    if (cErr || !c || c.user_id !== userId) {
-      // Reset to new chat if invalid or not owned by user
-      chatId = null;
-    }
-  }
-  if (!chatId) {
-    const { data: chatRow, error: chatErr } = await writer.from('chats').insert({ user_id: userId }).select('id').single();
-    if (chatErr || !chatRow?.id) {
-      res.status(500).json({ error: chatErr?.message || 'Failed to create chat' });
-      return;
-    }
-    chatId = chatRow.id as string;
-  }
-  console.log('[chat] active chatId', chatId);
-
-  // Insert user message
-  const { data: userMsg, error: umErr } = await writer
-    .from('messages')
-    .insert({ chat_id: chatId, user_id: userId, role: 'user', content })
-    .select('id')
-    .single();
-  if (umErr || !userMsg?.id) {
-    res.status(500).json({ error: umErr?.message || 'Failed to store user message' });
-    return;
-  }
-  const userMessageId = userMsg.id as string;
-  console.log('[chat] stored userMessageId', userMessageId);
-
-  // Start analysis immediately (do not wait for assistant)
-  ;(async () => {
-    try {
-      console.log('[chat] analysis start', { userMessageId });
-      const analysis = await analyzeAnger([{ role: 'user', content }]);
-      const { error: upErr } = await writer.from('messages').update({ analysis }).eq('id', userMessageId);
-      if (upErr) console.error('[chat] analysis update failed', upErr);
-      else console.log('[chat] analysis updated', { userMessageId, analysis });
-    } catch (e) {
-      console.error('Analysis failed', e);
-    }
-  })();
-
-  // Build context from last N messages in this chat
-  const { data: history } = await supabase
+const actionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('send'), chatId: z.string().uuid().optional(), content: z.string().min(1), ...replyOptions }),
+  // New reply variant for the chat's last user message
+  z.object({ action: z.literal('regenerate'), chatId: z.string().uuid(), ...replyOptions }),
+  // Rewrite the chat's last user message: later replies are removed and it is asked again
+  z.object({
+    action: z.literal('edit'),
+    chatId: z.string().uuid(),
+    messageId: z.string().uuid(),
+    content: z.string().min(1),
+    ...replyOptions,
+  }),
+]);
+
+// Plain sends predate the action field, so it defaults to 'send'
+const bodySchema = z.preprocess(
+  (raw) => (raw && typeof raw === 'object' ? { action: 'send', ...raw } : raw),
+  actionSchema
+);
+
+// Streamed replies (stream: true or Accept: text/event-stream): `safety` when flagged, the reply as
+// `delta`s, then `done` with the same body a JSON response has, or `error` if generation failed
+const eventSchema = z.discriminatedUnion('event', [
+  z.object({ event: z.literal('safety'), data: safetyPayloadSchema }),
+  z.object({ event: z.literal('delta'), data: z.object({ content: z.string() }) }),
+  z.object({ event: z.literal('done'), data: chatReplySchema }),
+  z.object({ event: z.literal('error'), data: errorBodySchema }),
+]);
+
+type VisibleMessage = { id: string; role: string; user_id: string | null; content: string; created_at: string; reply_to: string | null };
+
+// The last user message of a chat and every visible message after it (its active reply, if any)
+async function loadLastTurn(supabase: SupabaseClient, chatId: string) {
+  const { data, error } = await supabase
     .from('messages')
-    .select('role,content')
+    .select('id,role,user_id,content,created_at,reply_to')
     .eq('chat_id', chatId)
-    .order('created_at', { ascending: true })
-    .limit(30);
-  const convo = (history ?? []).map((m: any) => ({ role: m.role as 'user'|'assistant'|'system', content: m.content as string }));
-  const messages = [
-    { role: 'system' as const, content: COUNSELOR_SYSTEM_PROMPT },
-    ...convo,
-  ];
-
-  const completion = await openai.chat.completions.create({
-    model: model ?? 'grok-3-mini',
-    messages,
-    temperature: 0.7,
-  });
-  const reply = completion.choices[0]?.message?.content ?? '';
-
-  // Insert assistant message
-  const { data: asstMsg, error: amErr } = await writer
-    .from('messages')
-    .insert({ chat_id: chatId, user_id: userId, role: 'assistant', content: reply })
-    .select('id')
-    .single();
-  if (amErr) console.error('Failed to store assistant message:', amErr);
-  else console.log('[chat] stored assistantMessageId', asstMsg?.id);
-
-  // (analysis already kicked off above)
-
-  res.status(200).json({
-    reply,
-    model: completion.model,
-    chatId,
-    userMessageId,
-    assistantMessageId: asstMsg?.id ?? null,
-  });
+    .is('deleted_at', null)
+    .eq('active_variant', true)
+    .order('created_at', { ascending: false })
+    .limit(20);
+  if (error) throw fromDbError(error);
+  const rows = (data ?? []) as VisibleMessage[];
+  const idx = rows.findIndex((m) => m.role === 'user');
+  if (idx < 0) return null;
+  return { userMessage: rows[idx]!, after: rows.slice(0, idx).reverse() };
 }
 
+export default defineRoute('chat', {
+  POST: endpoint()
+    .doc({ operationId: 'sendMessage', summary: 'Send a message, regenerate the last reply or edit the last message' })
+    .use(body(bodySchema))
+    .use(ipRateLimit())
+    .use(requireAuth())
+    .use(planLimits())
+    .returns(chatReplySchema)
+    .streams(eventSchema)
+    .handle(async ({ req, res, send, requestId, supabase, userId, limits, body }) => {
+      const { model, stream, locale } = body;
+      const llm = getLlmProvider();
+      const service = createServiceRoleClient();
+
+      const counselModel = resolveModel(limits, 'counsel', model);
+      if (!counselModel) {
+        throw new ForbiddenError('MODEL_NOT_ALLOWED', 'Model not available on your plan', {
+          allowedModels: allowedModels(limits, 'counsel'),
+        });
+      }
+
+      // Ensure a chat exists for this user
+      const writer = service ?? supabase;
+      let chatId = body.chatId ?? null;
+      let chat: ChatMembership | null = null;
+      if (chatId) {
+        const { data: c, error: cErr } = await supabase.from('chats').select(CHAT_MEMBERSHIP_COLUMNS).eq('id', chatId).maybeSingle();
+        if (cErr || !c || !isChatMember(c as ChatMembership, userId)) {
+          // Regenerate and edit act on an existing chat; a plain send starts a new one instead
+          if (body.action !== 'send') throw new NotFoundError('CHAT_NOT_FOUND', 'Chat not found');
+          chatId = null;
+        } else {
+          chat = c as ChatMembership;
+        }
+      }
+      if (!chatId) {
+        const { data: chatRow, error: chatErr } = await writer.from('chats').insert({ user_id: userId }).select(CHAT_MEMBERSHIP_COLUMNS).single();
+        if (chatErr || !chatRow?.id) throw fromDbError(chatErr, 'Failed to create chat');
+        chat = chatRow as ChatMembership;
+        chatId = chat.id;
+      }
+      const speakerLabels = chat ? speakerLabelsFor(chat) : undefined;
+
+      let content: string;
+      let userMessageId: string;
+      // Replies this request replaces; restored if generating the new one fails
+      let replacedReplyIds: string[] = [];
+      let variantCount = 1;
+
+      if (body.action === 'send') {
+        // Insert user message
+        const { data: userMsg, error: umErr } = await writer
+          .from('messages')
+          .insert({ chat_id: chatId, user_id: userId, role: 'user', content: body.content })
+          .select('id')
+          .single();
+        if (umErr || !userMsg?.id) throw fromDbError(umErr, 'Failed to store user message');
+        content = body.content;
+        userMessageId = userMsg.id as string;
+      } else {
+        const lastTurn = await loadLastTurn(supabase, chatId);
+        // Only the latest turn can be redone, and in joint sessions only by whoever wrote it
+        if (!lastTurn) throw new ConflictError('NOTHING_TO_REDO', 'Nothing to redo in this chat');
+        const { userMessage, after } = lastTurn;
+        if (userMessage.user_id !== userId) {
+          throw new ForbiddenError('NOT_MESSAGE_AUTHOR', 'Only the author of the last message can change it');
+        }
+        userMessageId = userMessage.id;
+
+        if (body.action === 'edit') {
+          if (body.messageId !== userMessage.id) throw new ConflictError('EDIT_NOT_LAST', 'Only your last message can be edited');
+          // Every reply to the old text goes, including inactive variants
+          const { error: delErr } = await writer
+            .from('messages')
+            .update({ deleted_at: new Date().toISOString() })
+            .eq('chat_id', chatId)
+            .is('deleted_at', null)
+            .gt('created_at', userMessage.created_at);
+          if (delErr) throw fromDbError(delErr);
+          // The edit trigger clears the old analysis and bumps the revision
+          const { error: editErr } = await writer.from('messages').update({ content: body.content }).eq('id', userMessageId);
+          if (editErr) throw fromDbError(editErr);
+          await invalidateSummaryCovering(writer, chatId, userMessage.created_at);
+          content = body.content;
+        } else {
+          const { count, error: countErr } = await supabase
+            .from('messages')
+            .select('id', { count: 'exact', head: true })
+            .eq('reply_to', userMessageId)
+            .is('deleted_at', null);
+          if (countErr) throw fromDbError(countErr);
+          // Replies stored before variants existed have no reply_to yet; they count as the first variant
+          const legacyReplies = after.filter((m) => m.role === 'assistant' && !m.reply_to).length;
+          variantCount = (count ?? 0) + legacyReplies + 1;
+          if (variantCount > MAX_REPLY_VARIANTS) {
+            throw new ConflictError('VARIANT_LIMIT', `At most ${MAX_REPLY_VARIANTS} versions of a reply are kept`);
+          }
+          if (legacyReplies) {
+            const { error: adoptErr } = await writer.rpc('adopt_legacy_replies', { p_message_id: userMessageId });
+            if (adoptErr) throw fromDbError(adoptErr);
+          }
+          // Hide the current reply so the new one is generated from the user message alone
+          replacedReplyIds = after.filter((m) => m.role === 'assistant').map((m) => m.id);
+          if (replacedReplyIds.length) {
+            const { error: hideErr } = await writer
+              .from('messages')
+              .update({ active_variant: false })
+              .in('id', replacedReplyIds);
+            if (hideErr) throw fromDbError(hideErr);
+          }
+          content = userMessage.content;
+        }
+      }
+
+      // Emotion analysis is a durable job: enqueued before replying, attempted right away when the
+      // service role is available, and otherwise (or if this invocation dies) run by the job worker.
+      // A regenerate keeps the message text, so its existing analysis stands.
+      if (body.action !== 'regenerate') {
+        try {
+          const jobId = await enqueueMessageAnalysis(writer, userMessageId);
+          if (service && jobId) {
+            runJobNow(service, jobId).catch((e) => log.error('inline analysis failed', { jobId, error: e }));
+          }
+        } catch (e) {
+          log.error('failed to enqueue analysis', { messageId: userMessageId, error: e });
+        }
+      }
+
+      // A failed regenerate brings the replaced reply back
+      const restoreReplacedReplies = async () => {
+        if (!replacedReplyIds.length) return;
+        const { error } = await writer.from('messages').update({ active_variant: true }).in('id', replacedReplyIds);
+        if (error) log.error('failed to restore replaced reply', { chatId, error });
+      };
+
+      // Stores the reply with the model and token usage that produced it, and counts it against the daily quota
+      const storeAssistantMessage = async (reply: string, replyModel: string, usage?: TokenUsage): Promise<string | null> => {
+        await recordUsage(writer, userId, usage);
+        const { data: asstMsg, error: amErr } = await writer
+          .from('messages')
+          .insert({
+            chat_id: chatId,
+            user_id: userId,
+            role: 'assistant',
+            content: reply,
+            reply_to: userMessageId,
+            model: replyModel,
+            prompt_tokens: usage?.promptTokens ?? null,
+            completion_tokens: usage?.completionTokens ?? null,
+          })
+          .select('id')
+          .single();
+        if (amErr) {
+          log.error('failed to store assistant message', { chatId, error: amErr });
+          await restoreReplacedReplies();
+        }
+        return (asstMsg?.id as string | undefined) ?? null;
+      };
+
+      // Safety screen runs on every user message before the counselor sees it (a regenerate repeats
+      // the screen for the same text but does not record the event twice)
+      const assessment = await assessSafety(content);
+      const safety = buildSafetyPayload(assessment, resolveLocale(req, locale));
+      if (safety && body.action !== 'regenerate') {
+        const { error: seErr } = await writer.from('safety_events').insert({
+          user_id: userId,
+          chat_id: chatId,
+          message_id: userMessageId,
+          severity: assessment.severity,
+          categories: assessment.categories,
+          source: assessment.source,
+          templated: safety.templated,
+        });
+        if (seErr) log.error('failed to record safety event', { chatId, error: seErr });
+      }
+
+      if (safety?.templated) {
+        // High risk: bypass the counselor model and reply with the fixed safety template
+        const reply = templatedSafetyReply(safety);
+        const assistantMessageId = await storeAssistantMessage(reply, 'safety-template');
+        const result = { action: body.action, reply, model: 'safety-template', chatId, userMessageId, assistantMessageId, variantCount, safety };
+        if (wantsEventStream(req, stream)) {
+          openEventStream(res);
+          sendEvent(res, 'safety', safety);
+          sendEvent(res, 'delta', { content: reply });
+          sendEvent(res, 'done', result);
+          res.end();
+          return;
+        }
+        send(result);
+        return;
+      }
+
+      // Build context: running summary of earlier turns plus the recent turns verbatim, within the model's budget
+      const basePrompt = `${COUNSELOR_SYSTEM_PROMPT}\n\n${EXERCISES_PROMPT}`;
+      const systemPrompt = speakerLabels ? `${basePrompt}\n\n${MEDIATOR_PROMPT_ADDENDUM}` : basePrompt;
+      const messages = await buildConversationContext(supabase, chatId, systemPrompt, counselModel, speakerLabels);
+      if (safety) {
+        // Moderate risk: the counselor still replies but must address safety and point to the resources shown
+        messages.push({
+          role: 'system' as const,
+          content: `Safety screen flagged possible risk (${safety.categories.join(', ') || 'unspecified'}). Validate, state your concern, and encourage reaching out to: ${safety.resources.map((r) => `${r.name} (${r.contact})`).join('; ')}.`,
+        });
+      }
+
+      // Titling a still untitled chat and folding turns that left the verbatim window into its
+      // summary are durable jobs too, queued before the response ends and run like the analysis
+      const enqueueFollowUps = async (assistantMessageId: string | null) => {
+        if (!assistantMessageId) return;
+        for (const kind of ['title_chat', 'summarize_chat'] as const) {
+          try {
+            const jobId = await enqueueChatJob(writer, kind, chatId as string, assistantMessageId);
+            if (service && jobId) {
+              runJobNow(service, jobId).catch((e) => log.error('inline chat job failed', { kind, jobId, error: e }));
+            }
+          } catch (e) {
+            log.error('failed to enqueue chat job', { kind, chatId, error: e });
+          }
+        }
+      };
+
+      if (wantsEventStream(req, stream)) {
+        // Streaming mode: emit token deltas as SSE, persist the full reply once complete
+        openEventStream(res);
+        if (safety) sendEvent(res, 'safety', safety);
+        let reply = '';
+        let replyModel = counselModel;
+        let usage: TokenUsage | undefined;
+        try {
+          for await (const chunk of llm.stream({ task: 'counsel', model: counselModel, messages, temperature: 0.7 })) {
+            if (chunk.model) replyModel = chunk.model;
+            if (chunk.usage) usage = chunk.usage;
+            const delta = chunk.delta;
+            if (!delta) continue;
+            reply += delta;
+            sendEvent(res, 'delta', { content: delta });
+          }
+        } catch (e) {
+          log.error('stream failed', { chatId, error: e });
+          await restoreReplacedReplies();
+          // Headers are already sent, so the error travels as an event with the usual error body
+          const failure = new UpstreamError('LLM_UNAVAILABLE', 'Failed to generate reply', { chatId, userMessageId });
+          sendEvent(res, 'error', failure.toBody(requestId));
+          res.end();
+          return;
+        }
+        const assistantMessageId = await storeAssistantMessage(reply, replyModel, usage);
+        await enqueueFollowUps(assistantMessageId);
+        sendEvent(res, 'done', {
+          action: body.action,
+          reply,
+          model: replyModel,
+          chatId,
+          userMessageId,
+          assistantMessageId,
+          variantCount,
+          safety,
+        });
+        res.end();
+        return;
+      }
+
+      let completion: Awaited<ReturnType<typeof llm.complete>>;
+      try {
+        completion = await llm.complete({ task: 'counsel', model: counselModel, messages, temperature: 0.7 });
+      } catch (e) {
+        log.error('completion failed', { chatId, error: e });
+        await restoreReplacedReplies();
+        throw new UpstreamError('LLM_UNAVAILABLE', 'Failed to generate reply', { chatId, userMessageId });
+      }
+      const reply = completion.content;
+
+      // Insert assistant message
+      const assistantMessageId = await storeAssistantMessage(reply, completion.model, completion.usage);
+      await enqueueFollowUps(assistantMessageId);
+
+      send({
+        action: body.action,
+        reply,
+        model: completion.model,
+        chatId,
+        userMessageId,
+        assistantMessageId,
+        variantCount,
+        safety,
+      });
+    }),
+});
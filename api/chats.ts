@@ -0,0 +1,162 @@
+import { z } from "zod";
+import { fromDbError, NotFoundError, ValidationError } from "./_lib/errors";
+import { body, defineRoute, endpoint, query, requireAuth } from "./_lib/http";
+import { createServiceRoleClient } from "./_lib/supabase";
+import { CHAT_TITLE_MAX_LENGTH } from "./_lib/chats";
+import { chatListItemSchema, chatSchema, okSchema } from "./_lib/schemas";
+
+const PREVIEW_LENGTH = 120;
+
+const createSchema = z.object({
+  title: z.string().trim().min(1).max(CHAT_TITLE_MAX_LENGTH).optional(),
+  kind: z.enum(["solo", "joint"]).default("solo"),
+});
+
+const updateSchema = z
+  .object({
+    title: z.string().trim().min(1).max(CHAT_TITLE_MAX_LENGTH).optional(),
+    archived: z.boolean().optional(),
+  })
+  .refine((v) => v.title !== undefined || v.archived !== undefined, {
+    message: "Nothing to update",
+  });
+
+const listQuerySchema = z.object({ archived: z.string().optional() });
+
+// PATCH and DELETE address a single chat via ?id=
+const idQuerySchema = z.object({ id: z.string().uuid() });
+
+const chatResponseSchema = z.object({ chat: chatSchema });
+
+type ChatRow = { id: string; title: string | null; kind: "solo" | "joint"; created_at: string; updated_at: string; archived_at?: string | null };
+
+// A row of public.list_chats
+type ChatListRow = {
+  id: string;
+  user_id: string;
+  kind: "solo" | "joint";
+  title: string | null;
+  created_at: string;
+  updated_at: string | null;
+  archived_at: string | null;
+  last_message: string | null;
+  last_message_role: string | null;
+  last_message_at: string | null;
+};
+
+function toOwnChat(row: ChatRow) {
+  return {
+    id: row.id,
+    title: row.title,
+    kind: row.kind,
+    isOwner: true,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    archivedAt: row.archived_at ?? null,
+  };
+}
+
+const authed = endpoint().use(requireAuth());
+
+export default defineRoute("chats", {
+  // GET: list chats with last message preview (?archived=true includes archived chats)
+  GET: authed
+    .doc({ operationId: "listChats", summary: "The caller's chats and joint sessions with a last message preview" })
+    .use(query(listQuerySchema))
+    .returns(z.object({ chats: z.array(chatListItemSchema) }))
+    .handle(async ({ send, supabase, userId, query }) => {
+      const { data, error } = await supabase.rpc("list_chats", { include_archived: query.archived === "true" });
+      if (error) throw fromDbError(error);
+      const chats = ((data ?? []) as ChatListRow[]).map((c) => ({
+        id: c.id,
+        title: c.title ?? null,
+        kind: c.kind,
+        isOwner: c.user_id === userId,
+        createdAt: c.created_at,
+        updatedAt: c.updated_at ?? c.created_at,
+        archivedAt: c.archived_at ?? null,
+        // The last_message_* columns come from the same message, so they are all set or all null
+        lastMessage:
+          c.last_message !== null
+            ? {
+                role: c.last_message_role!,
+                preview: c.last_message.slice(0, PREVIEW_LENGTH),
+                createdAt: c.last_message_at!,
+              }
+            : null,
+      }));
+      send({ chats });
+    }),
+
+  POST: authed
+    .doc({ operationId: "createChat", summary: "Start a chat, or a joint session with the linked partner" })
+    .use(body(createSchema))
+    .returns(chatResponseSchema, [201])
+    .handle(async ({ send, supabase, userId, body }) => {
+      const { title, kind } = body;
+      const service = createServiceRoleClient();
+      const writer = service ?? supabase;
+
+      // Joint sessions are shared with the caller's linked partner
+      let partnerUserId: string | null = null;
+      if (kind === "joint") {
+        const { data: status, error: statusErr } = await supabase.rpc("partner_sharing_status").maybeSingle();
+        if (statusErr) throw fromDbError(statusErr);
+        const link = status as { partner_id: string | null; linked: boolean } | null;
+        partnerUserId = link?.partner_id ?? null;
+        if (!partnerUserId) throw new ValidationError("PARTNER_NOT_LINKED", "Link a partner before starting a joint session");
+        // The partner's side must point back; a one-sided link is not consent to share a chat.
+        // The insert policy checks the same, but the service role writer bypasses it
+        if (!link?.linked) throw new ValidationError("PARTNER_LINK_PENDING", "Partner has not linked back yet");
+      }
+
+      const { data, error } = await writer
+        .from("chats")
+        .insert({ user_id: userId, title: title ?? null, kind, partner_user_id: partnerUserId })
+        .select("id,title,kind,created_at,updated_at")
+        .single();
+      if (error || !data) throw fromDbError(error, "Failed to create chat");
+      send({ chat: toOwnChat(data as ChatRow) });
+    }),
+
+  // Only the creator may rename, archive or delete (a joint session's partner can read and post).
+  // RLS enforces this too; the explicit user_id filter turns someone else's chat into a 404
+  PATCH: authed
+    .doc({ operationId: "updateChat", summary: "Rename or archive a chat" })
+    .use(query(idQuerySchema))
+    .use(body(updateSchema))
+    .returns(chatResponseSchema)
+    .handle(async ({ send, supabase, userId, query, body }) => {
+      const patch: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (body.title !== undefined) patch.title = body.title;
+      if (body.archived !== undefined) patch.archived_at = body.archived ? new Date().toISOString() : null;
+      const { data, error } = await supabase
+        .from("chats")
+        .update(patch)
+        .eq("id", query.id)
+        .eq("user_id", userId)
+        .select("id,title,kind,created_at,updated_at,archived_at")
+        .maybeSingle();
+      if (error) throw fromDbError(error);
+      if (!data) throw new NotFoundError("CHAT_NOT_FOUND", "Chat not found");
+      send({ chat: toOwnChat(data as ChatRow) });
+    }),
+
+  DELETE: authed
+    .doc({ operationId: "deleteChat", summary: "Delete a chat with its messages" })
+    .use(query(idQuerySchema))
+    .returns(okSchema)
+    .handle(async ({ send, supabase, userId, query }) => {
+      // messages and safety_events cascade from chats
+      const { data, error } = await supabase
+        .from("chats")
+        .delete()
+        .eq("id", query.id)
+        .eq("user_id", userId)
+        .select("id")
+        .maybeSingle();
+      if (error) throw fromDbError(error);
+      if (!data) throw new NotFoundError("CHAT_NOT_FOUND", "Chat not found");
+      send({ ok: true });
+    }),
+});
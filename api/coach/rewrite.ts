@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { ForbiddenError, fromDbError, UpstreamError, ValidationError } from "../_lib/errors";
+import { body, defineRoute, endpoint, requireAuth } from "../_lib/http";
+import { createServiceRoleClient } from "../_lib/supabase";
+import { analyzeEmotions, fallbackEmotionAnalysis, type EmotionAnalysis } from "../_lib/analysis";
+import { detectPatterns, generateRewrites, toStyleProfile, type StyleProfile } from "../_lib/coach";
+import { getDefaultTest, type TestDefinition } from "../_lib/questions";
+import { toHistoricalResult, type ResultRow } from "../_lib/progress";
+import { assessSafety, buildSafetyPayload, resolveLocale } from "../_lib/safety";
+import { allowedModels, ipRateLimit, planLimits, recordUsage, resolveModel } from "../_lib/limits";
+import { emotionAnalysisSchema, flaggedPatternSchema, rewriteSchema, safetyPayloadSchema } from "../_lib/schemas";
+import { createLogger } from "../_lib/logger";
+
+const log = createLogger("coach/rewrite");
+
+const bodySchema = z.object({
+  draft: z.string().trim().min(1).max(2000),
+  // Addressed to the linked partner: their shared communication style tunes the rewrites
+  toPartner: z.boolean().default(false),
+  model: z.string().optional(),
+  locale: z.string().optional(),
+});
+
+const styleSummarySchema = z.object({ primary: z.string(), secondary: z.string() }).nullable();
+
+const responseSchema = z.object({
+  // Null when the safety screen took over or the analysis was unusable
+  analysis: emotionAnalysisSchema.nullable(),
+  patterns: z.array(flaggedPatternSchema),
+  rewrites: z.array(rewriteSchema),
+  model: z.string().optional(),
+  fallback: z.literal(true).optional(),
+  basedOn: z.object({ yourStyle: styleSummarySchema, partnerStyle: styleSummarySchema }).optional(),
+  safety: safetyPayloadSchema.nullable(),
+});
+
+// Both sides read the stored result the same way, rescoring only rows from before the scoring engine
+function styleOf(test: TestDefinition, row: ResultRow | null): StyleProfile | null {
+  return row ? toStyleProfile(test, toHistoricalResult(row).dimensions) : null;
+}
+
+// Drafts are never stored; only usage is counted against the daily quota
+export default defineRoute("coach/rewrite", {
+  POST: endpoint()
+    .doc({ operationId: "rewriteDraft", summary: "Flag harmful patterns in a draft and suggest softer rewrites" })
+    .use(body(bodySchema))
+    .use(ipRateLimit())
+    .use(requireAuth())
+    .use(planLimits())
+    .returns(responseSchema)
+    .handle(async ({ req, send, supabase, userId, limits, body }) => {
+      const { draft, toPartner, model, locale } = body;
+      const coachModel = resolveModel(limits, "coach", model);
+      if (!coachModel) {
+        throw new ForbiddenError("MODEL_NOT_ALLOWED", "Model not available on your plan", {
+          allowedModels: allowedModels(limits, "coach"),
+        });
+      }
+
+      // Threats or crisis language are not something to polish; surface resources instead
+      const assessment = await assessSafety(draft);
+      const safety = buildSafetyPayload(assessment, resolveLocale(req, locale));
+      if (safety?.templated) {
+        return send({ analysis: null, patterns: [], rewrites: [], safety });
+      }
+
+      // Styles come from the communication assessment, the one the style labels are written for
+      const test = getDefaultTest();
+      const { data: ownRow, error: ownErr } = await supabase
+        .from("test_results")
+        .select("id,test_id,answers,score,percentile,summary,result,created_at")
+        .eq("user_id", userId)
+        .eq("test_id", test.id)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (ownErr) throw fromDbError(ownErr);
+      const style = styleOf(test, ownRow as ResultRow | null);
+
+      let partnerStyle: StyleProfile | null = null;
+      if (toPartner) {
+        const { data: profile, error: profileErr } = await supabase
+          .from("profiles")
+          .select("partner_id")
+          .eq("user_id", userId)
+          .maybeSingle();
+        if (profileErr) throw fromDbError(profileErr);
+        if (!profile?.partner_id) throw new ValidationError("PARTNER_NOT_LINKED", "Link with your partner to address them");
+        // Only returns a row when both partners share test results
+        const { data: theirs, error: theirsErr } = await supabase
+          .rpc("get_partner_test_result", { p_test_id: test.id })
+          .maybeSingle();
+        if (theirsErr) throw fromDbError(theirsErr);
+        // The partner's written summary is not shared, only what it was scored from
+        const partnerRow = theirs as Omit<ResultRow, "summary"> | null;
+        partnerStyle = styleOf(test, partnerRow ? { ...partnerRow, summary: null } : null);
+      }
+
+      // The analysis only sharpens the pattern flags, so rewrites go ahead without it
+      let analysis: EmotionAnalysis;
+      try {
+        analysis = await analyzeEmotions([{ role: "user", content: draft }]);
+      } catch (e) {
+        log.error("draft analysis failed", { error: e });
+        analysis = fallbackEmotionAnalysis();
+      }
+      const patterns = detectPatterns(draft, analysis);
+
+      let coached: Awaited<ReturnType<typeof generateRewrites>>;
+      try {
+        coached = await generateRewrites(draft, { patterns, analysis, style, partnerStyle, toPartner, model: coachModel });
+      } catch (e) {
+        log.error("rewrite failed", { error: e });
+        throw new UpstreamError("LLM_UNAVAILABLE", "Failed to generate rewrites");
+      }
+      await recordUsage(createServiceRoleClient() ?? supabase, userId, coached.usage);
+
+      send({
+        analysis: analysis.fallback ? null : analysis,
+        patterns,
+        rewrites: coached.rewrites,
+        model: coached.model,
+        ...(coached.fallback ? { fallback: true } : {}),
+        basedOn: {
+          yourStyle: style ? { primary: style.primary, secondary: style.secondary } : null,
+          partnerStyle: partnerStyle ? { primary: partnerStyle.primary, secondary: partnerStyle.secondary } : null,
+        },
+        safety,
+      });
+    }),
+});
@@ -0,0 +1,39 @@
+import type { VercelRequest } from "@vercel/node";
+import { timingSafeEqual } from "node:crypto";
+import { AuthenticationError, InternalError } from "../_lib/errors";
+import { defineRoute, endpoint, type Middleware, type RequestContext } from "../_lib/http";
+import { createServiceRoleClient } from "../_lib/supabase";
+import { runWorker } from "../_lib/jobs";
+
+// Vercel Cron calls this with `Authorization: Bearer $CRON_SECRET` (see vercel.json "crons")
+function isAuthorized(req: VercelRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = req.headers["authorization"];
+  if (!secret || typeof header !== "string") return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+const requireCronSecret: Middleware<RequestContext, object> = ({ req }) => {
+  if (!isAuthorized(req)) throw new AuthenticationError("UNAUTHORIZED", "Unauthorized");
+  return {};
+};
+
+// Only the platform calls this, so it stays out of the OpenAPI document and the client
+const runJobs = endpoint()
+  .doc({ hidden: true })
+  .use(requireCronSecret)
+  .handle(async ({ res }) => {
+    const service = createServiceRoleClient();
+    if (!service) throw new InternalError("SERVER_MISCONFIGURED", "SUPABASE_SERVICE_ROLE_KEY is required to run jobs");
+
+    try {
+      const stats = await runWorker(service);
+      res.status(200).json({ ok: true, ...stats });
+    } catch (e) {
+      throw new InternalError("INTERNAL", "Worker failed", e);
+    }
+  });
+
+export default defineRoute("cron/jobs", { GET: runJobs, POST: runJobs });
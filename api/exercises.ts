@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { NotFoundError } from "./_lib/errors";
+import { defineRoute, endpoint, query } from "./_lib/http";
+import { getExerciseDefinition, listExercises, toPublicStep } from "./_lib/exercises";
+import { exerciseCatalogEntrySchema, exerciseSchema } from "./_lib/schemas";
+
+const querySchema = z.object({
+  id: z.string().min(1).optional(),
+  category: z.string().optional(),
+});
+
+// GET: exercise catalog (?category= filters), or ?id= one exercise with its steps.
+// Runs happen through /api/exercises/sessions, which owns the step transitions.
+export default defineRoute("exercises", {
+  GET: endpoint()
+    .doc({ operationId: "getExercises", summary: "Exercise catalog, or one exercise with its steps" })
+    .use(query(querySchema))
+    .returns(z.union([z.object({ exercise: exerciseSchema }), z.object({ exercises: z.array(exerciseCatalogEntrySchema) })]))
+    .handle(async ({ send, query }) => {
+      if (query.id) {
+        const exercise = getExerciseDefinition(query.id);
+        if (!exercise) throw new NotFoundError("EXERCISE_NOT_FOUND", "Exercise not found");
+        const { complete: _complete, steps, ...rest } = exercise;
+        return send({ exercise: { ...rest, steps: steps.map(toPublicStep) } });
+      }
+
+      const exercises = listExercises().filter((e) => !query.category || e.category === query.category);
+      send({ exercises });
+    }),
+});
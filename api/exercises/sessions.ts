@@ -0,0 +1,215 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { ConflictError, fromDbError, NotFoundError, ValidationError } from "../_lib/errors";
+import { body, defineRoute, endpoint, query, requireAuth } from "../_lib/http";
+import {
+  advance,
+  completeExercise,
+  getExerciseDefinition,
+  getStep,
+  goBack,
+  startState,
+  toPublicStep,
+  type ExerciseDefinition,
+  type ExerciseInputs,
+  type ExerciseOutput,
+  type ExerciseState,
+} from "../_lib/exercises";
+import { exerciseSessionSchema, okSchema } from "../_lib/schemas";
+
+const SESSION_COLUMNS =
+  "id,exercise_id,exercise_version,chat_id,status,current_step,path,inputs,output,started_at,updated_at,completed_at";
+
+const HISTORY_LIMIT = 50;
+
+const valueSchema = z.union([z.number(), z.string().max(4000), z.array(z.string().max(100)).max(20)]);
+
+const actionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("start"), exerciseId: z.string().min(1), chatId: z.string().uuid().optional() }),
+  // `value` may be left out only for optional steps
+  z.object({ action: z.literal("answer"), sessionId: z.string().uuid(), stepId: z.string().min(1), value: valueSchema.optional() }),
+  z.object({ action: z.literal("back"), sessionId: z.string().uuid() }),
+]);
+
+const listQuerySchema = z.object({
+  id: z.string().optional(),
+  status: z.enum(["in_progress", "completed", "abandoned"]).optional(),
+  exercise_id: z.string().optional(),
+  chat_id: z.string().uuid().optional(),
+});
+
+const idQuerySchema = z.object({ id: z.string().min(1) });
+
+const sessionResponseSchema = z.object({ session: exerciseSessionSchema });
+
+type SessionRow = {
+  id: string;
+  exercise_id: string;
+  exercise_version: number;
+  chat_id: string | null;
+  status: "in_progress" | "completed" | "abandoned";
+  current_step: string | null;
+  path: string[];
+  inputs: ExerciseInputs;
+  output: ExerciseOutput | null;
+  started_at: string;
+  updated_at: string;
+  completed_at: string | null;
+};
+
+function toSession(row: SessionRow, exercise: ExerciseDefinition | null) {
+  const step = exercise && row.status === "in_progress" ? getStep(exercise, row.current_step) : null;
+  return {
+    id: row.id,
+    exerciseId: row.exercise_id,
+    exerciseVersion: row.exercise_version,
+    title: exercise?.title ?? null,
+    // The exercise changed since this run started; it can be viewed but not continued
+    stale: !exercise || exercise.version !== row.exercise_version,
+    chatId: row.chat_id,
+    status: row.status,
+    step: step ? toPublicStep(step) : null,
+    // Branches make the total vary, so progress is counted in answered steps
+    answeredSteps: row.path.length,
+    canGoBack: row.status === "in_progress" && row.path.length > 0,
+    inputs: row.inputs,
+    output: row.output,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at,
+  };
+}
+
+async function loadSession(supabase: SupabaseClient, userId: string, id: string) {
+  const { data, error } = await supabase
+    .from("exercise_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return { row: (data as SessionRow | null) ?? null, error };
+}
+
+const authed = endpoint().use(requireAuth());
+
+export default defineRoute("exercises/sessions", {
+  // GET ?id= one session, otherwise the caller's history (newest first, optionally filtered)
+  GET: authed
+    .doc({ operationId: "listExerciseSessions", summary: "One session, or the caller's history" })
+    .use(query(listQuerySchema))
+    .returns(z.union([sessionResponseSchema, z.object({ sessions: z.array(exerciseSessionSchema) })]))
+    .handle(async ({ send, supabase, userId, query: params }) => {
+      if (params.id) {
+        const { row, error } = await loadSession(supabase, userId, params.id);
+        if (error) throw fromDbError(error);
+        if (!row) throw new NotFoundError("SESSION_NOT_FOUND", "Session not found");
+        return send({ session: toSession(row, getExerciseDefinition(row.exercise_id)) });
+      }
+
+      const { status, exercise_id: exerciseId, chat_id: chatId } = params;
+      let query = supabase
+        .from("exercise_sessions")
+        .select(SESSION_COLUMNS)
+        .eq("user_id", userId)
+        .order("updated_at", { ascending: false })
+        .limit(HISTORY_LIMIT);
+      if (status) query = query.eq("status", status);
+      if (exerciseId) query = query.eq("exercise_id", exerciseId);
+      if (chatId) query = query.eq("chat_id", chatId);
+      const { data, error } = await query;
+      if (error) throw fromDbError(error);
+      const sessions = ((data ?? []) as SessionRow[]).map((row) => toSession(row, getExerciseDefinition(row.exercise_id)));
+      send({ sessions });
+    }),
+
+  POST: authed
+    .doc({ operationId: "exerciseSessionAction", summary: "Start a session, answer its current step, or go back one" })
+    .use(body(actionSchema))
+    .returns(sessionResponseSchema, [200, 201])
+    .handle(async ({ send, supabase, userId, body }) => {
+      if (body.action === "start") {
+        const exercise = getExerciseDefinition(body.exerciseId);
+        if (!exercise) throw new NotFoundError("EXERCISE_NOT_FOUND", "Exercise not found");
+        const state = startState(exercise);
+        // The insert policy rejects chats the caller is not a member of
+        const { data, error } = await supabase
+          .from("exercise_sessions")
+          .insert({
+            user_id: userId,
+            exercise_id: exercise.id,
+            exercise_version: exercise.version,
+            chat_id: body.chatId ?? null,
+            current_step: state.currentStep,
+            path: state.path,
+            inputs: state.inputs,
+          })
+          .select(SESSION_COLUMNS)
+          .single();
+        if (error || !data) throw fromDbError(error, "Failed to start exercise");
+        return send({ session: toSession(data as SessionRow, exercise) }, 201);
+      }
+
+      const { row, error: loadErr } = await loadSession(supabase, userId, body.sessionId);
+      if (loadErr) throw fromDbError(loadErr);
+      if (!row) throw new NotFoundError("SESSION_NOT_FOUND", "Session not found");
+      if (row.status !== "in_progress") {
+        throw new ConflictError("SESSION_CLOSED", `Session is ${row.status.replace("_", " ")}`);
+      }
+      const exercise = getExerciseDefinition(row.exercise_id);
+      if (!exercise || exercise.version !== row.exercise_version) {
+        throw new ConflictError("EXERCISE_CHANGED", "This exercise has changed since the session started; start a new one");
+      }
+
+      const state: ExerciseState = { currentStep: row.current_step, path: row.path, inputs: row.inputs };
+      let next: ExerciseState;
+      if (body.action === "back") {
+        const previous = goBack(state);
+        if (!previous) throw new ConflictError("AT_FIRST_STEP", "Already at the first step");
+        next = previous;
+      } else {
+        const result = advance(exercise, state, body.stepId, body.value);
+        if ("error" in result) throw new ValidationError("STEP_INVALID", result.error);
+        next = result.state;
+      }
+
+      const now = new Date().toISOString();
+      const finished = next.currentStep === null;
+      const patch: Record<string, unknown> = {
+        current_step: next.currentStep,
+        path: next.path,
+        inputs: next.inputs,
+        updated_at: now,
+      };
+      if (finished) {
+        patch.status = "completed";
+        patch.output = completeExercise(exercise, next);
+        patch.completed_at = now;
+      }
+      // Guarded on the step the client answered so a double-tap cannot apply twice
+      let update = supabase.from("exercise_sessions").update(patch).eq("id", row.id).eq("status", "in_progress");
+      update = row.current_step ? update.eq("current_step", row.current_step) : update.is("current_step", null);
+      const { data, error } = await update.select(SESSION_COLUMNS).maybeSingle();
+      if (error) throw fromDbError(error);
+      if (!data) throw new ConflictError("CONCURRENT_UPDATE", "Session changed in the meantime; reload it");
+      send({ session: toSession(data as SessionRow, exercise) });
+    }),
+
+  // DELETE ?id= abandons an unfinished session
+  DELETE: authed
+    .doc({ operationId: "abandonExerciseSession", summary: "Abandon an unfinished session" })
+    .use(query(idQuerySchema))
+    .returns(okSchema)
+    .handle(async ({ send, supabase, userId, query }) => {
+      const { data, error } = await supabase
+        .from("exercise_sessions")
+        .update({ status: "abandoned", updated_at: new Date().toISOString() })
+        .eq("id", query.id)
+        .eq("user_id", userId)
+        .eq("status", "in_progress")
+        .select("id")
+        .maybeSingle();
+      if (error) throw fromDbError(error);
+      if (!data) throw new NotFoundError("SESSION_NOT_FOUND", "No unfinished session with that id");
+      send({ ok: true });
+    }),
+});
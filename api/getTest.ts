@@ -1,25 +1,29 @@
-import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { handleCors } from "./_lib/cors";
+import { z } from "zod";
+import { NotFoundError } from "./_lib/errors";
+import { body, defineRoute, endpoint, query } from "./_lib/http";
 import { getDefaultTest, getTestDefinition } from "./_lib/questions";
+import { testDefinitionSchema } from "./_lib/schemas";
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (handleCors(req, res)) return;
-  const method = req.method || "GET";
-  if (method !== "GET" && method !== "POST") {
-    res.status(405).json({ error: "Method not allowed" });
-    return;
-  }
+const selectorSchema = z.object({ testId: z.string().min(1).optional() });
 
-  const testId =
-    (method === "GET" ? (req.query.testId as string | undefined) : undefined) ||
-    (typeof req.body?.testId === "string" ? req.body.testId : undefined) ||
-    undefined;
+const responseSchema = z.object({ test: testDefinitionSchema });
 
+// Without a testId, the default communication test
+function findTest(testId: string | undefined) {
   const test = testId ? getTestDefinition(testId) : getDefaultTest();
-  if (!test) {
-    res.status(404).json({ error: "Test not found" });
-    return;
-  }
-  res.status(200).json({ test });
+  if (!test) throw new NotFoundError("TEST_NOT_FOUND", "Test not found");
+  return test;
 }
 
+export default defineRoute("getTest", {
+  GET: endpoint()
+    .doc({ operationId: "getTest", summary: "One test definition with its questions" })
+    .use(query(selectorSchema))
+    .returns(responseSchema)
+    .handle(async ({ send, query }) => send({ test: findTest(query.testId) })),
+  POST: endpoint()
+    .doc({ operationId: "getTestByBody", summary: "Same as GET, with the selector in the body" })
+    .use(body(selectorSchema))
+    .returns(responseSchema)
+    .handle(async ({ send, body }) => send({ test: findTest(body.testId) })),
+});
@@ -0,0 +1,120 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { z } from "zod";
+import { ForbiddenError, fromDbError, ValidationError } from "../_lib/errors";
+import { defineRoute, endpoint, query, requireAuth } from "../_lib/http";
+import { assertTimeZone, buildEmotionTrends, type AnalysisPoint } from "../_lib/emotionTrends";
+import { emotionTrendsSchema } from "../_lib/schemas";
+
+// Keeps one request's aggregation bounded. Rows are read newest first so a capped range loses its
+// oldest days, not the recent ones the trend is for
+const MAX_ROWS = 5000;
+// PostgREST returns at most max_rows (1000 by default) per response, so reads page up to the cap
+const PAGE_SIZE = 1000;
+
+type Page<T> = PromiseLike<{ data: T[] | null; error: PostgrestError | null }>;
+
+// Reads a page at a time until a short page or one row past MAX_ROWS, which tells a cut range
+// from one that fits exactly
+async function readCapped<T>(page: (from: number, to: number) => Page<T>): Promise<{ rows: T[]; truncated: boolean }> {
+  const rows: T[] = [];
+  while (rows.length <= MAX_ROWS) {
+    const from = rows.length;
+    const to = Math.min(from + PAGE_SIZE, MAX_ROWS + 1) - 1;
+    const { data, error } = await page(from, to);
+    if (error) throw fromDbError(error);
+    const batch = data ?? [];
+    rows.push(...batch);
+    if (batch.length < to - from + 1) break;
+  }
+  return { rows: rows.slice(0, MAX_ROWS), truncated: rows.length > MAX_ROWS };
+}
+
+const querySchema = z.object({
+  subject: z.enum(["self", "partner"]).default("self"),
+  days: z.coerce.number().int().min(1).max(180).default(30),
+  window: z.coerce.number().int().min(1).max(30).default(7),
+  chat_id: z.string().uuid().optional(),
+  tz: z
+    .string()
+    .default("UTC")
+    .refine((tz) => {
+      try {
+        assertTimeZone(tz);
+        return true;
+      } catch {
+        return false;
+      }
+    }, "Unknown time zone"),
+});
+
+export default defineRoute("insights/emotions", {
+  GET: endpoint()
+    .doc({ operationId: "getEmotionTrends", summary: "Daily emotion averages, spikes and hours for the caller or their partner" })
+    .use(requireAuth())
+    .use(query(querySchema))
+    .returns(emotionTrendsSchema)
+    .handle(async ({ send, supabase, userId, query: { subject, days, window, chat_id: chatId, tz } }) => {
+      const since = new Date(Date.now() - days * 86_400_000).toISOString();
+
+      let rows: AnalysisPoint[];
+      let truncated: boolean;
+      let chatTitles: Record<string, string | null> = {};
+
+      if (subject === "partner") {
+        // Partner data never includes chat ids or titles, so per-chat series and the chat filter do not apply
+        const { data: status, error: statusErr } = await supabase.rpc("partner_sharing_status").maybeSingle();
+        if (statusErr) throw fromDbError(statusErr);
+        const sharing = status as
+          | { partner_id: string | null; linked: boolean; self_emotion_sharing: boolean; partner_emotion_sharing: boolean }
+          | null;
+        if (!sharing?.partner_id || !sharing.linked) {
+          throw new ValidationError("PARTNER_NOT_LINKED", "Link with your partner to see their trends");
+        }
+        if (!sharing.self_emotion_sharing || !sharing.partner_emotion_sharing) {
+          throw new ForbiddenError("SHARING_DISABLED", "Both partners must opt in to sharing emotion trends", {
+            sharing: { you: sharing.self_emotion_sharing, partner: sharing.partner_emotion_sharing },
+          });
+        }
+        const read = await readCapped<{ analysis: unknown; created_at: string }>((from, to) =>
+          supabase.rpc("get_partner_emotion_analyses", { p_since: since }).range(from, to)
+        );
+        rows = read.rows.map((r) => ({ chatId: null, createdAt: r.created_at, analysis: r.analysis }));
+        truncated = read.truncated;
+      } else {
+        const read = await readCapped<{ chat_id: string; analysis: unknown; created_at: string }>((from, to) => {
+          let query = supabase
+            .from("messages")
+            .select("chat_id,analysis,created_at")
+            .eq("user_id", userId)
+            .eq("role", "user")
+            .not("analysis", "is", null)
+            .is("deleted_at", null)
+            .gte("created_at", since);
+          if (chatId) query = query.eq("chat_id", chatId);
+          // id breaks ties between messages stored in the same instant, so pages do not overlap
+          return query.order("created_at", { ascending: false }).order("id", { ascending: false }).range(from, to);
+        });
+        rows = read.rows.map((r) => ({ chatId: r.chat_id, createdAt: r.created_at, analysis: r.analysis }));
+        truncated = read.truncated;
+
+        const ids = [...new Set(rows.map((r) => r.chatId).filter((id): id is string => !!id))];
+        if (ids.length > 0) {
+          const { data: chats, error: chatsErr } = await supabase.from("chats").select("id,title").in("id", ids);
+          if (chatsErr) throw fromDbError(chatsErr);
+          chatTitles = Object.fromEntries((chats ?? []).map((c) => [c.id as string, (c.title as string | null) ?? null]));
+        }
+      }
+
+      const trends = buildEmotionTrends(rows, { timeZone: tz, windowDays: window });
+      send({
+        subject,
+        range: { from: since, to: new Date().toISOString(), days },
+        timeZone: tz,
+        window,
+        messageCount: rows.length,
+        truncated,
+        ...trends,
+        chats: trends.chats.map((c) => ({ ...c, title: chatTitles[c.chatId] ?? null })),
+      });
+    }),
+});
@@ -0,0 +1,112 @@
+import { z } from "zod";
+import {
+  body,
+  defineRoute,
+  endpoint,
+  query,
+  requireAuth,
+  type AuthContext,
+  type Middleware,
+  type RequestContext,
+} from "./_lib/http";
+import { fromDbError, NotFoundError, ValidationError } from "./_lib/errors";
+import { createServiceRoleClient } from "./_lib/supabase";
+import { invalidateSummaryCovering } from "./_lib/memory";
+import { okSchema } from "./_lib/schemas";
+import { createLogger } from "./_lib/logger";
+
+const log = createLogger("messages");
+
+// Editing and regenerating go through /api/chat, which produces the new reply
+const updateSchema = z.object({ activeVariant: z.literal(true) });
+
+const idQuerySchema = z.object({ id: z.string().uuid() });
+
+const MESSAGE_COLUMNS = "id,chat_id,user_id,role,reply_to,active_variant,created_at";
+
+type MessageRow = {
+  id: string;
+  chat_id: string;
+  user_id: string | null;
+  role: "user" | "assistant" | "system";
+  reply_to: string | null;
+  active_variant: boolean;
+  created_at: string;
+};
+
+type MessageIdContext = RequestContext & AuthContext & { query: { id: string } };
+
+// RLS limits reads to chat members; changes are limited to the message's author (replies are
+// stored under the id of whoever asked), so a partner's message is a 404 here too
+const loadOwnMessage: Middleware<MessageIdContext, { message: MessageRow }> = async ({ supabase, userId, query }) => {
+  const { data: row, error } = await supabase
+    .from("messages")
+    .select(MESSAGE_COLUMNS)
+    .eq("id", query.id)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) throw fromDbError(error);
+  const message = row as MessageRow | null;
+  if (!message || message.user_id !== userId) throw new NotFoundError("MESSAGE_NOT_FOUND", "Message not found");
+  return { message };
+};
+
+const ownMessage = endpoint().use(requireAuth()).use(query(idQuerySchema)).use(loadOwnMessage);
+
+export default defineRoute("messages", {
+  // PATCH: show this reply variant instead of its siblings
+  PATCH: ownMessage
+    .doc({ operationId: "selectReplyVariant", summary: "Show this reply variant instead of its siblings" })
+    .use(body(updateSchema))
+    .returns(okSchema.extend({ messageId: z.string(), replyTo: z.string() }))
+    .handle(async ({ send, supabase, message }) => {
+      if (message.role !== "assistant" || !message.reply_to) {
+        throw new ValidationError("NOT_A_VARIANT", "Only reply variants can be selected");
+      }
+      const { error } = await supabase.rpc("select_message_variant", { p_message_id: message.id });
+      if (error) throw fromDbError(error);
+      send({ ok: true, messageId: message.id, replyTo: message.reply_to });
+    }),
+
+  // DELETE: soft delete. A user message takes its replies with it; deleting the visible reply
+  // variant promotes the most recent remaining one.
+  DELETE: ownMessage
+    .doc({ operationId: "deleteMessage", summary: "Soft-delete a message" })
+    .returns(okSchema)
+    .handle(async ({ send, supabase, message }) => {
+      const deletedAt = new Date().toISOString();
+      if (message.role === "user") {
+        // Replies stored before variants existed have no reply_to; file them under this message first
+        const { error: adoptErr } = await supabase.rpc("adopt_legacy_replies", { p_message_id: message.id });
+        if (adoptErr) throw fromDbError(adoptErr);
+      }
+      const { error } = await supabase.from("messages").update({ deleted_at: deletedAt }).eq("id", message.id);
+      if (error) throw fromDbError(error);
+
+      if (message.role === "user") {
+        const { error: repliesErr } = await supabase
+          .from("messages")
+          .update({ deleted_at: deletedAt })
+          .eq("reply_to", message.id)
+          .is("deleted_at", null);
+        if (repliesErr) throw fromDbError(repliesErr);
+      } else if (message.role === "assistant" && message.reply_to && message.active_variant) {
+        const { data: next } = await supabase
+          .from("messages")
+          .select("id")
+          .eq("reply_to", message.reply_to)
+          .is("deleted_at", null)
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (next?.id) {
+          const { error: promoteErr } = await supabase.rpc("select_message_variant", { p_message_id: next.id });
+          if (promoteErr) log.error("failed to promote reply variant", { messageId: next.id, error: promoteErr });
+        }
+      }
+
+      // Only the chat owner can write chats through RLS, so a joint partner needs the service role here
+      await invalidateSummaryCovering(createServiceRoleClient() ?? supabase, message.chat_id, message.created_at);
+      send({ ok: true });
+    }),
+});
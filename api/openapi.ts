@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { defineRoute, endpoint } from "./_lib/http";
+import { buildOpenApiDocument } from "./_lib/openapi";
+
+// Loading every route to build it is not free, so each instance builds the document once
+let document: Promise<Record<string, unknown>> | null = null;
+
+// Served as /api/openapi.json too (see "rewrites" in vercel.json)
+export default defineRoute("openapi", {
+  GET: endpoint()
+    .doc({ operationId: "getOpenApiDocument", summary: "This document" })
+    .returns(z.record(z.unknown()))
+    .handle(async ({ send }) => {
+      document ??= buildOpenApiDocument();
+      send(await document);
+    }),
+});
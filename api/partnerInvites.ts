@@ -0,0 +1,145 @@
+import { randomInt } from "node:crypto";
+import { z } from "zod";
+import { ConflictError, fromDbError } from "./_lib/errors";
+import { body, defineRoute, endpoint, query, requireAuth } from "./_lib/http";
+import { okSchema, partnerInviteSchema } from "./_lib/schemas";
+
+// No 0/O/1/I so codes survive being read aloud or typed from a screenshot
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+const DEFAULT_TTL_MINUTES = 60 * 24;
+const MAX_TTL_MINUTES = 60 * 24 * 7;
+
+const actionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("create"),
+    ttlMinutes: z.number().int().min(5).max(MAX_TTL_MINUTES).optional(),
+  }),
+  z.object({ action: z.literal("accept"), code: z.string().trim().min(4).max(32) }),
+  z.object({ action: z.literal("decline"), code: z.string().trim().min(4).max(32) }),
+]);
+
+function generateCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  return code;
+}
+
+function deepLinkFor(code: string): string {
+  const base = process.env.PARTNER_INVITE_LINK_BASE || "app://invite";
+  return `${base}?code=${code}`;
+}
+
+type InviteStatus = z.infer<typeof partnerInviteSchema>["status"];
+
+const INVITE_COLUMNS = "id,code,status,expires_at,created_at,responded_at";
+
+type InviteRow = {
+  id: string;
+  code: string;
+  status: InviteStatus;
+  expires_at: string;
+  created_at: string;
+  responded_at: string | null;
+};
+
+function toInvite(row: InviteRow) {
+  const expired = row.status === "pending" && new Date(row.expires_at).getTime() <= Date.now();
+  return {
+    id: row.id,
+    code: row.code,
+    status: expired ? "expired" : row.status,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+    respondedAt: row.responded_at ?? null,
+    deepLink: deepLinkFor(row.code),
+  };
+}
+
+const revokeQuerySchema = z.object({ id: z.string().optional() });
+
+const authed = endpoint().use(requireAuth());
+
+export default defineRoute("partnerInvites", {
+  // GET: the caller's own invites, newest first
+  GET: authed
+    .doc({ operationId: "listInvites", summary: "The caller's own invites, newest first" })
+    .returns(z.object({ invites: z.array(partnerInviteSchema) }))
+    .handle(async ({ send, supabase, userId }) => {
+      const { data, error } = await supabase
+        .from("partner_invites")
+        .select(INVITE_COLUMNS)
+        .eq("inviter_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(20);
+      if (error) throw fromDbError(error);
+      send({ invites: ((data ?? []) as InviteRow[]).map(toInvite) });
+    }),
+
+  POST: authed
+    .doc({ operationId: "inviteAction", summary: "Create an invite, or accept or decline one by code" })
+    .use(body(actionSchema))
+    .returns(
+      z.union([
+        z.object({ invite: partnerInviteSchema }),
+        // Accepting reports who the caller is now linked with
+        okSchema.extend({ partnerId: z.string().optional() }),
+      ]),
+      [200, 201]
+    )
+    .handle(async ({ send, supabase, userId, body }) => {
+      if (body.action === "create") {
+        const { data: selfProfile, error: selfErr } = await supabase
+          .from("profiles")
+          .select("partner_id")
+          .eq("user_id", userId)
+          .maybeSingle();
+        if (selfErr) throw fromDbError(selfErr);
+        if (selfProfile?.partner_id) throw new ConflictError("PARTNER_ALREADY_LINKED", "You already have a partner");
+
+        // Only one open invite at a time: creating a new one revokes the previous
+        const { error: revokeErr } = await supabase
+          .from("partner_invites")
+          .update({ status: "revoked" })
+          .eq("inviter_id", userId)
+          .eq("status", "pending");
+        if (revokeErr) throw fromDbError(revokeErr);
+
+        const expiresAt = new Date(Date.now() + (body.ttlMinutes ?? DEFAULT_TTL_MINUTES) * 60_000).toISOString();
+        const { data, error } = await supabase
+          .from("partner_invites")
+          .insert({ code: generateCode(), inviter_id: userId, expires_at: expiresAt })
+          .select(INVITE_COLUMNS)
+          .single();
+        if (error || !data) throw fromDbError(error, "Failed to create invite");
+        return send({ invite: toInvite(data as InviteRow) }, 201);
+      }
+
+      if (body.action === "accept") {
+        const { data: partnerId, error } = await supabase.rpc("accept_partner_invite", { invite_code: body.code });
+        if (error) throw fromDbError(error);
+        return send({ ok: true, partnerId });
+      }
+
+      const { error } = await supabase.rpc("decline_partner_invite", { invite_code: body.code });
+      if (error) throw fromDbError(error);
+      send({ ok: true });
+    }),
+
+  // DELETE: revoke one invite (?id=) or all of the caller's pending invites
+  DELETE: authed
+    .doc({ operationId: "revokeInvites", summary: "Revoke one pending invite, or all of them" })
+    .use(query(revokeQuerySchema))
+    .returns(okSchema)
+    .handle(async ({ send, supabase, userId, query: params }) => {
+      let query = supabase
+        .from("partner_invites")
+        .update({ status: "revoked" })
+        .eq("inviter_id", userId)
+        .eq("status", "pending");
+      if (params.id) query = query.eq("id", params.id);
+      const { error } = await query;
+      if (error) throw fromDbError(error);
+      send({ ok: true });
+    }),
+});
@@ -1,105 +1,80 @@
-import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { z } from "zod";
-import { handleCors } from "./_lib/cors";
-import {
-  createServiceRoleClient,
-  createSupabaseClientForUserToken,
-  getBearerTokenFromRequest,
-} from "./_lib/supabase";
+import { fromDbError, GoneError } from "./_lib/errors";
+import { body, defineRoute, endpoint, requireAuth } from "./_lib/http";
+import { okSchema } from "./_lib/schemas";
 
-const connectSchema = z.object({
-  partnerId: z.string().uuid().optional(),
-});
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (handleCors(req, res)) return;
-
-  const token = getBearerTokenFromRequest(req);
-  const supabase = createSupabaseClientForUserToken(token);
-  const { data: authData } = token
-    ? await supabase.auth.getUser(token)
-    : { data: { user: null } };
-  const userId = authData?.user?.id ?? null;
-  if (!userId) {
-    res.status(401).json({ error: "Unauthorized" });
-    return;
-  }
+const settingsSchema = z
+  .object({
+    shareResults: z.boolean().optional(),
+    shareEmotionTrends: z.boolean().optional(),
+  })
+  .refine((v) => v.shareResults !== undefined || v.shareEmotionTrends !== undefined, {
+    message: "Provide shareResults or shareEmotionTrends",
+  });
 
-  if (req.method === "GET") {
-    const { data, error } = await supabase
-      .from("profiles")
-      .select("partner_id")
-      .eq("user_id", userId)
-      .maybeSingle();
-    if (error) {
-      res.status(500).json({ error: error.message });
-      return;
-    }
-    res.status(200).json({ partnerId: data?.partner_id ?? null });
-    return;
-  }
+const sharingSchema = z.object({ shareResults: z.boolean(), shareEmotionTrends: z.boolean() });
 
-  if (req.method === "POST") {
-    const parsed = connectSchema.safeParse(req.body);
-    if (!parsed.success) {
-      res.status(400).json({ error: "Invalid payload", details: parsed.error.issues });
-      return;
-    }
-    const partnerId = parsed.data.partnerId;
-    if (!partnerId) {
-      res.status(400).json({ error: "Missing partnerId" });
-      return;
-    }
+const authed = endpoint().use(requireAuth());
 
-    // Ensure current user has no partner and partner has no partner
-    const { data: selfProfile, error: selfErr } = await supabase
-      .from("profiles")
-      .select("partner_id")
-      .eq("user_id", userId)
-      .maybeSingle();
-    if (selfErr) return res.status(500).json({ error: selfErr.message });
-    if (selfProfile?.partner_id) return res.status(400).json({ error: "You already have a partner" });
-
-    const { data: partnerProfile, error: partnerErr } = await supabase
-      .from("profiles")
-      .select("partner_id")
-      .eq("user_id", partnerId)
-      .maybeSingle();
-    if (partnerErr) return res.status(500).json({ error: partnerErr.message });
-    if (partnerProfile?.partner_id) return res.status(400).json({ error: "Partner already linked" });
-
-    // Try to set both sides if service role is available; otherwise set current user's side
-    const service = createServiceRoleClient();
-    if (service) {
-      const { error } = await service.rpc("link_partners", { a: userId, b: partnerId });
-      if (error) return res.status(500).json({ error: error.message });
-      return res.status(200).json({ ok: true, partnerId });
-    } else {
-      const { error } = await supabase
+export default defineRoute("partners", {
+  GET: authed
+    .doc({ operationId: "getPartnerSettings", summary: "The linked partner and what the caller shares with them" })
+    .returns(sharingSchema.extend({ partnerId: z.string().nullable() }))
+    .handle(async ({ send, supabase, userId }) => {
+      const { data, error } = await supabase
         .from("profiles")
-        .update({ partner_id: partnerId })
-        .eq("user_id", userId);
-      if (error) return res.status(500).json({ error: error.message });
-      return res.status(200).json({ ok: true, partnerId, note: "One-sided link set; awaiting partner" });
-    }
-  }
+        .select("partner_id,share_test_results,share_emotion_trends")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (error) throw fromDbError(error);
+      send({
+        partnerId: data?.partner_id ?? null,
+        shareResults: data?.share_test_results ?? false,
+        shareEmotionTrends: data?.share_emotion_trends ?? false,
+      });
+    }),
 
-  if (req.method === "DELETE") {
-    const service = createServiceRoleClient();
-    if (service) {
-      const { error } = await service.rpc("unlink_partner", { a: userId });
-      if (error) return res.status(500).json({ error: error.message });
-      return res.status(200).json({ ok: true });
-    } else {
-      const { error } = await supabase
+  // PATCH: opt in/out of sharing test results (compatibility report) and emotion trends with the linked partner
+  PATCH: authed
+    .doc({ operationId: "updatePartnerSettings", summary: "Opt in or out of sharing with the linked partner" })
+    .use(body(settingsSchema))
+    .returns(okSchema.merge(sharingSchema))
+    .handle(async ({ send, supabase, userId, body }) => {
+      const { shareResults, shareEmotionTrends } = body;
+      const { data, error } = await supabase
         .from("profiles")
-        .update({ partner_id: null })
-        .eq("user_id", userId);
-      if (error) return res.status(500).json({ error: error.message });
-      return res.status(200).json({ ok: true });
-    }
-  }
+        .update({
+          ...(shareResults !== undefined ? { share_test_results: shareResults } : {}),
+          ...(shareEmotionTrends !== undefined ? { share_emotion_trends: shareEmotionTrends } : {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("user_id", userId)
+        .select("share_test_results,share_emotion_trends")
+        .maybeSingle();
+      if (error) throw fromDbError(error);
+      send({
+        ok: true,
+        shareResults: data?.share_test_results ?? false,
+        shareEmotionTrends: data?.share_emotion_trends ?? false,
+      });
+    }),
 
-  res.status(405).json({ error: "Method not allowed" });
-}
+  // Linking by raw partner id is gone: it skipped the partner's consent. Links are made by
+  // accepting an invite (POST /api/partnerInvites), which links both sides atomically.
+  POST: authed.doc({ hidden: true }).handle(async () => {
+    throw new GoneError(
+      "ENDPOINT_REMOVED",
+      "Direct partner linking was removed; create and share an invite via /api/partnerInvites"
+    );
+  }),
 
+  DELETE: authed
+    .doc({ operationId: "unlinkPartner", summary: "Unlink from the partner on both sides" })
+    .returns(okSchema)
+    .handle(async ({ send, supabase }) => {
+      // partner_id is not client-writable; the function clears both sides for the caller
+      const { error } = await supabase.rpc("unlink_own_partner");
+      if (error) throw fromDbError(error);
+      send({ ok: true });
+    }),
+});
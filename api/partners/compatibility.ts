@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { ForbiddenError, fromDbError, NotFoundError, ValidationError } from "../_lib/errors";
+import { defineRoute, endpoint, requireAuth } from "../_lib/http";
+import { getDefaultTest } from "../_lib/questions";
+import { buildCompatibilityReport } from "../_lib/compatibility";
+import { compatibilitySchema } from "../_lib/schemas";
+
+export default defineRoute("partners/compatibility", {
+  GET: endpoint()
+    .doc({ operationId: "getCompatibility", summary: "Compare both partners' communication styles" })
+    .use(requireAuth())
+    .returns(z.object({ compatibility: compatibilitySchema }))
+    .handle(async ({ send, supabase, userId }) => {
+      // Friction pairings and prompts are written for the communication style dimensions
+      const test = getDefaultTest();
+      const testId = test.id;
+
+      const { data: status, error: statusErr } = await supabase.rpc("partner_sharing_status").maybeSingle();
+      if (statusErr) throw fromDbError(statusErr);
+      const sharing = status as
+        | { partner_id: string | null; linked: boolean; self_sharing: boolean; partner_sharing: boolean }
+        | null;
+      if (!sharing?.partner_id || !sharing.linked) {
+        throw new ValidationError("PARTNER_NOT_LINKED", "Link with your partner to see a compatibility report");
+      }
+      if (!sharing.self_sharing || !sharing.partner_sharing) {
+        throw new ForbiddenError("SHARING_DISABLED", "Both partners must opt in to sharing test results", {
+          sharing: { you: sharing.self_sharing, partner: sharing.partner_sharing },
+        });
+      }
+
+      const { data: own, error: ownErr } = await supabase
+        .from("test_results")
+        .select("answers,created_at")
+        .eq("user_id", userId)
+        .eq("test_id", testId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (ownErr) throw fromDbError(ownErr);
+
+      const { data: theirs, error: theirsErr } = await supabase
+        .rpc("get_partner_test_result", { p_test_id: testId })
+        .maybeSingle();
+      if (theirsErr) throw fromDbError(theirsErr);
+
+      const partnerResult = theirs as { answers: unknown; created_at: string } | null;
+      if (!own || !partnerResult) {
+        throw new NotFoundError("RESULTS_MISSING", "Both partners need to complete the assessment first", {
+          completed: { you: !!own, partner: !!partnerResult },
+        });
+      }
+
+      const report = buildCompatibilityReport(
+        test,
+        own.answers as { questionId: string; value: number }[],
+        partnerResult.answers as { questionId: string; value: number }[]
+      );
+      send({
+        compatibility: {
+          testId,
+          ...report,
+          basedOn: { yourResultAt: own.created_at, partnerResultAt: partnerResult.created_at },
+        },
+      });
+    }),
+});
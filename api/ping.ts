@@ -0,0 +1,9 @@
+import { z } from "zod";
+import { defineRoute, endpoint } from "./_lib/http";
+
+export default defineRoute("ping", {
+  GET: endpoint()
+    .doc({ operationId: "ping", summary: "Liveness check" })
+    .returns(z.object({ ok: z.literal(true), message: z.string() }))
+    .handle(async ({ send }) => send({ ok: true, message: "pong" })),
+});
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { defineRoute, endpoint, query } from "./_lib/http";
+import { listTests } from "./_lib/questions";
+import { testCatalogEntrySchema } from "./_lib/schemas";
+
+const querySchema = z.object({ category: z.string().optional() });
+
+// Catalog for the assessment hub; full definitions come from /api/getTest?testId=
+export default defineRoute("tests", {
+  GET: endpoint()
+    .doc({ operationId: "listTests", summary: "Test catalog, optionally filtered by category" })
+    .use(query(querySchema))
+    .returns(z.object({ tests: z.array(testCatalogEntrySchema) }))
+    .handle(async ({ send, query }) => {
+      const tests = listTests().filter((t) => !query.category || t.category === query.category);
+      send({ tests });
+    }),
+});
@@ -0,0 +1,284 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { ConflictError, fromDbError, GoneError, NotFoundError, ValidationError } from "../_lib/errors";
+import { body, defineRoute, endpoint, query, requireAuth } from "../_lib/http";
+import { createServiceRoleClient } from "../_lib/supabase";
+import { getTestDefinition, type TestDefinition } from "../_lib/questions";
+import { okSchema, testAttemptSchema, testResultSchema } from "../_lib/schemas";
+import { answerValueSchema } from "../_lib/questionTypes";
+import { buildTestResult, validateAnswers, type Answer } from "../_lib/scoring";
+import { createLogger } from "../_lib/logger";
+
+const log = createLogger("tests/attempts");
+
+const ATTEMPT_COLUMNS =
+  "id,test_id,test_version,status,answers,result_id,started_at,updated_at,expires_at,completed_at";
+
+const answersSchema = z
+  .array(z.object({ questionId: z.string(), value: answerValueSchema }))
+  .max(200);
+
+const actionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("start"), testId: z.string().min(1) }),
+  z.object({ action: z.literal("save"), attemptId: z.string().uuid(), answers: answersSchema.min(1) }),
+  z.object({ action: z.literal("finalize"), attemptId: z.string().uuid(), answers: answersSchema.optional() }),
+]);
+
+const listQuerySchema = z.object({
+  id: z.string().uuid().optional(),
+  test_id: z.string().optional(),
+});
+
+const idQuerySchema = z.object({ id: z.string().uuid() });
+
+type AttemptRow = {
+  id: string;
+  test_id: string;
+  test_version: number;
+  status: "in_progress" | "completed" | "abandoned" | "expired";
+  answers: Answer[];
+  result_id: string | null;
+  started_at: string;
+  updated_at: string;
+  expires_at: string;
+  completed_at: string | null;
+};
+
+// Sliding window: every save pushes expiry out again
+function getAttemptTtlMs(): number {
+  const hours = Number(process.env.TEST_ATTEMPT_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24 * 7) * 3_600_000;
+}
+
+function nextExpiry(): string {
+  return new Date(Date.now() + getAttemptTtlMs()).toISOString();
+}
+
+// Later answers for the same question replace earlier ones
+function mergeAnswers(existing: Answer[], incoming: Answer[]): Answer[] {
+  const byQuestion = new Map(existing.map((a) => [a.questionId, a]));
+  for (const a of incoming) byQuestion.set(a.questionId, a);
+  return [...byQuestion.values()];
+}
+
+function toAttempt(row: AttemptRow, test: TestDefinition | null) {
+  return {
+    id: row.id,
+    testId: row.test_id,
+    testVersion: row.test_version,
+    // The test changed since this draft started; it can be viewed but not finalized
+    stale: !test || test.version !== row.test_version,
+    status: row.status,
+    answers: row.answers,
+    answeredCount: row.answers.length,
+    totalQuestions: test?.questions.length ?? null,
+    resultId: row.result_id,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+    expiresAt: row.expires_at,
+    completedAt: row.completed_at,
+  };
+}
+
+// Reads one of the caller's attempts, expiring it first if its window has passed
+async function loadAttempt(supabase: SupabaseClient, userId: string, id: string) {
+  const { data, error } = await supabase
+    .from("test_attempts")
+    .select(ATTEMPT_COLUMNS)
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error || !data) return { row: null, error };
+  const row = data as AttemptRow;
+  if (row.status === "in_progress" && new Date(row.expires_at).getTime() <= Date.now()) {
+    await supabase
+      .from("test_attempts")
+      .update({ status: "expired", updated_at: new Date().toISOString() })
+      .eq("id", row.id)
+      .eq("status", "in_progress");
+    row.status = "expired";
+  }
+  return { row, error: null };
+}
+
+// A finalize whose result could not be stored hands the draft back. If another draft of the test
+// was opened meanwhile, this one cannot be reopened next to it and is abandoned instead.
+async function releaseClaimedAttempt(supabase: SupabaseClient, attemptId: string) {
+  const { error: reopenErr } = await supabase
+    .from("test_attempts")
+    .update({ status: "in_progress", completed_at: null })
+    .eq("id", attemptId)
+    .eq("status", "completed");
+  if (!reopenErr) return;
+  log.error("failed to reopen attempt, abandoning it", { attemptId, error: reopenErr });
+  const { error: abandonErr } = await supabase
+    .from("test_attempts")
+    .update({ status: "abandoned", completed_at: null, updated_at: new Date().toISOString() })
+    .eq("id", attemptId)
+    .eq("status", "completed");
+  if (abandonErr) log.error("failed to abandon attempt", { attemptId, error: abandonErr });
+}
+
+function assertUsable(row: AttemptRow) {
+  if (row.status === "expired") throw new GoneError("ATTEMPT_EXPIRED", "This attempt has expired; start a new one");
+  if (row.status !== "in_progress") throw new ConflictError("ATTEMPT_CLOSED", `Attempt is ${row.status.replace("_", " ")}`);
+}
+
+const authed = endpoint().use(requireAuth());
+
+export default defineRoute("tests/attempts", {
+  // GET ?id= one attempt, ?test_id= the open draft to resume, otherwise all open drafts
+  GET: authed
+    .doc({ operationId: "listTestAttempts", summary: "One attempt, or the caller's open drafts" })
+    .use(query(listQuerySchema))
+    .returns(z.union([z.object({ attempt: testAttemptSchema }), z.object({ attempts: z.array(testAttemptSchema) })]))
+    .handle(async ({ send, supabase, userId, query: params }) => {
+      if (params.id) {
+        const { row, error } = await loadAttempt(supabase, userId, params.id);
+        if (error) throw fromDbError(error);
+        if (!row) throw new NotFoundError("ATTEMPT_NOT_FOUND", "Attempt not found");
+        return send({ attempt: toAttempt(row, getTestDefinition(row.test_id)) });
+      }
+
+      let query = supabase
+        .from("test_attempts")
+        .select(ATTEMPT_COLUMNS)
+        .eq("user_id", userId)
+        .eq("status", "in_progress")
+        .gt("expires_at", new Date().toISOString())
+        .order("updated_at", { ascending: false });
+      if (params.test_id) query = query.eq("test_id", params.test_id);
+      const { data, error } = await query;
+      if (error) throw fromDbError(error);
+      const attempts = ((data ?? []) as AttemptRow[]).map((row) => toAttempt(row, getTestDefinition(row.test_id)));
+      send({ attempts });
+    }),
+
+  POST: authed
+    .doc({ operationId: "testAttemptAction", summary: "Start or resume a draft, save answers, or finalize it into a result" })
+    .use(body(actionSchema))
+    .returns(
+      z.union([
+        // `resumed` is only reported by start
+        z.object({ attempt: testAttemptSchema, resumed: z.boolean().optional() }),
+        z.object({ result: testResultSchema.extend({ id: z.string() }), attemptId: z.string() }),
+      ]),
+      [200, 201]
+    )
+    .handle(async ({ send, supabase, userId, body }) => {
+      if (body.action === "start") {
+        const test = getTestDefinition(body.testId);
+        if (!test) throw new NotFoundError("TEST_NOT_FOUND", "Test not found");
+
+        // Resume the open draft when it is still usable; otherwise retire it so a new one can start
+        const { data: open, error: openErr } = await supabase
+          .from("test_attempts")
+          .select(ATTEMPT_COLUMNS)
+          .eq("user_id", userId)
+          .eq("test_id", test.id)
+          .eq("status", "in_progress")
+          .maybeSingle();
+        if (openErr) throw fromDbError(openErr);
+        if (open) {
+          const row = open as AttemptRow;
+          const expired = new Date(row.expires_at).getTime() <= Date.now();
+          if (!expired && row.test_version === test.version) {
+            return send({ attempt: toAttempt(row, test), resumed: true });
+          }
+          const { error: retireErr } = await supabase
+            .from("test_attempts")
+            .update({ status: expired ? "expired" : "abandoned", updated_at: new Date().toISOString() })
+            .eq("id", row.id);
+          if (retireErr) throw fromDbError(retireErr);
+        }
+
+        const { data, error } = await supabase
+          .from("test_attempts")
+          .insert({ user_id: userId, test_id: test.id, test_version: test.version, expires_at: nextExpiry() })
+          .select(ATTEMPT_COLUMNS)
+          .single();
+        if (error || !data) throw fromDbError(error, "Failed to start attempt");
+        return send({ attempt: toAttempt(data as AttemptRow, test), resumed: false }, 201);
+      }
+
+      const { row, error: loadErr } = await loadAttempt(supabase, userId, body.attemptId);
+      if (loadErr) throw fromDbError(loadErr);
+      if (!row) throw new NotFoundError("ATTEMPT_NOT_FOUND", "Attempt not found");
+      assertUsable(row);
+      const test = getTestDefinition(row.test_id);
+      if (!test || test.version !== row.test_version) {
+        throw new ConflictError("TEST_CHANGED", "This assessment has changed since the attempt started; start a new one");
+      }
+
+      const answers = mergeAnswers(row.answers, body.answers ?? []);
+
+      if (body.action === "save") {
+        const issues = validateAnswers(test, body.answers, { partial: true });
+        if (issues.length > 0) throw new ValidationError("ANSWERS_INVALID", "Answers do not match test", { details: issues });
+        const { data, error } = await supabase
+          .from("test_attempts")
+          .update({ answers, updated_at: new Date().toISOString(), expires_at: nextExpiry() })
+          .eq("id", row.id)
+          .eq("status", "in_progress")
+          .select(ATTEMPT_COLUMNS)
+          .maybeSingle();
+        if (error) throw fromDbError(error);
+        if (!data) throw new ConflictError("ATTEMPT_CLOSED", "Attempt is no longer in progress");
+        return send({ attempt: toAttempt(data as AttemptRow, test) });
+      }
+
+      const issues = validateAnswers(test, answers);
+      if (issues.length > 0) throw new ValidationError("ANSWERS_INVALID", "Answers do not match test", { details: issues });
+
+      // Claim the attempt first so a double-tapped finalize cannot record two results
+      const completedAt = new Date().toISOString();
+      const { data: claimed, error: claimErr } = await supabase
+        .from("test_attempts")
+        .update({ status: "completed", answers, completed_at: completedAt, updated_at: completedAt })
+        .eq("id", row.id)
+        .eq("status", "in_progress")
+        .select("id")
+        .maybeSingle();
+      if (claimErr) throw fromDbError(claimErr);
+      if (!claimed) throw new ConflictError("ATTEMPT_CLOSED", "Attempt is no longer in progress");
+
+      const { record, payload } = buildTestResult(test, answers);
+      const writer = createServiceRoleClient() ?? supabase;
+      const { data: stored, error: storeErr } = await writer
+        .from("test_results")
+        .insert({ user_id: userId, ...record })
+        .select("id")
+        .single();
+      if (storeErr || !stored) {
+        await releaseClaimedAttempt(supabase, row.id);
+        throw fromDbError(storeErr, "Failed to store result");
+      }
+
+      const { error: linkErr } = await supabase
+        .from("test_attempts")
+        .update({ result_id: stored.id })
+        .eq("id", row.id);
+      if (linkErr) log.error("failed to link attempt to result", { attemptId: row.id, error: linkErr });
+
+      send({ result: { ...payload, id: stored.id }, attemptId: row.id });
+    }),
+
+  // DELETE ?id= abandons a draft
+  DELETE: authed
+    .doc({ operationId: "abandonTestAttempt", summary: "Abandon a draft" })
+    .use(query(idQuerySchema))
+    .returns(okSchema)
+    .handle(async ({ send, supabase, userId, query }) => {
+      const { data, error } = await supabase
+        .from("test_attempts")
+        .update({ status: "abandoned", updated_at: new Date().toISOString() })
+        .eq("id", query.id)
+        .eq("user_id", userId)
+        .eq("status", "in_progress")
+        .select("id")
+        .maybeSingle();
+      if (error) throw fromDbError(error);
+      if (!data) throw new NotFoundError("ATTEMPT_NOT_FOUND", "No open attempt with that id");
+      send({ ok: true });
+    }),
+});
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { fromDbError } from "../_lib/errors";
+import { defineRoute, endpoint, query, requireAuth } from "../_lib/http";
+import { buildDimensionTrends, describeTrend, toHistoricalResult, type ResultRow } from "../_lib/progress";
+import { dimensionTrendSchema, historicalResultSchema } from "../_lib/schemas";
+
+// Trends and highlights cover the latest results in the requested range up to this many, however
+// many `limit` returns, so paging through results does not change them
+const TREND_WINDOW = 200;
+
+const querySchema = z.object({
+  test_id: z.string().min(1).optional(),
+  from: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+  to: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+export default defineRoute("tests/results", {
+  GET: endpoint()
+    .doc({ operationId: "listTestResults", summary: "Stored results with per-dimension trends, newest first" })
+    .use(requireAuth())
+    .use(query(querySchema))
+    .returns(
+      z.object({
+        results: z.array(historicalResultSchema),
+        trends: z.array(dimensionTrendSchema),
+        highlights: z.array(z.string()),
+      })
+    )
+    .handle(async ({ send, supabase, userId, query: { test_id: testId, from, to, limit } }) => {
+      let query = supabase
+        .from("test_results")
+        .select("id,test_id,answers,score,percentile,summary,result,created_at")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(TREND_WINDOW);
+      if (testId) query = query.eq("test_id", testId);
+      if (from) query = query.gte("created_at", from);
+      // A bare date means "through the end of that day"
+      if (to) query = to.length === 10 ? query.lt("created_at", nextDay(to)) : query.lte("created_at", to);
+
+      const { data, error } = await query;
+      if (error) throw fromDbError(error);
+
+      const recent = ((data ?? []) as ResultRow[]).map(toHistoricalResult);
+      const trends = buildDimensionTrends(recent);
+      const highlights = trends.map(describeTrend).filter((h): h is string => !!h);
+
+      send({ results: recent.slice(0, limit ?? 50), trends, highlights });
+    }),
+});
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString();
+}
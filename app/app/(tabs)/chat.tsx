@@ -1,7 +1,14 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { KeyboardAvoidingView, Platform, SafeAreaView, StyleSheet, Text, TextInput, TouchableOpacity, View, FlatList } from 'react-native';
+import { Alert, KeyboardAvoidingView, Platform, Pressable, SafeAreaView, StyleSheet, Text, TextInput, TouchableOpacity, View, FlatList } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from '@/lib/supabase';
+import { postEventStream } from '@/lib/event-stream';
+import { describeAnalysis, hasAnalysis, type MessageAnalysis } from '@/lib/analysis';
+import { SafetyResources, type SafetyPayload } from '@/components/safety-resources';
+import { ChatPicker, type ChatSummary } from '@/components/chat-picker';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import type { ChatReply, ErrorBody, SendMessageEvent, SendMessageRequest } from '@tapfocus/api-client';
+import { api, getApiUrl, getAuthHeaders } from '@/lib/api';
 import { Colors } from '@/constants/theme';
 import { ThemedView } from '@/components/themed-view';
 import { ThemedText } from '@/components/themed-text';
@@ -11,59 +18,120 @@ type ChatMessage = {
   id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
-  analysis?: { anger?: number } | null;
+  analysis?: MessageAnalysis | null;
+  // Author of a user message; in joint sessions this tells our own turns from the partner's
+  userId?: string | null;
+  // Assistant replies: the user message answered; regenerated replies share it as variants
+  replyTo?: string | null;
+  // Hidden reply variants stay loaded so the user can flip back to them
+  activeVariant?: boolean;
+  editedAt?: string | null;
 };
 
+const MESSAGE_COLUMNS = 'id, role, content, analysis, user_id, reply_to, active_variant, edited_at';
+// Mirrors MAX_REPLY_VARIANTS in api/chat.ts
+const MAX_REPLY_VARIANTS = 5;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// What a turn asks of /api/chat; the chat id and stream options are added when sending
+type TurnRequest =
+  | { action: 'send'; content: string }
+  | { action: 'regenerate' }
+  | { action: 'edit'; messageId: string; content: string };
+
+function toChatMessage(m: any): ChatMessage {
+  return {
+    id: m.id,
+    role: m.role,
+    content: m.content,
+    analysis: m.analysis ?? null,
+    userId: m.user_id ?? null,
+    replyTo: m.reply_to ?? null,
+    activeVariant: m.active_variant ?? true,
+    editedAt: m.edited_at ?? null,
+  };
+}
+
+// Optimistic, streaming and error bubbles use local ids and cannot be edited or deleted yet
+function isStored(m: ChatMessage) {
+  return UUID_PATTERN.test(m.id);
+}
+
 export default function ChatScreen() {
   const colorScheme = useColorScheme();
+  const router = useRouter();
+  // A finished guided exercise hands its statement back as a draft to review and send
+  const { draft } = useLocalSearchParams<{ draft?: string }>();
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>([
     { id: 'sys', role: 'system', content: 'You are a helpful assistant.' },
   ]);
   const [chatId, setChatId] = useState<string | null>(null);
+  const [chatTitle, setChatTitle] = useState<string | null>(null);
+  const [chatKind, setChatKind] = useState<'solo' | 'joint'>('solo');
+  const [myUserId, setMyUserId] = useState<string | null>(null);
+  const [pickerOpen, setPickerOpen] = useState(false);
   const [sending, setSending] = useState(false);
+  const [safety, setSafety] = useState<SafetyPayload | null>(null);
+  // The user message being rewritten from the input box (long-press > Edit)
+  const [editing, setEditing] = useState<ChatMessage | null>(null);
   const flatListRef = useRef<FlatList<ChatMessage>>(null);
   const channelReadyRef = useRef(false);
-  const pendingAnalysisRef = useRef<Record<string, number>>({});
+  const pendingAnalysisRef = useRef<Record<string, MessageAnalysis>>({});
 
   // Use singleton supabase client to avoid duplicate auth/storage instances
 
-  // On load: pick most recent chat for this user from DB
+  // On load: pick most recently active, non-archived chat for this user from DB
   useEffect(() => {
     (async () => {
       const { data: userData } = await supabase.auth.getUser();
       const userId = userData.user?.id;
       if (!userId) return;
+      setMyUserId(userId);
       const { data } = await supabase
         .from('chats')
-        .select('id')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
+        .select('id, title, kind')
+        .or(`user_id.eq.${userId},partner_user_id.eq.${userId}`)
+        .is('archived_at', null)
+        .order('updated_at', { ascending: false })
         .limit(1)
         .maybeSingle();
-      if (data?.id) setChatId(data.id);
+      if (data?.id) {
+        setChatId(data.id);
+        setChatTitle(data.title ?? null);
+        setChatKind(data.kind ?? 'solo');
+      }
     })();
   }, [supabase]);
 
-  // Load existing messages for this chat
+  // Switching conversations (null = start fresh; the server creates the chat on first send)
+  const selectChat = useCallback((chat: ChatSummary | null) => {
+    setPickerOpen(false);
+    setSafety(null);
+    setEditing(null);
+    setChatTitle(chat?.title ?? null);
+    setChatKind(chat?.kind ?? 'solo');
+    setMessages([{ id: 'sys', role: 'system', content: 'You are a helpful assistant.' }]);
+    setChatId(chat?.id ?? null);
+  }, []);
+
+  // Load existing messages for this chat (soft-deleted ones stay hidden; all reply variants are kept)
+  const loadMessages = useCallback(async () => {
+    if (!chatId) return;
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('chat_id', chatId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true });
+    if (error) return;
+    const history: ChatMessage[] = (data || []).map(toChatMessage);
+    setMessages([{ id: 'sys', role: 'system', content: 'You are a helpful assistant.' }, ...history]);
+  }, [chatId]);
+
   useEffect(() => {
-    (async () => {
-      if (!chatId) return;
-      const { data, error } = await supabase
-        .from('messages')
-        .select('id, role, content, analysis')
-        .eq('chat_id', chatId)
-        .order('created_at', { ascending: true });
-      if (error) return;
-      const history: ChatMessage[] = (data || []).map((m: any) => ({
-        id: m.id,
-        role: m.role,
-        content: m.content,
-        analysis: m.analysis ?? null,
-      }));
-      setMessages([{ id: 'sys', role: 'system', content: 'You are a helpful assistant.' }, ...history]);
-    })();
-  }, [chatId, supabase]);
+    loadMessages();
+  }, [loadMessages]);
 
   // Realtime for this chat: assistant inserts and analysis updates (catch-all, local filter)
   useEffect(() => {
@@ -79,7 +147,7 @@ export default function ChatScreen() {
           setMessages((prev) => {
             if (prev.some((m) => m.id === row.id)) return prev;
             const next = [...prev];
-            if (row.role === 'user') {
+            if (row.role === 'user' && (!myUserId || row.user_id === myUserId)) {
               // Upgrade optimistic user message (temp id) to DB id by content match
               let idx = -1;
               for (let i = next.length - 1; i >= 0; i--) {
@@ -88,26 +156,41 @@ export default function ChatScreen() {
                 if (m.role === 'user' && isTempId && m.content === row.content) { idx = i; break; }
               }
               if (idx >= 0) {
-                next[idx] = { ...next[idx], id: row.id } as ChatMessage;
+                next[idx] = { ...next[idx], id: row.id, userId: row.user_id } as ChatMessage;
                 // Apply any pending analysis now that we have the real id
-                const pendingAnger = pendingAnalysisRef.current[row.id];
-                if (typeof pendingAnger === 'number') {
-                  next[idx] = { ...next[idx], analysis: { anger: pendingAnger } } as ChatMessage;
+                const pendingAnalysis = pendingAnalysisRef.current[row.id];
+                if (pendingAnalysis) {
+                  next[idx] = { ...next[idx], analysis: pendingAnalysis } as ChatMessage;
                   delete pendingAnalysisRef.current[row.id];
                 }
                 return next;
               }
             }
-            // Append new row (assistant or unmatched user)
-            next.push({ id: row.id, role: row.role, content: row.content } as ChatMessage);
+            // Append new row (assistant, partner, or unmatched user)
+            next.push(toChatMessage({ ...row, analysis: null }));
             return next;
           });
           return;
         }
         if (payload.eventType === 'UPDATE') {
-          const anger = row?.analysis?.anger as number | undefined;
+          const analysis = row?.analysis as MessageAnalysis | null | undefined;
           const updatedId = row?.id as string | undefined;
-          if (typeof anger === 'number' && updatedId) {
+          // Deletes, edits and variant switches, possibly made from another device or by the API
+          if (updatedId && row.deleted_at) {
+            setMessages((prev) => prev.filter((m) => m.id !== updatedId));
+            return;
+          }
+          if (updatedId && !hasAnalysis(analysis)) {
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === updatedId
+                  ? { ...m, content: row.content, analysis: null, replyTo: row.reply_to ?? null, activeVariant: row.active_variant ?? true, editedAt: row.edited_at ?? null }
+                  : m
+              )
+            );
+            return;
+          }
+          if (hasAnalysis(analysis) && updatedId) {
             setMessages((prev) => {
               const next = [...prev];
               let idx = next.findIndex((m) => m.id === updatedId);
@@ -117,8 +200,8 @@ export default function ChatScreen() {
                   if (m.role === 'user' && m.content === row.content && !m.analysis) { idx = i; break; }
                 }
               }
-              if (idx >= 0) next[idx] = { ...next[idx], id: updatedId, analysis: { anger } } as ChatMessage;
-              else pendingAnalysisRef.current[updatedId] = anger;
+              if (idx >= 0) next[idx] = { ...next[idx], id: updatedId, analysis } as ChatMessage;
+              else pendingAnalysisRef.current[updatedId] = analysis;
               return next;
             });
           }
@@ -134,82 +217,114 @@ export default function ChatScreen() {
       supabase.removeChannel(channel);
       channelReadyRef.current = false;
     };
-  }, [supabase, chatId]);
+  }, [supabase, chatId, myUserId]);
 
   useEffect(() => {
     flatListRef.current?.scrollToEnd({ animated: true });
   }, [messages.length]);
 
-  const send = useCallback(async () => {
-    const content = input.trim();
-    if (!content || sending) return;
-    const userMsg: ChatMessage = { id: String(Date.now()), role: 'user', content };
-    setMessages((prev) => [...prev, userMsg]);
-    setInput('');
+  useEffect(() => {
+    if (draft) setInput(draft);
+  }, [draft]);
+
+  // Streams one counselor turn from /api/chat. `userTempId` is the optimistic user bubble to swap
+  // for its stored id; edits and regenerates work on an already stored user message.
+  const streamTurn = useCallback(async (body: TurnRequest, userTempId: string | null): Promise<boolean> => {
     setSending(true);
     try {
-      const payload = { content, chatId: chatId ?? undefined };
-      const { data: sessionData } = await supabase.auth.getSession();
-      const token = sessionData.session?.access_token;
-      const res = await fetch(getApiUrl('/api/chat'), {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
-        body: JSON.stringify(payload),
+      const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+      // Regenerates and edits are only offered once the chat exists
+      const payload = { ...body, chatId: chatId ?? undefined, stream: true, locale } as SendMessageRequest;
+      // Stream the reply into a placeholder bubble; the final `done` event carries the persisted ids
+      const streamId = 'stream-' + String(Date.now());
+      let result: Partial<ChatReply & ErrorBody> = {};
+      await postEventStream<SendMessageEvent>(getApiUrl('/api/chat'), {
+        headers: await getAuthHeaders(),
+        body: payload,
+        onEvent: ({ event, data: evt }) => {
+          if (event === 'delta') {
+            setMessages((prev) => {
+              const idx = prev.findIndex((m) => m.id === streamId);
+              if (idx < 0) return [...prev, { id: streamId, role: 'assistant', content: evt.content }];
+              const next = [...prev];
+              next[idx] = { ...next[idx], content: next[idx].content + evt.content };
+              return next;
+            });
+          } else if (event === 'safety') {
+            setSafety(evt);
+          } else {
+            result = evt;
+          }
+        },
       });
-      const data = await res.json();
-      console.log('[chat] API response', data);
-      if (data.userMessageId) {
+      console.log('[chat] API response', result);
+      if (result.error) throw new Error(result.error);
+      const { userMessageId, assistantMessageId, reply } = result;
+      if (userTempId && userMessageId) {
         setMessages((prev) => {
           const next = [...prev];
-          const idx = next.findIndex((m) => m.id === userMsg.id);
-          if (idx >= 0) next[idx] = { ...next[idx], id: data.userMessageId };
+          const idx = next.findIndex((m) => m.id === userTempId);
+          if (idx >= 0) next[idx] = { ...next[idx], id: userMessageId };
           return next;
         });
         // Apply any pending analysis captured before id swap
-        const pendingAnger = pendingAnalysisRef.current[data.userMessageId];
-        if (typeof pendingAnger === 'number') {
+        const pendingAnalysis = pendingAnalysisRef.current[userMessageId];
+        if (pendingAnalysis) {
           setMessages((prev) => {
             const next = [...prev];
-            const i = next.findIndex((m) => m.id === data.userMessageId);
-            if (i >= 0) next[i] = { ...next[i], analysis: { anger: pendingAnger } } as ChatMessage;
+            const i = next.findIndex((m) => m.id === userMessageId);
+            if (i >= 0) next[i] = { ...next[i], analysis: pendingAnalysis } as ChatMessage;
             return next;
           });
-          delete pendingAnalysisRef.current[data.userMessageId];
+          delete pendingAnalysisRef.current[userMessageId];
         }
       }
-      if (data.chatId && !chatId) {
-        setChatId(data.chatId);
+      if (result.chatId && !chatId) {
+        setChatId(result.chatId);
       }
 
-      // Immediately append assistant reply once with server-provided id; Realtime will no-op due to dedupe
-      if (data.assistantMessageId && typeof data.reply === 'string') {
+      // Swap the streamed placeholder for the server-provided id; drop it if Realtime already delivered the row
+      if (assistantMessageId && typeof reply === 'string') {
         setMessages((prev) => {
-          if (prev.some((m) => m.id === data.assistantMessageId)) return prev;
-          return [...prev, { id: data.assistantMessageId, role: 'assistant', content: data.reply } as ChatMessage];
+          const withoutStream = prev.filter((m) => m.id !== streamId);
+          if (withoutStream.some((m) => m.id === assistantMessageId)) return withoutStream;
+          const idx = prev.findIndex((m) => m.id === streamId);
+          const finalMsg: ChatMessage = {
+            id: assistantMessageId,
+            role: 'assistant',
+            content: reply,
+            userId: myUserId,
+            replyTo: userMessageId ?? null,
+            activeVariant: true,
+          };
+          if (idx < 0) return [...prev, finalMsg];
+          const next = [...prev];
+          next[idx] = finalMsg;
+          return next;
         });
       }
 
       // Backfill in case INSERT/UPDATE happened before SUBSCRIBED
-      const finalChatId: string | null = chatId ?? data.chatId ?? null;
+      const finalChatId: string | null = chatId ?? result.chatId ?? null;
       if (finalChatId) {
         try {
           const { data: recent } = await supabase
             .from('messages')
-            .select('id, role, content, analysis')
+            .select(MESSAGE_COLUMNS)
             .eq('chat_id', finalChatId)
+            .is('deleted_at', null)
             .order('created_at', { ascending: true })
             .limit(10);
           if (recent && Array.isArray(recent)) {
             setMessages((prev) => {
               const ids = new Set(prev.map((m) => m.id));
-              const toAdd = recent
-                .filter((m: any) => !ids.has(m.id))
-                .map((m: any) => ({ id: m.id, role: m.role, content: m.content, analysis: m.analysis ?? null } as ChatMessage));
+              const toAdd = recent.filter((m: any) => !ids.has(m.id)).map(toChatMessage);
               return toAdd.length ? [...prev, ...toAdd] : prev;
             });
           }
         } catch {}
       }
+      return true;
     } catch (e) {
       const err: ChatMessage = {
         id: 'err-' + String(Date.now()),
@@ -217,36 +332,201 @@ export default function ChatScreen() {
         content: 'Failed to reach chatbot. Please try again.',
       };
       setMessages((prev) => [...prev, err]);
+      return false;
     } finally {
       setSending(false);
     }
-  }, [input, sending, messages, chatId, supabase]);
+  }, [chatId, myUserId]);
+
+  const send = useCallback(async () => {
+    const content = input.trim();
+    if (!content || sending) return;
+    setInput('');
+    if (editing) {
+      // Rewrite in place and drop everything after it; the server does the same before asking again
+      const target = editing;
+      setEditing(null);
+      setMessages((prev) => {
+        const idx = prev.findIndex((m) => m.id === target.id);
+        if (idx < 0) return prev;
+        return [...prev.slice(0, idx), { ...prev[idx], content, analysis: null, editedAt: new Date().toISOString() }];
+      });
+      const ok = await streamTurn({ action: 'edit', messageId: target.id, content }, null);
+      if (!ok) loadMessages();
+      return;
+    }
+    const userMsg: ChatMessage = { id: String(Date.now()), role: 'user', content };
+    setMessages((prev) => [...prev, userMsg]);
+    await streamTurn({ action: 'send', content }, userMsg.id);
+  }, [input, sending, editing, streamTurn, loadMessages]);
+
+  const visibleMessages = useMemo(() => messages.filter((m) => m.activeVariant !== false), [messages]);
+
+  // Reply variants for the same user message, oldest first
+  const variantsOf = useCallback(
+    (item: ChatMessage) =>
+      item.role === 'assistant' && item.replyTo
+        ? messages.filter((m) => m.role === 'assistant' && m.replyTo === item.replyTo)
+        : [item],
+    [messages]
+  );
+
+  const regenerate = useCallback(async (reply: ChatMessage) => {
+    if (sending) return;
+    const idx = visibleMessages.findIndex((m) => m.id === reply.id);
+    const answered = [...visibleMessages.slice(0, idx)].reverse().find((m) => m.role === 'user');
+    // Keep the current reply as a hidden variant while the new one streams in
+    setMessages((prev) =>
+      prev.map((m) => (m.id === reply.id ? { ...m, activeVariant: false, replyTo: m.replyTo ?? answered?.id ?? null } : m))
+    );
+    const ok = await streamTurn({ action: 'regenerate' }, null);
+    if (!ok) loadMessages();
+  }, [sending, visibleMessages, streamTurn, loadMessages]);
+
+  const selectVariant = useCallback(async (variant: ChatMessage) => {
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.role === 'assistant' && m.replyTo === variant.replyTo ? { ...m, activeVariant: m.id === variant.id } : m
+      )
+    );
+    try {
+      await api.selectReplyVariant({ query: { id: variant.id }, body: { activeVariant: true } });
+    } catch (e: any) {
+      Alert.alert('Could not switch replies', e?.message ?? 'Please try again.');
+      loadMessages();
+    }
+  }, [loadMessages]);
+
+  const remove = useCallback(async (item: ChatMessage) => {
+    try {
+      await api.deleteMessage({ query: { id: item.id } });
+    } catch (e: any) {
+      Alert.alert('Could not delete message', e?.message ?? 'Please try again.');
+      return;
+    }
+    // Deleting a message can take its replies with it or promote another variant; reload to match
+    await loadMessages();
+  }, [loadMessages]);
+
+  const openActions = useCallback((item: ChatMessage) => {
+    if (sending || !isStored(item) || !myUserId || item.userId !== myUserId) return;
+    const last = visibleMessages[visibleMessages.length - 1];
+    const lastUser = [...visibleMessages].reverse().find((m) => m.role === 'user');
+    const buttons: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [];
+    if (item.role === 'user' && lastUser?.id === item.id) {
+      buttons.push({
+        text: 'Edit',
+        onPress: () => {
+          setEditing(item);
+          setInput(item.content);
+        },
+      });
+    }
+    if (item.role === 'assistant' && last?.id === item.id && variantsOf(item).length < MAX_REPLY_VARIANTS) {
+      buttons.push({ text: 'Regenerate', onPress: () => regenerate(item) });
+    }
+    buttons.push({
+      text: 'Delete',
+      style: 'destructive',
+      onPress: () =>
+        Alert.alert(
+          'Delete message?',
+          item.role === 'user' ? 'Replies to this message are deleted too.' : undefined,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Delete', style: 'destructive', onPress: () => remove(item) },
+          ]
+        ),
+    });
+    buttons.push({ text: 'Cancel', style: 'cancel' });
+    Alert.alert(item.role === 'user' ? 'Your message' : 'Counselor reply', undefined, buttons);
+  }, [sending, myUserId, visibleMessages, variantsOf, regenerate, remove]);
 
   const renderItem = ({ item }: { item: ChatMessage }) => {
     if (item.role === 'system') return null;
-    const isUser = item.role === 'user';
+    // Messages without an author (optimistic) or authored by us are ours; others come from the partner
+    const isPartner = item.role === 'user' && !!item.userId && !!myUserId && item.userId !== myUserId;
+    const isUser = item.role === 'user' && !isPartner;
+    const variants = variantsOf(item);
+    const variantIndex = variants.findIndex((m) => m.id === item.id);
     return (
-      <View style={[styles.bubble, isUser ? styles.userBubble : styles.botBubble]}>
+      <Pressable
+        onLongPress={() => openActions(item)}
+        delayLongPress={350}
+        style={[styles.bubble, isUser ? styles.userBubble : isPartner ? styles.partnerBubble : styles.botBubble]}>
+        {chatKind === 'joint' && (
+          <Text style={[styles.speaker, styles.botText]}>{isUser ? 'You' : isPartner ? 'Partner' : 'Counselor'}</Text>
+        )}
         <Text style={[styles.text, isUser ? styles.userText : styles.botText]}>{item.content}</Text>
-        {isUser && typeof item.analysis?.anger === 'number' && (
-          <Text style={[styles.meta, isUser ? styles.userText : styles.botText]}>Anger: {item.analysis?.anger}/5</Text>
+        {isUser && hasAnalysis(item.analysis) && (
+          <Text style={[styles.meta, isUser ? styles.userText : styles.botText]}>{describeAnalysis(item.analysis)}</Text>
         )}
-      </View>
+        {item.editedAt && <Text style={[styles.meta, styles.userText]}>Edited</Text>}
+        {variants.length > 1 && variantIndex >= 0 && (
+          <View style={styles.variantRow}>
+            <TouchableOpacity
+              disabled={variantIndex === 0 || sending}
+              onPress={() => selectVariant(variants[variantIndex - 1])}
+              hitSlop={8}>
+              <Text style={[styles.variantArrow, variantIndex === 0 && styles.variantDisabled]}>‹</Text>
+            </TouchableOpacity>
+            <Text style={[styles.meta, styles.botText]}>{variantIndex + 1}/{variants.length}</Text>
+            <TouchableOpacity
+              disabled={variantIndex === variants.length - 1 || sending}
+              onPress={() => selectVariant(variants[variantIndex + 1])}
+              hitSlop={8}>
+              <Text style={[styles.variantArrow, variantIndex === variants.length - 1 && styles.variantDisabled]}>›</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </Pressable>
     );
   };
 
   return (
     <SafeAreaView style={{ flex: 1 }}>
+      <ThemedView style={styles.header}>
+        <ThemedText type="defaultSemiBold" numberOfLines={1} style={{ flex: 1 }}>
+          {chatKind === 'joint' ? 'Joint · ' : ''}{chatTitle || 'New conversation'}
+        </ThemedText>
+        <TouchableOpacity
+          onPress={() => router.push({ pathname: '/exercises', params: chatId ? { chatId } : {} })}
+          style={styles.headerBtn}>
+          <ThemedText style={{ fontWeight: '600' }}>Exercises</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setPickerOpen(true)} style={styles.headerBtn}>
+          <ThemedText style={{ fontWeight: '600' }}>Chats</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+      <ChatPicker
+        visible={pickerOpen}
+        activeChatId={chatId}
+        onSelect={selectChat}
+        onClose={() => setPickerOpen(false)}
+      />
       <ThemedView style={{ flex: 1, paddingHorizontal: 12, paddingTop: 8 }}>
         <FlatList
           ref={flatListRef}
-          data={messages}
+          data={visibleMessages}
           keyExtractor={(item) => item.id}
           renderItem={renderItem}
           contentContainerStyle={{ paddingVertical: 12 }}
         />
+        {safety && <SafetyResources safety={safety} onDismiss={() => setSafety(null)} />}
       </ThemedView>
       <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        {editing && (
+          <View style={styles.editingBar}>
+            <ThemedText style={{ flex: 1 }}>Editing your message; replies after it will be replaced</ThemedText>
+            <TouchableOpacity
+              onPress={() => {
+                setEditing(null);
+                setInput('');
+              }}>
+              <ThemedText style={{ fontWeight: '600' }}>Cancel</ThemedText>
+            </TouchableOpacity>
+          </View>
+        )}
         <View style={styles.inputRow}>
           <TextInput
             style={styles.input}
@@ -257,7 +537,7 @@ export default function ChatScreen() {
             multiline
           />
           <TouchableOpacity onPress={send} disabled={sending || input.trim().length === 0} style={styles.sendBtn}>
-            <ThemedText style={{ fontWeight: '600' }}>{sending ? '...' : 'Send'}</ThemedText>
+            <ThemedText style={{ fontWeight: '600' }}>{sending ? '...' : editing ? 'Save' : 'Send'}</ThemedText>
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
@@ -265,15 +545,20 @@ export default function ChatScreen() {
   );
 }
 
-function getApiUrl(path: string) {
-  const envBase = process.env.EXPO_PUBLIC_API_BASE?.trim();
-  if (envBase) return `${envBase}${path}`;
-  // Sensible defaults for local dev
-  const base = Platform.OS === 'android' ? 'http://10.0.2.2:3000' : 'http://localhost:3000';
-  return `${base}${path}`;
-}
-
 const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  headerBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 10,
+    backgroundColor: '#4c8bf5',
+  },
   inputRow: {
     flexDirection: 'row',
     alignItems: 'flex-end',
@@ -311,6 +596,15 @@ const styles = StyleSheet.create({
   botBubble: {
     backgroundColor: '#2a2a2a',
   },
+  partnerBubble: {
+    backgroundColor: '#6b4fbb',
+  },
+  speaker: {
+    fontSize: 11,
+    fontWeight: '700',
+    opacity: 0.8,
+    marginBottom: 2,
+  },
   text: {
     fontSize: 16,
     lineHeight: 20,
@@ -323,6 +617,27 @@ const styles = StyleSheet.create({
   userText: {
     color: '#fff',
   },
+  variantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 4,
+  },
+  variantArrow: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  variantDisabled: {
+    opacity: 0.3,
+  },
+  editingBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingTop: 8,
+  },
   botText: {
     color: '#fff',
   },
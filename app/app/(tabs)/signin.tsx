@@ -4,6 +4,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { ThemedView } from '@/components/themed-view';
 import { ThemedText } from '@/components/themed-text';
+import { Link } from 'expo-router';
 
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL as string;
 const supabaseAnon = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY as string;
@@ -56,6 +57,18 @@ export default function SignInScreen() {
         {sessionEmail ? (
           <View>
             <ThemedText>Signed in as {sessionEmail}</ThemedText>
+            <Link href="/invite" style={styles.link}>
+              <ThemedText type="link">Invite or link your partner</ThemedText>
+            </Link>
+            <Link href="/progress" style={styles.link}>
+              <ThemedText type="link">See your assessment progress</ThemedText>
+            </Link>
+            <Link href="/insights" style={styles.link}>
+              <ThemedText type="link">See your emotional trends</ThemedText>
+            </Link>
+            <Link href="/exercises" style={styles.link}>
+              <ThemedText type="link">Try a guided exercise</ThemedText>
+            </Link>
             <TouchableOpacity onPress={signOut} style={styles.button}><Text style={styles.buttonText}>Sign Out</Text></TouchableOpacity>
           </View>
         ) : (
@@ -126,6 +139,9 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     backgroundColor: '#4c8bf5',
   },
+  link: {
+    marginTop: 12,
+  },
   secondary: {
     backgroundColor: '#2a2a2a',
   },
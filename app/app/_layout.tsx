@@ -17,6 +17,11 @@ export default function RootLayout() {
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        <Stack.Screen name="invite" options={{ title: 'Partner invite' }} />
+        <Stack.Screen name="progress" options={{ title: 'Your progress' }} />
+        <Stack.Screen name="insights" options={{ title: 'Emotional trends' }} />
+        <Stack.Screen name="exercises" options={{ title: 'Guided exercises' }} />
+        <Stack.Screen name="exercise" options={{ title: 'Exercise' }} />
       </Stack>
       <StatusBar style="auto" />
     </ThemeProvider>
@@ -0,0 +1,341 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, SafeAreaView, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ThemedView } from '@/components/themed-view';
+import { ThemedText } from '@/components/themed-text';
+import type { ExerciseSession, ExerciseStep } from '@tapfocus/api-client';
+import { api } from '@/lib/api';
+
+type Value = ExerciseSession['inputs'][string];
+
+// Session actions the screen sends; the session id is added when sending
+type Action = { action: 'back' } | { action: 'answer'; stepId: string; value?: Value };
+
+const MINUTES_STEP = 5;
+
+// The saved answer when revisiting a step, otherwise the input's empty state
+function initialValue(step: ExerciseStep, inputs: Record<string, Value>): Value | undefined {
+  const saved = inputs[step.id];
+  if (saved !== undefined) return saved;
+  if (step.input.type === 'text') return '';
+  if (step.input.type === 'multi_choice') return [];
+  if (step.input.type === 'minutes') return step.input.defaultValue;
+  return undefined;
+}
+
+function isAnswered(value: Value | undefined) {
+  if (value === undefined) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+export default function ExerciseScreen() {
+  const params = useLocalSearchParams<{ exerciseId?: string; sessionId?: string; chatId?: string }>();
+  const router = useRouter();
+  const [session, setSession] = useState<ExerciseSession | null>(null);
+  const [value, setValue] = useState<Value | undefined>(undefined);
+  const [busy, setBusy] = useState(false);
+
+  const apply = useCallback((next: ExerciseSession) => {
+    setSession(next);
+    setValue(next.step ? initialValue(next.step, next.inputs) : undefined);
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const data = params.sessionId
+          ? await api.listExerciseSessions({ query: { id: params.sessionId } })
+          : await api.exerciseSessionAction({
+              body: { action: 'start', exerciseId: params.exerciseId ?? '', chatId: params.chatId || undefined },
+            });
+        // Asked for one session by id, so not the history list
+        if ('session' in data) apply(data.session);
+      } catch (e: any) {
+        Alert.alert('Could not open exercise', e?.message ?? 'Please try again.');
+      }
+    })();
+  }, [params.sessionId, params.exerciseId, params.chatId, apply]);
+
+  const act = useCallback(
+    async (action: Action) => {
+      if (!session) return;
+      setBusy(true);
+      try {
+        const data = await api.exerciseSessionAction({ body: { ...action, sessionId: session.id } });
+        apply(data.session);
+      } catch (e: any) {
+        Alert.alert('Something went wrong', e?.message ?? 'Please try again.');
+      } finally {
+        setBusy(false);
+      }
+    },
+    [session, apply]
+  );
+
+  const discard = useCallback(async () => {
+    if (!session) return;
+    try {
+      await api.abandonExerciseSession({ query: { id: session.id } });
+      router.back();
+    } catch (e: any) {
+      Alert.alert('Could not discard', e?.message ?? 'Please try again.');
+    }
+  }, [session, router]);
+
+  if (!session) {
+    return (
+      <ThemedView style={styles.center}>
+        <ActivityIndicator />
+      </ThemedView>
+    );
+  }
+
+  const step = session.step;
+
+  const renderInput = (s: ExerciseStep) => {
+    const input = s.input;
+    if (input.type === 'text') {
+      return (
+        <TextInput
+          style={[styles.input, input.multiline && { minHeight: 100 }]}
+          value={typeof value === 'string' ? value : ''}
+          onChangeText={setValue}
+          placeholder={s.example ? `e.g. ${s.example}` : input.placeholder}
+          placeholderTextColor="#777"
+          maxLength={input.maxLength}
+          multiline={input.multiline}
+        />
+      );
+    }
+    if (input.type === 'choice' || input.type === 'multi_choice') {
+      const selected = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+      const toggle = (option: string) => {
+        if (input.type === 'choice') return setValue(option);
+        const max = input.maxSelections ?? input.options.length;
+        if (selected.includes(option)) setValue(selected.filter((v) => v !== option));
+        else if (selected.length < max) setValue([...selected, option]);
+      };
+      return (
+        <View style={styles.options}>
+          {input.options.map((o) => (
+            <TouchableOpacity
+              key={o.value}
+              onPress={() => toggle(o.value)}
+              style={[styles.option, selected.includes(o.value) && styles.optionActive]}>
+              <Text style={styles.optionText}>{o.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      );
+    }
+    if (input.type === 'scale') {
+      const points = Array.from({ length: input.max - input.min + 1 }, (_, i) => input.min + i);
+      return (
+        <View style={{ gap: 6 }}>
+          <View style={styles.scale}>
+            {points.map((p) => (
+              <TouchableOpacity key={p} onPress={() => setValue(p)} style={[styles.scalePoint, value === p && styles.optionActive]}>
+                <Text style={styles.optionText}>{p}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.scaleLabels}>
+            <Text style={styles.muted}>{input.labels.left}</Text>
+            <Text style={styles.muted}>{input.labels.right}</Text>
+          </View>
+        </View>
+      );
+    }
+    const minutes = typeof value === 'number' ? value : input.defaultValue;
+    return (
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          onPress={() => setValue(Math.max(input.min, minutes - MINUTES_STEP))}
+          style={styles.option}>
+          <Text style={styles.optionText}>−</Text>
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{minutes} min</Text>
+        <TouchableOpacity
+          onPress={() => setValue(Math.min(input.max, minutes + MINUTES_STEP))}
+          style={styles.option}>
+          <Text style={styles.optionText}>+</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={{ flex: 1 }}>
+      <ThemedView style={{ flex: 1 }}>
+        <ScrollView contentContainerStyle={{ padding: 16, gap: 16 }} keyboardShouldPersistTaps="handled">
+          <ThemedText type="subtitle">{session.title}</ThemedText>
+
+          {session.stale && session.status === 'in_progress' && (
+            <ThemedText>This exercise has been updated since you started. Start it again from the list.</ThemedText>
+          )}
+
+          {step && !session.stale && (
+            <View style={styles.card}>
+              <Text style={styles.muted}>Step {session.answeredSteps + 1}</Text>
+              <Text style={styles.prompt}>{step.prompt}</Text>
+              {step.help && <Text style={styles.body}>{step.help}</Text>}
+              {renderInput(step)}
+              <View style={styles.actions}>
+                {session.canGoBack && (
+                  <TouchableOpacity disabled={busy} onPress={() => act({ action: 'back' })} style={styles.secondaryBtn}>
+                    <Text style={styles.optionText}>Back</Text>
+                  </TouchableOpacity>
+                )}
+                {!step.required && (
+                  <TouchableOpacity
+                    disabled={busy}
+                    onPress={() => act({ action: 'answer', stepId: step.id })}
+                    style={styles.secondaryBtn}>
+                    <Text style={styles.optionText}>Skip</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  disabled={busy || !isAnswered(value)}
+                  onPress={() => act({ action: 'answer', stepId: step.id, value })}
+                  style={[styles.primaryBtn, (busy || !isAnswered(value)) && { opacity: 0.5 }]}>
+                  <Text style={styles.optionText}>{busy ? '...' : 'Next'}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {session.status === 'completed' && session.output && (
+            <View style={styles.card}>
+              <Text style={styles.prompt}>{session.output.title}</Text>
+              <Text style={styles.result}>{session.output.text}</Text>
+              {session.output.sections.map((s) => (
+                <View key={s.label} style={{ gap: 2 }}>
+                  <Text style={styles.muted}>{s.label}</Text>
+                  <Text style={styles.body}>{s.value}</Text>
+                </View>
+              ))}
+              {session.chatId && (
+                // Hand the finished statement to the conversation it was launched from, ready to edit and send
+                <TouchableOpacity
+                  onPress={() => router.navigate({ pathname: '/chat', params: { draft: session.output?.text } })}
+                  style={styles.primaryBtn}>
+                  <Text style={styles.optionText}>Use in chat</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {session.status === 'in_progress' && (
+            <TouchableOpacity onPress={discard}>
+              <Text style={styles.muted}>Discard this exercise</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  card: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#1f1f1f',
+    gap: 10,
+  },
+  prompt: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  result: {
+    color: '#fff',
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  body: {
+    color: '#ddd',
+  },
+  muted: {
+    color: '#aaa',
+    fontSize: 12,
+  },
+  input: {
+    minHeight: 44,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#2a2a2a',
+    color: '#fff',
+    textAlignVertical: 'top',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#2a2a2a',
+  },
+  optionActive: {
+    backgroundColor: '#4c8bf5',
+  },
+  optionText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  scale: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  scalePoint: {
+    width: 34,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+  },
+  scaleLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  stepperValue: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  primaryBtn: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: '#4c8bf5',
+  },
+  secondaryBtn: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#2a2a2a',
+  },
+});
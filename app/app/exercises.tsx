@@ -0,0 +1,119 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, RefreshControl, SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { ThemedView } from '@/components/themed-view';
+import { ThemedText } from '@/components/themed-text';
+import type { ExerciseCatalogEntry, ExerciseSession } from '@tapfocus/api-client';
+import { api } from '@/lib/api';
+
+export default function ExercisesScreen() {
+  // Set when opened from a conversation; new sessions are linked to it
+  const { chatId } = useLocalSearchParams<{ chatId?: string }>();
+  const router = useRouter();
+  const [exercises, setExercises] = useState<ExerciseCatalogEntry[]>([]);
+  const [sessions, setSessions] = useState<ExerciseSession[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [catalog, history] = await Promise.all([
+        api.getExercises(),
+        api.listExerciseSessions(),
+      ]);
+      // Without an id both list; the single-item shapes are for lookups by id
+      if ('exercises' in catalog) setExercises(catalog.exercises);
+      if ('sessions' in history) setSessions(history.sessions.filter((s) => s.status !== 'abandoned'));
+    } catch (e: any) {
+      Alert.alert('Could not load exercises', e?.message ?? 'Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const unfinished = sessions.filter((s) => s.status === 'in_progress' && !s.stale);
+  const completed = sessions.filter((s) => s.status === 'completed');
+
+  return (
+    <SafeAreaView style={{ flex: 1 }}>
+      <ThemedView style={{ flex: 1 }}>
+        <ScrollView
+          contentContainerStyle={{ padding: 16, gap: 16 }}
+          refreshControl={<RefreshControl refreshing={loading} onRefresh={load} />}>
+          {exercises.map((e) => (
+            <TouchableOpacity
+              key={e.id}
+              style={styles.card}
+              onPress={() => router.push({ pathname: '/exercise', params: { exerciseId: e.id, chatId } })}>
+              <Text style={styles.cardTitle}>{e.title}</Text>
+              <Text style={styles.body}>{e.description}</Text>
+              <Text style={styles.muted}>About {e.estimatedMinutes} min</Text>
+            </TouchableOpacity>
+          ))}
+
+          {unfinished.length > 0 && (
+            <View style={{ gap: 8 }}>
+              <ThemedText type="defaultSemiBold">Pick up where you left off</ThemedText>
+              {unfinished.map((s) => (
+                <TouchableOpacity
+                  key={s.id}
+                  style={styles.row}
+                  onPress={() => router.push({ pathname: '/exercise', params: { sessionId: s.id } })}>
+                  <Text style={styles.body}>{s.title ?? s.exerciseId}</Text>
+                  <Text style={styles.muted}>{new Date(s.updatedAt).toLocaleString()}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {completed.length > 0 && (
+            <View style={{ gap: 8 }}>
+              <ThemedText type="defaultSemiBold">Your history</ThemedText>
+              {completed.map((s) => (
+                <TouchableOpacity
+                  key={s.id}
+                  style={styles.row}
+                  onPress={() => router.push({ pathname: '/exercise', params: { sessionId: s.id } })}>
+                  <Text style={styles.body}>{s.output?.title ?? s.title ?? s.exerciseId}</Text>
+                  <Text style={styles.muted} numberOfLines={2}>{s.output?.text}</Text>
+                  <Text style={styles.muted}>{new Date(s.updatedAt).toLocaleDateString()}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#1f1f1f',
+    gap: 6,
+  },
+  cardTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  row: {
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: '#2a2a2a',
+    gap: 2,
+  },
+  body: {
+    color: '#ddd',
+  },
+  muted: {
+    color: '#aaa',
+    fontSize: 12,
+  },
+});
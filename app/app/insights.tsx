@@ -0,0 +1,280 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, RefreshControl, SafeAreaView, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { ThemedView } from '@/components/themed-view';
+import { ThemedText } from '@/components/themed-text';
+import type { DailyEmotionPoint, EmotionTrends } from '@tapfocus/api-client';
+import { api } from '@/lib/api';
+
+type Subject = EmotionTrends['subject'];
+
+const DAYS = 30;
+const CHART_HEIGHT = 90;
+// Scores are on a 1-5 scale
+const SCALE_MAX = 5;
+
+const SERIES: { key: keyof DailyEmotionPoint['averages']; label: string; color: string }[] = [
+  { key: 'anger', label: 'Anger', color: '#e5484d' },
+  { key: 'warmth', label: 'Warmth', color: '#3fb950' },
+];
+
+function formatHour(hour: number) {
+  const suffix = hour < 12 ? 'am' : 'pm';
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`;
+}
+
+function heatColor(value: number | null) {
+  if (value === null) return '#2a2a2a';
+  const alpha = Math.min(1, Math.max(0.15, (value - 1) / (SCALE_MAX - 1)));
+  return `rgba(229, 72, 77, ${alpha.toFixed(2)})`;
+}
+
+export default function InsightsScreen() {
+  const [subject, setSubject] = useState<Subject>('self');
+  const [trends, setTrends] = useState<EmotionTrends | null>(null);
+  const [unavailable, setUnavailable] = useState<string | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    api
+      .getPartnerSettings()
+      .then((data) => setSharing(data.shareEmotionTrends))
+      .catch(() => {});
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setUnavailable(null);
+    try {
+      const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const data = await api.getEmotionTrends({ query: { subject, days: DAYS, tz } });
+      setTrends(data);
+    } catch (e: any) {
+      setTrends(null);
+      if (subject === 'partner') setUnavailable(e?.message ?? 'Partner trends are not available.');
+      else Alert.alert('Could not load trends', e?.message ?? 'Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [subject]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggleSharing = useCallback(async (value: boolean) => {
+    setSharing(value);
+    try {
+      await api.updatePartnerSettings({ body: { shareEmotionTrends: value } });
+    } catch (e: any) {
+      setSharing(!value);
+      Alert.alert('Could not update sharing', e?.message ?? 'Please try again.');
+    }
+  }, []);
+
+  return (
+    <SafeAreaView style={{ flex: 1 }}>
+      <ThemedView style={{ flex: 1 }}>
+        <ScrollView
+          contentContainerStyle={{ padding: 16, gap: 16 }}
+          refreshControl={<RefreshControl refreshing={loading} onRefresh={load} />}>
+          <View style={styles.segment}>
+            {(['self', 'partner'] as Subject[]).map((s) => (
+              <TouchableOpacity
+                key={s}
+                onPress={() => setSubject(s)}
+                style={[styles.segmentItem, subject === s && styles.segmentActive]}>
+                <Text style={styles.segmentText}>{s === 'self' ? 'You' : 'Your partner'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.shareRow}>
+            <ThemedText style={{ flex: 1 }}>Share my trends with my partner</ThemedText>
+            <Switch value={sharing} onValueChange={toggleSharing} />
+          </View>
+
+          {unavailable && <ThemedText>{unavailable}</ThemedText>}
+
+          {trends && trends.messageCount === 0 && (
+            <ThemedText>No analyzed messages in the last {DAYS} days yet.</ThemedText>
+          )}
+
+          {trends?.truncated && (
+            <Text style={styles.muted}>Showing the most recent {trends.messageCount} messages; earlier days are left out.</Text>
+          )}
+
+          {trends && trends.daily.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>7-day rolling average</Text>
+              <View style={styles.legend}>
+                {SERIES.map((s) => (
+                  <Text key={s.key} style={[styles.legendText, { color: s.color }]}>{s.label}</Text>
+                ))}
+              </View>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <View style={styles.chart}>
+                  {trends.daily.map((day) => (
+                    <View key={day.date} style={styles.daySlot}>
+                      <View style={styles.dayBars}>
+                        {SERIES.map((s) => (
+                          <View
+                            key={s.key}
+                            style={[
+                              styles.bar,
+                              {
+                                backgroundColor: s.color,
+                                height: Math.max(2, ((day.rolling[s.key] ?? 0) / SCALE_MAX) * CHART_HEIGHT),
+                              },
+                            ]}
+                          />
+                        ))}
+                      </View>
+                      <Text style={styles.axisLabel}>{day.date.slice(5)}</Text>
+                    </View>
+                  ))}
+                </View>
+              </ScrollView>
+            </View>
+          )}
+
+          {trends && trends.spikes.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Spikes</Text>
+              {trends.spikes.map((s) => (
+                <Text key={`${s.date}-${s.dimension}`} style={styles.body}>
+                  {s.date}: {s.dimension} reached {s.value} (usually around {s.baseline})
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {trends && trends.messageCount > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Anger by time of day</Text>
+              <View style={styles.hourGrid}>
+                {trends.angerByHour.map((h) => (
+                  <View key={h.hour} style={[styles.hourCell, { backgroundColor: heatColor(h.averageAnger) }]}>
+                    <Text style={styles.hourText}>{formatHour(h.hour)}</Text>
+                  </View>
+                ))}
+              </View>
+              {trends.elevatedHours.length > 0 && (
+                <Text style={styles.body}>
+                  Anger tends to run higher around {trends.elevatedHours.map(formatHour).join(', ')}.
+                </Text>
+              )}
+            </View>
+          )}
+
+          {trends && trends.chats.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>By conversation</Text>
+              {trends.chats.map((c) => (
+                <View key={c.chatId} style={styles.chatRow}>
+                  <Text style={styles.body} numberOfLines={1}>{c.title || 'Untitled conversation'}</Text>
+                  <Text style={styles.muted}>
+                    {c.count} messages · anger {c.averages.anger ?? '–'} · warmth {c.averages.warmth ?? '–'}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  segment: {
+    flexDirection: 'row',
+    borderRadius: 10,
+    backgroundColor: '#2a2a2a',
+    padding: 4,
+  },
+  segmentItem: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  segmentActive: {
+    backgroundColor: '#4c8bf5',
+  },
+  segmentText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  shareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  card: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#1f1f1f',
+    gap: 10,
+  },
+  cardTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  legend: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  legendText: {
+    fontWeight: '600',
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+    minHeight: CHART_HEIGHT + 16,
+  },
+  daySlot: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  dayBars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+  },
+  bar: {
+    width: 8,
+    borderRadius: 3,
+  },
+  axisLabel: {
+    color: '#aaa',
+    fontSize: 9,
+  },
+  hourGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  hourCell: {
+    width: 44,
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  hourText: {
+    color: '#fff',
+    fontSize: 11,
+  },
+  chatRow: {
+    gap: 2,
+  },
+  body: {
+    color: '#ddd',
+  },
+  muted: {
+    color: '#aaa',
+    fontSize: 12,
+  },
+});
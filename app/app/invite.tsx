@@ -0,0 +1,167 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, SafeAreaView, Share, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { ThemedView } from '@/components/themed-view';
+import { ThemedText } from '@/components/themed-text';
+import type { PartnerInvite } from '@tapfocus/api-client';
+import { api, ApiRequestError } from '@/lib/api';
+
+// Friendlier wording for the outcomes of accepting or declining a code
+const RESPONSE_ERRORS: Record<string, string> = {
+  PARTNER_ALREADY_LINKED: 'You are already linked with a partner. Unlink first to accept a new invite.',
+  PARTNER_UNAVAILABLE: 'The person who invited you has since linked with someone else.',
+  PARTNER_SELF: 'This is your own invite. Share it with your partner instead.',
+  INVITE_NOT_FOUND: 'No invite matches that code. Check it and try again.',
+  INVITE_EXPIRED: 'This invite has expired. Ask your partner for a new code.',
+  INVITE_NOT_PENDING: 'This invite has already been used or withdrawn.',
+};
+
+function responseErrorMessage(e: unknown): string {
+  if (e instanceof ApiRequestError && e.code && RESPONSE_ERRORS[e.code]) return RESPONSE_ERRORS[e.code];
+  return e instanceof Error ? e.message : 'Please try again.';
+}
+
+// Reached directly or via the deep link app://invite?code=XXXXXXXX
+export default function InviteScreen() {
+  const params = useLocalSearchParams<{ code?: string }>();
+  const [code, setCode] = useState(typeof params.code === 'string' ? params.code.toUpperCase() : '');
+  const [invite, setInvite] = useState<PartnerInvite | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    api
+      .listInvites()
+      .then((data) => setInvite(data.invites.find((i) => i.status === 'pending') ?? null))
+      .catch(() => {});
+  }, []);
+
+  const createInvite = useCallback(async () => {
+    setBusy(true);
+    try {
+      const data = await api.inviteAction({ body: { action: 'create' } });
+      if ('invite' in data) setInvite(data.invite);
+    } catch (e: any) {
+      Alert.alert('Could not create invite', e?.message ?? 'Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const revokeInvite = useCallback(async () => {
+    if (!invite) return;
+    setBusy(true);
+    try {
+      await api.revokeInvites({ query: { id: invite.id } });
+      setInvite(null);
+    } catch (e: any) {
+      Alert.alert('Could not revoke invite', e?.message ?? 'Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  }, [invite]);
+
+  const respond = useCallback(
+    async (action: 'accept' | 'decline') => {
+      const trimmed = code.trim();
+      if (!trimmed) return;
+      setBusy(true);
+      try {
+        await api.inviteAction({ body: { action, code: trimmed } });
+        Alert.alert(action === 'accept' ? 'You are now linked' : 'Invite declined');
+        setCode('');
+      } catch (e) {
+        Alert.alert(action === 'accept' ? 'Could not accept invite' : 'Could not decline invite', responseErrorMessage(e));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [code]
+  );
+
+  return (
+    <SafeAreaView style={{ flex: 1 }}>
+      <ThemedView style={{ flex: 1, padding: 16, gap: 24 }}>
+        <View style={{ gap: 10 }}>
+          <ThemedText type="subtitle">Invite your partner</ThemedText>
+          {invite ? (
+            <View style={{ gap: 10 }}>
+              <Text style={styles.code}>{invite.code}</Text>
+              <ThemedText>Expires {new Date(invite.expiresAt).toLocaleString()}</ThemedText>
+              <View style={styles.row}>
+                <TouchableOpacity
+                  onPress={() => Share.share({ message: `Join me on TapFocus Tandem: ${invite.deepLink} (code ${invite.code})` })}
+                  style={styles.button}>
+                  <Text style={styles.buttonText}>Share</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={revokeInvite} disabled={busy} style={[styles.button, styles.secondary]}>
+                  <Text style={styles.buttonText}>Revoke</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <TouchableOpacity onPress={createInvite} disabled={busy} style={styles.button}>
+              <Text style={styles.buttonText}>{busy ? '...' : 'Create invite code'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={{ gap: 10 }}>
+          <ThemedText type="subtitle">Have a code?</ThemedText>
+          <TextInput
+            style={styles.input}
+            placeholder="ABCD2345"
+            placeholderTextColor="#666"
+            autoCapitalize="characters"
+            autoCorrect={false}
+            value={code}
+            onChangeText={(t) => setCode(t.toUpperCase())}
+          />
+          <View style={styles.row}>
+            <TouchableOpacity onPress={() => respond('accept')} disabled={busy} style={styles.button}>
+              <Text style={styles.buttonText}>Accept</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => respond('decline')} disabled={busy} style={[styles.button, styles.secondary]}>
+              <Text style={styles.buttonText}>Decline</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  code: {
+    color: '#4c8bf5',
+    fontSize: 32,
+    fontWeight: '700',
+    letterSpacing: 4,
+  },
+  input: {
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: '#fff',
+    color: '#000',
+    fontSize: 18,
+    letterSpacing: 2,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#4c8bf5',
+  },
+  secondary: {
+    backgroundColor: '#2a2a2a',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
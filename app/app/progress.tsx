@@ -0,0 +1,174 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, RefreshControl, SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { ThemedView } from '@/components/themed-view';
+import { ThemedText } from '@/components/themed-text';
+import type { DimensionTrend, TestCatalogEntry } from '@tapfocus/api-client';
+import { api } from '@/lib/api';
+
+const DEFAULT_TEST_ID = 'communication-v1';
+const CHART_HEIGHT = 80;
+
+function formatChange(change: number | null) {
+  if (change === null) return 'first attempt';
+  return `${change > 0 ? '+' : ''}${change} since last`;
+}
+
+export default function ProgressScreen() {
+  const [tests, setTests] = useState<TestCatalogEntry[]>([]);
+  const [testId, setTestId] = useState(DEFAULT_TEST_ID);
+  const [trends, setTrends] = useState<DimensionTrend[]>([]);
+  const [highlights, setHighlights] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    api
+      .listTests()
+      .then((data) => setTests(data.tests))
+      .catch(() => {});
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await api.listTestResults({ query: { test_id: testId } });
+      setTrends(data.trends);
+      setHighlights(data.highlights);
+    } catch (e: any) {
+      Alert.alert('Could not load your results', e?.message ?? 'Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [testId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <SafeAreaView style={{ flex: 1 }}>
+      <ThemedView style={{ flex: 1 }}>
+        <ScrollView
+          contentContainerStyle={{ padding: 16, gap: 16 }}
+          refreshControl={<RefreshControl refreshing={loading} onRefresh={load} />}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+            {tests.map((t) => (
+              <TouchableOpacity
+                key={t.id}
+                onPress={() => setTestId(t.id)}
+                style={[styles.chip, t.id === testId && styles.activeChip]}>
+                <Text style={styles.chipText}>{t.title}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          {highlights.length > 0 && (
+            <View style={styles.highlights}>
+              {highlights.map((h) => (
+                <Text key={h} style={styles.highlightText}>{h}</Text>
+              ))}
+            </View>
+          )}
+
+          {trends.length === 0 && !loading ? (
+            <ThemedText>Take this assessment to start tracking your progress.</ThemedText>
+          ) : (
+            trends.map((trend) => (
+              <View key={trend.dimension} style={styles.card}>
+                <View style={styles.cardHeader}>
+                  <Text style={styles.cardTitle}>{trend.label}</Text>
+                  <Text style={[styles.change, trend.meaningful && styles[trend.direction]]}>
+                    {trend.latest} · {formatChange(trend.changeFromPrevious)}
+                  </Text>
+                </View>
+                <View style={styles.chart}>
+                  {trend.points.map((p) => (
+                    <View key={p.resultId} style={styles.barSlot}>
+                      <View style={[styles.bar, { height: Math.max(2, (p.percent / 100) * CHART_HEIGHT) }]} />
+                      <Text style={styles.barLabel}>
+                        {new Date(p.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#2a2a2a',
+  },
+  activeChip: {
+    backgroundColor: '#4c8bf5',
+  },
+  chipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  highlights: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#1f2a3d',
+    gap: 4,
+  },
+  highlightText: {
+    color: '#d6e4ff',
+  },
+  card: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#2a2a2a',
+    gap: 10,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  cardTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  change: {
+    color: '#aaa',
+  },
+  up: {
+    color: '#3fb950',
+  },
+  down: {
+    color: '#e5484d',
+  },
+  steady: {
+    color: '#aaa',
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+    minHeight: CHART_HEIGHT + 16,
+  },
+  barSlot: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  bar: {
+    width: 18,
+    borderRadius: 4,
+    backgroundColor: '#4c8bf5',
+  },
+  barLabel: {
+    color: '#aaa',
+    fontSize: 10,
+  },
+});
@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, FlatList, Modal, SafeAreaView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import type { ChatListItem } from '@tapfocus/api-client';
+import { api } from '@/lib/api';
+
+// `isOwner` is false for joint sessions started by the partner: those can be read and posted to, not managed
+export type ChatSummary = ChatListItem;
+
+type Props = {
+  visible: boolean;
+  activeChatId: string | null;
+  onSelect: (chat: ChatSummary | null) => void;
+  onClose: () => void;
+};
+
+export function ChatPicker({ visible, activeChatId, onSelect, onClose }: Props) {
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const data = await api.listChats({ query: showArchived ? { archived: 'true' } : {} });
+      setChats(data.chats);
+    } catch (e: any) {
+      Alert.alert('Could not load conversations', e?.message ?? 'Please try again.');
+    }
+  }, [showArchived]);
+
+  useEffect(() => {
+    if (visible) load();
+  }, [visible, load]);
+
+  const createChat = useCallback(async (kind: 'solo' | 'joint') => {
+    try {
+      const data = await api.createChat({ body: { kind } });
+      onSelect({ ...data.chat, lastMessage: null });
+    } catch (e: any) {
+      Alert.alert('Could not start a conversation', e?.message ?? 'Please try again.');
+    }
+  }, [onSelect]);
+
+  const update = useCallback(
+    async (id: string, body: { title?: string; archived?: boolean }) => {
+      try {
+        await api.updateChat({ query: { id }, body });
+        await load();
+      } catch (e: any) {
+        Alert.alert('Could not update conversation', e?.message ?? 'Please try again.');
+      }
+    },
+    [load]
+  );
+
+  const remove = useCallback(
+    (chat: ChatSummary) => {
+      Alert.alert('Delete conversation?', 'This permanently deletes all of its messages.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await api.deleteChat({ query: { id: chat.id } });
+              if (chat.id === activeChatId) onSelect(null);
+              await load();
+            } catch (e: any) {
+              Alert.alert('Could not delete conversation', e?.message ?? 'Please try again.');
+            }
+          },
+        },
+      ]);
+    },
+    [activeChatId, load, onSelect]
+  );
+
+  const submitRename = useCallback(async () => {
+    const title = renameText.trim();
+    const id = renamingId;
+    setRenamingId(null);
+    if (id && title) await update(id, { title });
+  }, [renameText, renamingId, update]);
+
+  const renderItem = ({ item }: { item: ChatSummary }) => {
+    const isActive = item.id === activeChatId;
+    return (
+      <View style={[styles.row, isActive && styles.activeRow]}>
+        {renamingId === item.id ? (
+          <TextInput
+            style={styles.renameInput}
+            value={renameText}
+            onChangeText={setRenameText}
+            onSubmitEditing={submitRename}
+            onBlur={submitRename}
+            autoFocus
+            returnKeyType="done"
+          />
+        ) : (
+          <TouchableOpacity onPress={() => onSelect(item)}>
+            <Text style={styles.title} numberOfLines={1}>
+              {item.kind === 'joint' ? 'Joint · ' : ''}{item.title || 'New conversation'}
+            </Text>
+            {item.lastMessage && (
+              <Text style={styles.preview} numberOfLines={1}>{item.lastMessage.preview}</Text>
+            )}
+          </TouchableOpacity>
+        )}
+        {item.isOwner && (
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => { setRenamingId(item.id); setRenameText(item.title ?? ''); }}>
+              <Text style={styles.action}>Rename</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => update(item.id, { archived: !item.archivedAt })}>
+              <Text style={styles.action}>{item.archivedAt ? 'Unarchive' : 'Archive'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => remove(item)}>
+              <Text style={[styles.action, styles.destructive]}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.heading}>Conversations</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.action}>Close</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.toolbar}>
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => createChat('solo')} style={styles.newBtn}>
+              <Text style={styles.newBtnText}>New conversation</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => createChat('joint')} style={[styles.newBtn, styles.jointBtn]}>
+              <Text style={styles.newBtnText}>Joint session</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity onPress={() => setShowArchived((v) => !v)}>
+            <Text style={styles.action}>{showArchived ? 'Hide archived' : 'Show archived'}</Text>
+          </TouchableOpacity>
+        </View>
+        <FlatList
+          data={chats}
+          keyExtractor={(item) => item.id}
+          renderItem={renderItem}
+          ListEmptyComponent={<Text style={styles.preview}>No conversations yet.</Text>}
+          contentContainerStyle={{ padding: 12 }}
+        />
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#151718',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 12,
+  },
+  heading: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+  },
+  newBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#4c8bf5',
+  },
+  jointBtn: {
+    backgroundColor: '#6b4fbb',
+  },
+  newBtnText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  row: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: '#2a2a2a',
+    gap: 6,
+  },
+  activeRow: {
+    borderWidth: 1,
+    borderColor: '#4c8bf5',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  preview: {
+    color: '#aaa',
+    fontSize: 13,
+  },
+  renameInput: {
+    color: '#fff',
+    fontSize: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#4c8bf5',
+    paddingVertical: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  action: {
+    color: '#4c8bf5',
+    fontWeight: '600',
+  },
+  destructive: {
+    color: '#e5484d',
+  },
+});
@@ -0,0 +1,86 @@
+import { Linking, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { SafetyPayload, SafetyResource } from '@tapfocus/api-client';
+
+export type { SafetyPayload, SafetyResource };
+
+function openResource(resource: SafetyResource) {
+  const digits = resource.contact.replace(/[^\d+]/g, '');
+  // Phone-like contacts dial directly; everything else opens the resource website
+  if (digits.length >= 3 && /^[\d\s+-]+$/.test(resource.contact)) {
+    Linking.openURL(`tel:${digits}`).catch(() => {});
+  } else if (resource.url) {
+    Linking.openURL(resource.url).catch(() => {});
+  }
+}
+
+export function SafetyResources({ safety, onDismiss }: { safety: SafetyPayload; onDismiss?: () => void }) {
+  return (
+    <View style={[styles.card, safety.severity === 'high' ? styles.high : styles.moderate]} accessibilityRole="alert">
+      <Text style={styles.title}>You don&apos;t have to handle this alone</Text>
+      <Text style={styles.body}>If you are in immediate danger, contact emergency services now.</Text>
+      {safety.resources.map((r) => (
+        <TouchableOpacity key={`${r.kind}-${r.contact}`} onPress={() => openResource(r)} style={styles.resource}>
+          <Text style={styles.resourceName}>{r.name}</Text>
+          <Text style={styles.resourceContact}>{r.contact}</Text>
+        </TouchableOpacity>
+      ))}
+      {onDismiss && (
+        <TouchableOpacity onPress={onDismiss} style={styles.dismiss}>
+          <Text style={styles.dismissText}>Dismiss</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 14,
+    padding: 14,
+    marginVertical: 8,
+    gap: 8,
+  },
+  high: {
+    backgroundColor: '#8b1e1e',
+  },
+  moderate: {
+    backgroundColor: '#7a4a12',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  body: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  resource: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#ffffff22',
+  },
+  resourceName: {
+    color: '#fff',
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  resourceContact: {
+    color: '#fff',
+    fontWeight: '700',
+    marginLeft: 8,
+  },
+  dismiss: {
+    alignSelf: 'flex-end',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  dismissText: {
+    color: '#fff',
+    opacity: 0.8,
+  },
+});
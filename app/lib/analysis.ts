@@ -0,0 +1,38 @@
+// Client view of messages.analysis. Rows written before multi-dimensional analysis
+// only carry { anger }, so every other field is optional.
+export type MessageAnalysis = {
+  version?: number;
+  anger?: number;
+  sadness?: number;
+  anxiety?: number;
+  contempt?: number;
+  defensiveness?: number;
+  stonewalling?: number;
+  warmth?: number;
+  primaryNeed?: string;
+  fallback?: boolean;
+};
+
+const DIMENSION_LABELS: [keyof MessageAnalysis, string][] = [
+  ['sadness', 'Sadness'],
+  ['anxiety', 'Anxiety'],
+  ['contempt', 'Contempt'],
+  ['defensiveness', 'Defensiveness'],
+  ['stonewalling', 'Stonewalling'],
+  ['warmth', 'Warmth'],
+];
+
+export function hasAnalysis(analysis?: MessageAnalysis | null): analysis is MessageAnalysis {
+  return typeof analysis?.anger === 'number';
+}
+
+// One-line label for a message bubble: anger always, other dimensions only when elevated (>= 3)
+export function describeAnalysis(analysis: MessageAnalysis): string {
+  const parts = [`Anger: ${analysis.anger}/5`];
+  for (const [key, label] of DIMENSION_LABELS) {
+    const value = analysis[key];
+    if (typeof value === 'number' && value >= 3) parts.push(`${label}: ${value}/5`);
+  }
+  if (analysis.primaryNeed && analysis.primaryNeed !== 'none') parts.push(`Need: ${analysis.primaryNeed}`);
+  return parts.join(' · ');
+}
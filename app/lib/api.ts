@@ -0,0 +1,23 @@
+import { Platform } from 'react-native';
+import { createApiClient } from '@tapfocus/api-client';
+import { supabase } from '@/lib/supabase';
+
+export { ApiRequestError } from '@tapfocus/api-client';
+
+export function getApiUrl(path: string) {
+  const envBase = process.env.EXPO_PUBLIC_API_BASE?.trim();
+  if (envBase) return `${envBase}${path}`;
+  // Sensible defaults for local dev
+  const base = Platform.OS === 'android' ? 'http://10.0.2.2:3000' : 'http://localhost:3000';
+  return `${base}${path}`;
+}
+
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const token = sessionData.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// Typed operations generated from the API's OpenAPI document (npm run generate:client at the repo root);
+// a response or payload that drifts from the server's schemas fails the type check
+export const api = createApiClient({ baseUrl: getApiUrl(''), headers: getAuthHeaders });
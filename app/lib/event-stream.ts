@@ -0,0 +1,80 @@
+import type { ErrorBody } from '@tapfocus/api-client';
+import { ApiRequestError } from '@/lib/api';
+
+// Minimal Server-Sent Events reader over XMLHttpRequest.
+// React Native's fetch does not expose a streaming body, but XHR progress events
+// deliver the growing responseText incrementally on every platform.
+
+export type StreamEvent = { event: string; data: unknown };
+
+// `E` narrows the events to what the endpoint declares (e.g. SendMessageEvent from the API client)
+export function postEventStream<E extends StreamEvent = StreamEvent>(
+  url: string,
+  opts: { headers?: Record<string, string>; body: unknown; onEvent: (evt: E) => void }
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let offset = 0;
+    let buffer = '';
+
+    const drain = () => {
+      const text = xhr.responseText ?? '';
+      if (text.length <= offset) return;
+      buffer += text.slice(offset);
+      offset = text.length;
+      let sep = buffer.indexOf('\n\n');
+      while (sep >= 0) {
+        const block = buffer.slice(0, sep);
+        buffer = buffer.slice(sep + 2);
+        const evt = parseBlock(block);
+        if (evt) opts.onEvent(evt as E);
+        sep = buffer.indexOf('\n\n');
+      }
+    };
+
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    for (const [k, v] of Object.entries(opts.headers ?? {})) xhr.setRequestHeader(k, v);
+    xhr.onprogress = drain;
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        drain();
+        resolve();
+      } else {
+        reject(toRequestError(xhr));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Stream request failed'));
+    xhr.send(JSON.stringify(opts.body));
+  });
+}
+
+// Errors raised before the stream starts come back as a plain JSON error body
+function toRequestError(xhr: XMLHttpRequest): ApiRequestError {
+  let data: Partial<ErrorBody> | null = null;
+  try {
+    data = JSON.parse(xhr.responseText);
+  } catch {}
+  return new ApiRequestError(
+    data?.error || `Stream request failed with status ${xhr.status}`,
+    data?.code ?? null,
+    xhr.status,
+    data?.requestId ?? xhr.getResponseHeader('X-Request-Id')
+  );
+}
+
+function parseBlock(block: string): StreamEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice('event:'.length).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice('data:'.length).trim());
+  }
+  if (dataLines.length === 0) return null;
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return null;
+  }
+}
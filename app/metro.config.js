@@ -0,0 +1,10 @@
+// https://docs.expo.dev/guides/customizing-metro/
+const path = require('path');
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// The generated API client lives outside the app (packages/api-client) and ships as TypeScript source
+config.watchFolders = [path.resolve(__dirname, '../packages/api-client')];
+
+module.exports = config;
@@ -0,0 +1,947 @@
+// Generated by scripts/generate-api-client.ts from the API's OpenAPI document (/api/openapi.json).
+// Do not edit; run `npm run generate:client` after changing an endpoint or its schemas.
+import { request, type ApiClientOptions } from './runtime';
+
+export type AbandonExerciseSessionResponse = {
+  ok: true;
+};
+
+export type AbandonTestAttemptResponse = {
+  ok: true;
+};
+
+export type Answer = {
+  questionId: string;
+  value: number | string | string[];
+};
+
+export type Chat = {
+  id: string;
+  title: string | null;
+  kind: 'solo' | 'joint';
+  isOwner: boolean;
+  createdAt: string;
+  updatedAt: string;
+  archivedAt: string | null;
+};
+
+export type ChatListItem = {
+  id: string;
+  title: string | null;
+  kind: 'solo' | 'joint';
+  isOwner: boolean;
+  createdAt: string;
+  updatedAt: string;
+  archivedAt: string | null;
+  lastMessage: {
+    role: string;
+    preview: string;
+    createdAt: string;
+  } | null;
+};
+
+export type ChatReply = {
+  action: 'send' | 'regenerate' | 'edit';
+  reply: string;
+  model: string;
+  chatId: string;
+  userMessageId: string;
+  assistantMessageId: string | null;
+  variantCount: number;
+  safety: SafetyPayload | null;
+};
+
+export type Compatibility = {
+  testId: string;
+  dimensions: {
+    dimension: string;
+    label: string;
+    you: number;
+    partner: number;
+    gap: number;
+  }[];
+  you: {
+    primary: string;
+    secondary: string;
+  };
+  partner: {
+    primary: string;
+    secondary: string;
+  };
+  sharedStrengths: string[];
+  complementaryStrengths: string[];
+  frictionPoints: string[];
+  conversationPrompts: string[];
+  basedOn: {
+    yourResultAt: string;
+    partnerResultAt: string;
+  };
+};
+
+export type CreateChatRequest = {
+  title?: string;
+  kind?: 'solo' | 'joint';
+};
+
+export type CreateChatResponse = {
+  chat: Chat;
+};
+
+export type DailyEmotionPoint = {
+  date: string;
+  count: number;
+  averages: {
+    anger: number | null;
+    sadness: number | null;
+    anxiety: number | null;
+    contempt: number | null;
+    defensiveness: number | null;
+    stonewalling: number | null;
+    warmth: number | null;
+  };
+  rolling: {
+    anger: number | null;
+    sadness: number | null;
+    anxiety: number | null;
+    contempt: number | null;
+    defensiveness: number | null;
+    stonewalling: number | null;
+    warmth: number | null;
+  };
+};
+
+export type DeleteChatResponse = {
+  ok: true;
+};
+
+export type DeleteMessageResponse = {
+  ok: true;
+};
+
+export type DimensionScore = {
+  id: string;
+  label: string;
+  raw: number;
+  max: number;
+  percent: number;
+};
+
+export type DimensionTrend = {
+  testId: string;
+  dimension: string;
+  label: string;
+  points: {
+    resultId: string;
+    createdAt: string;
+    percent: number;
+  }[];
+  latest: number;
+  changeFromPrevious: number | null;
+  changeFromFirst: number | null;
+  direction: 'up' | 'down' | 'steady';
+  meaningful: boolean;
+};
+
+export type EmotionAnalysis = {
+  anger: number;
+  sadness: number;
+  anxiety: number;
+  contempt: number;
+  defensiveness: number;
+  stonewalling: number;
+  warmth: number;
+  version: 2;
+  primaryNeed: 'connection' | 'respect' | 'understanding' | 'security' | 'autonomy' | 'appreciation' | 'fairness' | 'rest' | 'none';
+  fallback?: true;
+};
+
+export type EmotionTrends = {
+  subject: 'self' | 'partner';
+  range: {
+    from: string;
+    to: string;
+    days: number;
+  };
+  timeZone: string;
+  window: number;
+  messageCount: number;
+  truncated: boolean;
+  daily: DailyEmotionPoint[];
+  chats: {
+    chatId: string;
+    title: string | null;
+    count: number;
+    averages: {
+      anger: number | null;
+      sadness: number | null;
+      anxiety: number | null;
+      contempt: number | null;
+      defensiveness: number | null;
+      stonewalling: number | null;
+      warmth: number | null;
+    };
+    daily: DailyEmotionPoint[];
+  }[];
+  spikes: {
+    date: string;
+    dimension: 'anger' | 'sadness' | 'anxiety' | 'contempt' | 'defensiveness' | 'stonewalling' | 'warmth';
+    value: number;
+    baseline: number;
+  }[];
+  angerByHour: {
+    hour: number;
+    count: number;
+    averageAnger: number | null;
+  }[];
+  elevatedHours: number[];
+};
+
+export type ErrorBody = {
+  /** Message fit to show the user */
+  error: string;
+  /** Stable, machine-readable error code (see api/_lib/errors.ts) */
+  code: string;
+  requestId: string;
+  [key: string]: unknown;
+};
+
+export type Exercise = {
+  id: string;
+  title: string;
+  description: string;
+  version: number;
+  category: 'communication' | 'conflict' | 'repair' | 'self_regulation';
+  estimatedMinutes: number;
+  startStep: string;
+  steps: ExerciseStep[];
+};
+
+export type ExerciseCatalogEntry = {
+  id: string;
+  title: string;
+  description: string;
+  version: number;
+  category: 'communication' | 'conflict' | 'repair' | 'self_regulation';
+  estimatedMinutes: number;
+  stepCount: number;
+};
+
+export type ExerciseOutput = {
+  title: string;
+  text: string;
+  sections: {
+    label: string;
+    value: string;
+  }[];
+};
+
+export type ExerciseSession = {
+  id: string;
+  exerciseId: string;
+  exerciseVersion: number;
+  title: string | null;
+  stale: boolean;
+  chatId: string | null;
+  status: 'in_progress' | 'completed' | 'abandoned';
+  step: ExerciseStep | null;
+  answeredSteps: number;
+  canGoBack: boolean;
+  inputs: {
+    [key: string]: number | string | string[];
+  };
+  output: ExerciseOutput | null;
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+};
+
+export type ExerciseSessionActionRequest = {
+  action: 'start';
+  exerciseId: string;
+  chatId?: string;
+} | {
+  action: 'answer';
+  sessionId: string;
+  stepId: string;
+  value?: number | string | string[];
+} | {
+  action: 'back';
+  sessionId: string;
+};
+
+export type ExerciseSessionActionResponse = {
+  session: ExerciseSession;
+};
+
+export type ExerciseStep = {
+  id: string;
+  prompt: string;
+  help?: string;
+  example?: string;
+  required: boolean;
+  input: {
+    type: 'text';
+    maxLength?: number;
+    placeholder?: string;
+    multiline?: boolean;
+  } | {
+    type: 'choice';
+    options: {
+      value: string;
+      label: string;
+    }[];
+  } | {
+    type: 'multi_choice';
+    options: {
+      value: string;
+      label: string;
+    }[];
+    minSelections?: number;
+    maxSelections?: number;
+  } | {
+    type: 'scale';
+    min: number;
+    max: number;
+    labels: {
+      left: string;
+      right: string;
+    };
+  } | {
+    type: 'minutes';
+    min: number;
+    max: number;
+    defaultValue: number;
+  };
+};
+
+export type FlaggedPattern = {
+  type: 'blame' | 'absolute' | 'contempt' | 'criticism' | 'defensiveness' | 'stonewalling';
+  match: string | null;
+  index: number | null;
+  explanation: string;
+  source: 'rule' | 'analysis';
+};
+
+export type GetCompatibilityResponse = {
+  compatibility: Compatibility;
+};
+
+export type GetEmotionTrendsResponse = EmotionTrends;
+
+export type GetExercisesResponse = {
+  exercise: Exercise;
+} | {
+  exercises: ExerciseCatalogEntry[];
+};
+
+export type GetOpenApiDocumentResponse = {
+  [key: string]: unknown;
+};
+
+export type GetPartnerSettingsResponse = {
+  shareResults: boolean;
+  shareEmotionTrends: boolean;
+  partnerId: string | null;
+};
+
+export type GetSessionResponse = {
+  user: User;
+};
+
+export type GetTestByBodyRequest = {
+  testId?: string;
+};
+
+export type GetTestByBodyResponse = {
+  test: TestDefinition;
+};
+
+export type GetTestResponse = {
+  test: TestDefinition;
+};
+
+export type HistoricalResult = {
+  id: string;
+  testId: string;
+  score: number;
+  percentile: number;
+  summary: string | null;
+  dimensions: DimensionScore[];
+  style: {
+    primary: string;
+    secondary: string;
+  } | null;
+  band: {
+    label: string;
+    narrative: string;
+  } | null;
+  createdAt: string;
+};
+
+export type InviteActionRequest = {
+  action: 'create';
+  ttlMinutes?: number;
+} | {
+  action: 'accept';
+  code: string;
+} | {
+  action: 'decline';
+  code: string;
+};
+
+export type InviteActionResponse = {
+  invite: PartnerInvite;
+} | {
+  ok: true;
+  partnerId?: string;
+};
+
+export type ListChatsResponse = {
+  chats: ChatListItem[];
+};
+
+export type ListExerciseSessionsResponse = {
+  session: ExerciseSession;
+} | {
+  sessions: ExerciseSession[];
+};
+
+export type ListInvitesResponse = {
+  invites: PartnerInvite[];
+};
+
+export type ListTestAttemptsResponse = {
+  attempt: TestAttempt;
+} | {
+  attempts: TestAttempt[];
+};
+
+export type ListTestResultsResponse = {
+  results: HistoricalResult[];
+  trends: DimensionTrend[];
+  highlights: string[];
+};
+
+export type ListTestsResponse = {
+  tests: TestCatalogEntry[];
+};
+
+export type PartnerInvite = {
+  id: string;
+  code: string;
+  status: 'pending' | 'accepted' | 'declined' | 'revoked' | 'expired';
+  expiresAt: string;
+  createdAt: string;
+  respondedAt: string | null;
+  deepLink: string;
+};
+
+export type PingResponse = {
+  ok: true;
+  message: string;
+};
+
+export type RevokeInvitesResponse = {
+  ok: true;
+};
+
+export type Rewrite = {
+  text: string;
+  approach: string;
+};
+
+export type RewriteDraftRequest = {
+  draft: string;
+  toPartner?: boolean;
+  model?: string;
+  locale?: string;
+};
+
+export type RewriteDraftResponse = {
+  analysis: EmotionAnalysis | null;
+  patterns: FlaggedPattern[];
+  rewrites: Rewrite[];
+  model?: string;
+  fallback?: true;
+  basedOn?: {
+    yourStyle: {
+      primary: string;
+      secondary: string;
+    } | null;
+    partnerStyle: {
+      primary: string;
+      secondary: string;
+    } | null;
+  };
+  safety: SafetyPayload | null;
+};
+
+export type SafetyPayload = {
+  severity: 'none' | 'low' | 'moderate' | 'high';
+  categories: ('self_harm' | 'violence' | 'abuse')[];
+  locale: string;
+  resources: SafetyResource[];
+  templated: boolean;
+};
+
+export type SafetyResource = {
+  kind: 'emergency' | 'crisis' | 'abuse';
+  name: string;
+  contact: string;
+  url?: string;
+};
+
+export type SelectReplyVariantRequest = {
+  activeVariant: true;
+};
+
+export type SelectReplyVariantResponse = {
+  ok: true;
+  messageId: string;
+  replyTo: string;
+};
+
+export type SendMessageEvent = {
+  event: 'safety';
+  data: SafetyPayload;
+} | {
+  event: 'delta';
+  data: {
+    content: string;
+  };
+} | {
+  event: 'done';
+  data: ChatReply;
+} | {
+  event: 'error';
+  data: ErrorBody;
+};
+
+export type SendMessageRequest = {
+  action: 'send';
+  chatId?: string;
+  content: string;
+  model?: string;
+  stream?: boolean;
+  locale?: string;
+} | {
+  action: 'regenerate';
+  chatId: string;
+  model?: string;
+  stream?: boolean;
+  locale?: string;
+} | {
+  action: 'edit';
+  chatId: string;
+  messageId: string;
+  content: string;
+  model?: string;
+  stream?: boolean;
+  locale?: string;
+};
+
+export type SendMessageResponse = ChatReply;
+
+export type SubmitTestRequest = {
+  testId?: string;
+  answers: {
+    questionId: string;
+    value: number | string | string[];
+  }[];
+};
+
+export type SubmitTestResponse = {
+  result: TestResult;
+};
+
+export type TestAttempt = {
+  id: string;
+  testId: string;
+  testVersion: number;
+  stale: boolean;
+  status: 'in_progress' | 'completed' | 'abandoned' | 'expired';
+  answers: Answer[];
+  answeredCount: number;
+  totalQuestions: number | null;
+  resultId: string | null;
+  startedAt: string;
+  updatedAt: string;
+  expiresAt: string;
+  completedAt: string | null;
+};
+
+export type TestAttemptActionRequest = {
+  action: 'start';
+  testId: string;
+} | {
+  action: 'save';
+  attemptId: string;
+  answers: {
+    questionId: string;
+    value: number | string | string[];
+  }[];
+} | {
+  action: 'finalize';
+  attemptId: string;
+  answers?: {
+    questionId: string;
+    value: number | string | string[];
+  }[];
+};
+
+export type TestAttemptActionResponse = {
+  attempt: TestAttempt;
+  resumed?: boolean;
+} | {
+  result: {
+    testId: string;
+    score: number;
+    percentile: number;
+    style: {
+      primary: string;
+      secondary: string;
+    };
+    dimensions: DimensionScore[];
+    band: {
+      label: string;
+      narrative: string;
+    } | null;
+    summary: string;
+    id: string;
+  };
+  attemptId: string;
+};
+
+export type TestCatalogEntry = {
+  id: string;
+  title: string;
+  description: string;
+  category: 'communication' | 'attachment' | 'connection' | 'conflict';
+  estimatedMinutes: number;
+  itemCount: number;
+};
+
+export type TestDefinition = {
+  id: string;
+  title: string;
+  description: string;
+  version: number;
+  category: 'communication' | 'attachment' | 'connection' | 'conflict';
+  estimatedMinutes: number;
+  questions: TestQuestion[];
+  scoring: {
+    dimensions: {
+      id: string;
+      label: string;
+      narrative: string;
+      strength?: string;
+      discussionPrompt?: string;
+    }[];
+    items: {
+      questionId: string;
+      dimension: string;
+      weight?: number;
+      reverse?: boolean;
+    }[];
+    bands?: {
+      min: number;
+      max: number;
+      label: string;
+      narrative: string;
+    }[];
+    summaryTemplate?: string;
+  };
+};
+
+export type TestQuestion = {
+  id: string;
+  text: string;
+  required?: boolean;
+  type: 'likert';
+  scaleLabels: {
+    left: string;
+    right: string;
+  };
+} | {
+  id: string;
+  text: string;
+  required?: boolean;
+  type: 'forced_choice';
+  options: {
+    value: string;
+    label: string;
+    dimension?: string;
+    points?: number;
+  }[];
+} | {
+  id: string;
+  text: string;
+  required?: boolean;
+  type: 'single_select';
+  options: {
+    value: string;
+    label: string;
+    dimension?: string;
+    points?: number;
+  }[];
+} | {
+  id: string;
+  text: string;
+  required?: boolean;
+  type: 'multi_select';
+  options: {
+    value: string;
+    label: string;
+    dimension?: string;
+    points?: number;
+  }[];
+  minSelections?: number;
+  maxSelections?: number;
+} | {
+  id: string;
+  text: string;
+  required?: boolean;
+  type: 'ranking';
+  options: {
+    value: string;
+    label: string;
+    dimension?: string;
+    points?: number;
+  }[];
+} | {
+  id: string;
+  text: string;
+  required?: boolean;
+  type: 'slider';
+  min: number;
+  max: number;
+  step?: number;
+  scaleLabels: {
+    left: string;
+    right: string;
+  };
+} | {
+  id: string;
+  text: string;
+  required?: boolean;
+  type: 'free_text';
+  maxLength?: number;
+  placeholder?: string;
+};
+
+export type TestResult = {
+  testId: string;
+  score: number;
+  percentile: number;
+  style: {
+    primary: string;
+    secondary: string;
+  };
+  dimensions: DimensionScore[];
+  band: {
+    label: string;
+    narrative: string;
+  } | null;
+  summary: string;
+};
+
+export type UnlinkPartnerResponse = {
+  ok: true;
+};
+
+export type UpdateChatRequest = {
+  title?: string;
+  archived?: boolean;
+};
+
+export type UpdateChatResponse = {
+  chat: Chat;
+};
+
+export type UpdatePartnerSettingsRequest = {
+  shareResults?: boolean;
+  shareEmotionTrends?: boolean;
+};
+
+export type UpdatePartnerSettingsResponse = {
+  ok: true;
+  shareResults: boolean;
+  shareEmotionTrends: boolean;
+};
+
+export type User = {
+  id: string;
+  email?: string | null;
+};
+
+export type ListChatsQuery = {
+  archived?: string;
+};
+
+export type UpdateChatQuery = {
+  id: string;
+};
+
+export type DeleteChatQuery = {
+  id: string;
+};
+
+export type SelectReplyVariantQuery = {
+  id: string;
+};
+
+export type DeleteMessageQuery = {
+  id: string;
+};
+
+export type RevokeInvitesQuery = {
+  id?: string;
+};
+
+export type GetEmotionTrendsQuery = {
+  subject?: 'self' | 'partner';
+  days?: number;
+  window?: number;
+  chat_id?: string;
+  tz?: string;
+};
+
+export type ListTestsQuery = {
+  category?: string;
+};
+
+export type ListTestResultsQuery = {
+  test_id?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+};
+
+export type ListTestAttemptsQuery = {
+  id?: string;
+  test_id?: string;
+};
+
+export type AbandonTestAttemptQuery = {
+  id: string;
+};
+
+export type GetExercisesQuery = {
+  id?: string;
+  category?: string;
+};
+
+export type ListExerciseSessionsQuery = {
+  id?: string;
+  status?: 'in_progress' | 'completed' | 'abandoned';
+  exercise_id?: string;
+  chat_id?: string;
+};
+
+export type AbandonExerciseSessionQuery = {
+  id: string;
+};
+
+export type GetTestQuery = {
+  testId?: string;
+};
+
+export function createApiClient(options: ApiClientOptions) {
+  return {
+    /** The signed-in user */
+    getSession: () =>
+      request<GetSessionResponse>(options, 'GET', '/api/auth'),
+    /** Send a message, regenerate the last reply or edit the last message */
+    sendMessage: (input: { body: SendMessageRequest }) =>
+      request<SendMessageResponse>(options, 'POST', '/api/chat', input),
+    /** The caller's chats and joint sessions with a last message preview */
+    listChats: (input: { query?: ListChatsQuery } = {}) =>
+      request<ListChatsResponse>(options, 'GET', '/api/chats', input),
+    /** Start a chat, or a joint session with the linked partner */
+    createChat: (input: { body: CreateChatRequest }) =>
+      request<CreateChatResponse>(options, 'POST', '/api/chats', input),
+    /** Rename or archive a chat */
+    updateChat: (input: { query: UpdateChatQuery; body: UpdateChatRequest }) =>
+      request<UpdateChatResponse>(options, 'PATCH', '/api/chats', input),
+    /** Delete a chat with its messages */
+    deleteChat: (input: { query: DeleteChatQuery }) =>
+      request<DeleteChatResponse>(options, 'DELETE', '/api/chats', input),
+    /** Show this reply variant instead of its siblings */
+    selectReplyVariant: (input: { query: SelectReplyVariantQuery; body: SelectReplyVariantRequest }) =>
+      request<SelectReplyVariantResponse>(options, 'PATCH', '/api/messages', input),
+    /** Soft-delete a message */
+    deleteMessage: (input: { query: DeleteMessageQuery }) =>
+      request<DeleteMessageResponse>(options, 'DELETE', '/api/messages', input),
+    /** The linked partner and what the caller shares with them */
+    getPartnerSettings: () =>
+      request<GetPartnerSettingsResponse>(options, 'GET', '/api/partners'),
+    /** Opt in or out of sharing with the linked partner */
+    updatePartnerSettings: (input: { body: UpdatePartnerSettingsRequest }) =>
+      request<UpdatePartnerSettingsResponse>(options, 'PATCH', '/api/partners', input),
+    /** Unlink from the partner on both sides */
+    unlinkPartner: () =>
+      request<UnlinkPartnerResponse>(options, 'DELETE', '/api/partners'),
+    /** Compare both partners' communication styles */
+    getCompatibility: () =>
+      request<GetCompatibilityResponse>(options, 'GET', '/api/partners/compatibility'),
+    /** The caller's own invites, newest first */
+    listInvites: () =>
+      request<ListInvitesResponse>(options, 'GET', '/api/partnerInvites'),
+    /** Create an invite, or accept or decline one by code */
+    inviteAction: (input: { body: InviteActionRequest }) =>
+      request<InviteActionResponse>(options, 'POST', '/api/partnerInvites', input),
+    /** Revoke one pending invite, or all of them */
+    revokeInvites: (input: { query?: RevokeInvitesQuery } = {}) =>
+      request<RevokeInvitesResponse>(options, 'DELETE', '/api/partnerInvites', input),
+    /** Daily emotion averages, spikes and hours for the caller or their partner */
+    getEmotionTrends: (input: { query?: GetEmotionTrendsQuery } = {}) =>
+      request<GetEmotionTrendsResponse>(options, 'GET', '/api/insights/emotions', input),
+    /** Flag harmful patterns in a draft and suggest softer rewrites */
+    rewriteDraft: (input: { body: RewriteDraftRequest }) =>
+      request<RewriteDraftResponse>(options, 'POST', '/api/coach/rewrite', input),
+    /** Test catalog, optionally filtered by category */
+    listTests: (input: { query?: ListTestsQuery } = {}) =>
+      request<ListTestsResponse>(options, 'GET', '/api/tests', input),
+    /** Stored results with per-dimension trends, newest first */
+    listTestResults: (input: { query?: ListTestResultsQuery } = {}) =>
+      request<ListTestResultsResponse>(options, 'GET', '/api/tests/results', input),
+    /** One attempt, or the caller's open drafts */
+    listTestAttempts: (input: { query?: ListTestAttemptsQuery } = {}) =>
+      request<ListTestAttemptsResponse>(options, 'GET', '/api/tests/attempts', input),
+    /** Start or resume a draft, save answers, or finalize it into a result */
+    testAttemptAction: (input: { body: TestAttemptActionRequest }) =>
+      request<TestAttemptActionResponse>(options, 'POST', '/api/tests/attempts', input),
+    /** Abandon a draft */
+    abandonTestAttempt: (input: { query: AbandonTestAttemptQuery }) =>
+      request<AbandonTestAttemptResponse>(options, 'DELETE', '/api/tests/attempts', input),
+    /** Exercise catalog, or one exercise with its steps */
+    getExercises: (input: { query?: GetExercisesQuery } = {}) =>
+      request<GetExercisesResponse>(options, 'GET', '/api/exercises', input),
+    /** One session, or the caller's history */
+    listExerciseSessions: (input: { query?: ListExerciseSessionsQuery } = {}) =>
+      request<ListExerciseSessionsResponse>(options, 'GET', '/api/exercises/sessions', input),
+    /** Start a session, answer its current step, or go back one */
+    exerciseSessionAction: (input: { body: ExerciseSessionActionRequest }) =>
+      request<ExerciseSessionActionResponse>(options, 'POST', '/api/exercises/sessions', input),
+    /** Abandon an unfinished session */
+    abandonExerciseSession: (input: { query: AbandonExerciseSessionQuery }) =>
+      request<AbandonExerciseSessionResponse>(options, 'DELETE', '/api/exercises/sessions', input),
+    /** One test definition with its questions */
+    getTest: (input: { query?: GetTestQuery } = {}) =>
+      request<GetTestResponse>(options, 'GET', '/api/getTest', input),
+    /** Same as GET, with the selector in the body */
+    getTestByBody: (input: { body: GetTestByBodyRequest }) =>
+      request<GetTestByBodyResponse>(options, 'POST', '/api/getTest', input),
+    /** Score a complete set of answers and store the result */
+    submitTest: (input: { body: SubmitTestRequest }) =>
+      request<SubmitTestResponse>(options, 'POST', '/api/submitTest', input),
+    /** Liveness check */
+    ping: () =>
+      request<PingResponse>(options, 'GET', '/api/ping'),
+    /** This document */
+    getOpenApiDocument: () =>
+      request<GetOpenApiDocumentResponse>(options, 'GET', '/api/openapi'),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
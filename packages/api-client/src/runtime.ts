@@ -0,0 +1,59 @@
+// Hand-written half of the client; generated.ts declares the operations on top of `request`.
+
+import type { ErrorBody } from './generated';
+
+// A non-2xx API response; `code` is the server's stable error code when it sent one
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    readonly code: string | null,
+    readonly status: number,
+    readonly requestId: string | null
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+export type ApiClientOptions = {
+  // Origin the API is served from; operation paths start with /api
+  baseUrl: string;
+  // Called before every request, so a refreshed session token is picked up
+  headers?: () => Record<string, string> | Promise<Record<string, string>>;
+};
+
+export type RequestInput = { query?: object; body?: unknown };
+
+function queryString(query: object | undefined): string {
+  const params = Object.entries(query ?? {})
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+  return params.length ? `?${params.join('&')}` : '';
+}
+
+/** JSON request against the API; throws ApiRequestError on non-2xx. */
+export async function request<T>(
+  options: ApiClientOptions,
+  method: string,
+  path: string,
+  input: RequestInput = {}
+): Promise<T> {
+  const headers: Record<string, string> = { ...(await options.headers?.()) };
+  if (input.body !== undefined) headers['Content-Type'] = 'application/json';
+  const res = await fetch(`${options.baseUrl}${path}${queryString(input.query)}`, {
+    method,
+    headers,
+    body: input.body !== undefined ? JSON.stringify(input.body) : undefined,
+  });
+  const data: unknown = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const body = (data ?? {}) as Partial<ErrorBody>;
+    throw new ApiRequestError(
+      body.error || `Request failed with status ${res.status}`,
+      body.code ?? null,
+      res.status,
+      body.requestId ?? res.headers.get('X-Request-Id')
+    );
+  }
+  return data as T;
+}
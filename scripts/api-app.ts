@@ -0,0 +1,67 @@
+import express from 'express';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { setCors } from '../api/_lib/cors';
+import { NotFoundError } from '../api/_lib/errors';
+import { resolveRequestId, sendError } from '../api/_lib/http';
+
+// The API as one express app, mounted from the route manifest the same way Vercel serves api/*.ts.
+// Shared by the dev server and the integration tests; the env must be loaded before calling it,
+// since handlers read their config when first imported.
+
+export type ApiAppOptions = {
+  // Called for each mounted path, e.g. to log the route table
+  onRoute?: (methods: string[], path: string) => void;
+};
+
+export async function createApiApp(options: ApiAppOptions = {}) {
+  const app = express();
+
+  app.use(express.json({ limit: '2mb' }));
+
+  // Mirrors the "headers" rule in vercel.json, which covers /api responses no route handles (e.g. 404s)
+  app.use('/api', (req, res, next) => {
+    setCors(res as unknown as VercelResponse);
+    next();
+  });
+
+  // Server-Sent Event responses (streaming /api/chat) must be flushed write-by-write, not buffered or timed out
+  app.use('/api', (req, res, next) => {
+    const accept = req.headers.accept ?? '';
+    if (accept.includes('text/event-stream') || req.body?.stream === true) {
+      req.socket.setNoDelay(true);
+      req.socket.setTimeout(0);
+    }
+    next();
+  });
+
+  // Simple health endpoint
+  app.get('/api/_health', (req, res) => {
+    res.status(200).json({ ok: true });
+  });
+
+  // Each route handles CORS, preflight and method checks itself, exactly as it does on Vercel, so
+  // every method is forwarded to it
+  const { ROUTES } = await import('../api/_lib/routes');
+  for (const route of ROUTES) {
+    const { default: handler } = await route.load();
+    // Express extends the same Node request/response objects Vercel decorates
+    for (const path of [route.path, ...(route.aliases ?? [])]) {
+      app.all(path, (req, res) => handler(req as unknown as VercelRequest, res as unknown as VercelResponse));
+      options.onRoute?.([...handler.methods, 'OPTIONS'], path);
+    }
+  }
+
+  // 404 handler must be registered AFTER routes. Unknown API paths get the same error body as
+  // any route's errors: a stable code and the request id
+  app.use((req, res) => {
+    if (req.path.startsWith('/api/')) {
+      const requestId = resolveRequestId(req as unknown as VercelRequest);
+      res.setHeader('X-Request-Id', requestId);
+      sendError(res as unknown as VercelResponse, new NotFoundError('NOT_FOUND', 'Not found'), 'api', requestId);
+    } else {
+      res.status(404).send('Not Found');
+    }
+  });
+
+  return app;
+}
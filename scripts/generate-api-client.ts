@@ -0,0 +1,193 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Usage: tsx scripts/generate-api-client.ts [--check]
+// Writes the OpenAPI document and the typed operations of packages/api-client from the API's zod
+// schemas; --check only reports whether the committed files are out of date (exit code 1 if so).
+
+type JsonSchema = {
+  $ref?: string;
+  const?: unknown;
+  enum?: unknown[];
+  type?: string | string[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  not?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  description?: string;
+};
+
+type Parameter = { name: string; required: boolean; schema: JsonSchema };
+
+type Operation = {
+  operationId: string;
+  summary?: string;
+  parameters?: Parameter[];
+  requestBody?: { content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { content?: Record<string, { schema: JsonSchema }> }>;
+};
+
+const PACKAGE_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'packages', 'api-client');
+
+const HEADER = `// Generated by scripts/generate-api-client.ts from the API's OpenAPI document (/api/openapi.json).
+// Do not edit; run \`npm run generate:client\` after changing an endpoint or its schemas.
+`;
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+}
+
+function union(members: string[]): string {
+  const unique = [...new Set(members.filter((m) => m !== 'never'))];
+  if (unique.length === 0) return 'never';
+  return unique.join(' | ');
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const inner = `${indent}  `;
+  const lines: string[] = [];
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    if (property.description) lines.push(`${inner}/** ${property.description} */`);
+    const optional = schema.required?.includes(name) ? '' : '?';
+    lines.push(`${inner}${propertyKey(name)}${optional}: ${tsType(property, inner)};`);
+  }
+  const extra = schema.additionalProperties;
+  if (extra === true || (extra === undefined && !schema.properties)) {
+    lines.push(`${inner}[key: string]: unknown;`);
+  } else if (extra && typeof extra === 'object') {
+    lines.push(`${inner}[key: string]: ${tsType(extra, inner)};`);
+  }
+  return lines.length ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>';
+}
+
+function tsType(schema: JsonSchema, indent = ''): string {
+  if (schema.$ref) return schema.$ref.slice(schema.$ref.lastIndexOf('/') + 1);
+  if ('const' in schema) return literal(schema.const);
+  if (schema.enum) return union(schema.enum.map(literal));
+  if (schema.anyOf || schema.oneOf) return union((schema.anyOf ?? schema.oneOf)!.map((s) => tsType(s, indent)));
+  if (schema.allOf) return schema.allOf.map((s) => tsType(s, indent)).join(' & ');
+  if (schema.not && Object.keys(schema.not).length === 0) return 'never';
+  if (Array.isArray(schema.type)) return union(schema.type.map((type) => tsType({ ...schema, type }, indent)));
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schema.items ? tsType(schema.items, indent) : 'unknown';
+      return /[|&]/.test(item) && !item.startsWith('{') ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object':
+      return objectType(schema, indent);
+    default:
+      return 'unknown';
+  }
+}
+
+function pascalCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function jsonSchemaOf(content: Record<string, { schema: JsonSchema }> | undefined): JsonSchema | undefined {
+  return content?.['application/json']?.schema;
+}
+
+function generateOperations(document: {
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, JsonSchema> };
+}): string {
+  const types = Object.entries(document.components.schemas).map(([name, schema]) => {
+    const doc = schema.description ? `/** ${schema.description} */\n` : '';
+    return `${doc}export type ${name} = ${tsType(schema)};\n`;
+  });
+
+  const methods: string[] = [];
+  for (const [path, operations] of Object.entries(document.paths)) {
+    for (const [method, op] of Object.entries(operations)) {
+      const typeName = pascalCase(op.operationId);
+      const input: string[] = [];
+      let inputRequired = false;
+      if (op.parameters?.length) {
+        const querySchema: JsonSchema = {
+          type: 'object',
+          properties: Object.fromEntries(op.parameters.map((p) => [p.name, p.schema])),
+          required: op.parameters.filter((p) => p.required).map((p) => p.name),
+          additionalProperties: false,
+        };
+        types.push(`export type ${typeName}Query = ${tsType(querySchema)};\n`);
+        const required = op.parameters.some((p) => p.required);
+        inputRequired ||= required;
+        input.push(`query${required ? '' : '?'}: ${typeName}Query`);
+      }
+      const body = jsonSchemaOf(op.requestBody?.content);
+      if (body) {
+        inputRequired = true;
+        input.push(`body: ${tsType(body)}`);
+      }
+      const success = Object.entries(op.responses).find(([status]) => status.startsWith('2'))?.[1];
+      const response = jsonSchemaOf(success?.content);
+      const signature = input.length ? `input: { ${input.join('; ')} }${inputRequired ? '' : ' = {}'}` : '';
+      const call = `request<${response ? tsType(response) : 'unknown'}>(options, '${method.toUpperCase()}', '${path}'${input.length ? ', input' : ''})`;
+      if (op.summary) methods.push(`    /** ${op.summary} */`);
+      methods.push(`    ${op.operationId}: (${signature}) =>\n      ${call},`);
+    }
+  }
+
+  return `${HEADER}import { request, type ApiClientOptions } from './runtime';
+
+${types.join('\n')}
+export function createApiClient(options: ApiClientOptions) {
+  return {
+${methods.join('\n')}
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+`;
+}
+
+async function main() {
+  const { buildOpenApiDocument } = await import('../api/_lib/openapi');
+  const document = await buildOpenApiDocument();
+  const outputs = {
+    [join(PACKAGE_DIR, 'openapi.json')]: `${JSON.stringify(document, null, 2)}\n`,
+    [join(PACKAGE_DIR, 'src', 'generated.ts')]: generateOperations(document as never),
+  };
+
+  const check = process.argv.includes('--check');
+  let stale = false;
+  for (const [file, content] of Object.entries(outputs)) {
+    let current = '';
+    try {
+      current = readFileSync(file, 'utf8');
+    } catch {
+      // Not generated yet
+    }
+    if (current === content) continue;
+    stale = true;
+    if (!check) writeFileSync(file, content);
+    // eslint-disable-next-line no-console
+    console.log(`[generate-api-client] ${check ? 'out of date' : 'wrote'} ${file}`);
+  }
+  if (check && stale) process.exit(1);
+}
+
+main().catch((e) => {
+  // eslint-disable-next-line no-console
+  console.error('[generate-api-client] failed', e);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+
+// Same env loading order as the dev server
+dotenv.config({ path: '.env.local' });
+dotenv.config();
+
+// Usage: tsx scripts/worker.ts [--once]
+// Polls the jobs table until stopped; --once drains due jobs a single time and exits.
+async function main() {
+  const { createServiceRoleClient } = await import('../api/_lib/supabase');
+  const { runWorker } = await import('../api/_lib/jobs');
+  const { createLogger, flushTelemetry } = await import('../api/_lib/logger');
+  const log = createLogger('worker');
+
+  const service = createServiceRoleClient();
+  if (!service) {
+    // eslint-disable-next-line no-console
+    console.error('[worker] SUPABASE_SERVICE_ROLE_KEY is required');
+    process.exit(1);
+  }
+
+  const once = process.argv.includes('--once');
+  const intervalMs = Number(process.env.JOBS_POLL_INTERVAL_MS) || 5000;
+  let stopping = false;
+  process.on('SIGINT', () => (stopping = true));
+  process.on('SIGTERM', () => (stopping = true));
+
+  do {
+    try {
+      const stats = await runWorker(service);
+      if (stats.claimed || stats.backfilled || stats.expiredAttempts) log.info('run finished', stats);
+    } catch (e) {
+      log.error('run failed', { error: e });
+    }
+    // Spans and lines buffered for OTLP go out every pass, and before --once exits
+    await flushTelemetry();
+    if (!once && !stopping) await new Promise((r) => setTimeout(r, intervalMs));
+  } while (!once && !stopping);
+}
+
+main();
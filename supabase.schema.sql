@@ -8,6 +8,21 @@ create extension if not exists "pgcrypto";
 do $$
 begin
   -- Drop in dependency order (children first)
+  if exists (select 1 from information_schema.tables where table_schema = 'public' and table_name = 'usage_daily') then
+    execute 'drop table if exists public.usage_daily cascade';
+  end if;
+  if exists (select 1 from information_schema.tables where table_schema = 'public' and table_name = 'rate_limits') then
+    execute 'drop table if exists public.rate_limits cascade';
+  end if;
+  if exists (select 1 from information_schema.tables where table_schema = 'public' and table_name = 'exercise_sessions') then
+    execute 'drop table if exists public.exercise_sessions cascade';
+  end if;
+  if exists (select 1 from information_schema.tables where table_schema = 'public' and table_name = 'jobs') then
+    execute 'drop table if exists public.jobs cascade';
+  end if;
+  if exists (select 1 from information_schema.tables where table_schema = 'public' and table_name = 'safety_events') then
+    execute 'drop table if exists public.safety_events cascade';
+  end if;
   if exists (select 1 from information_schema.tables where table_schema = 'public' and table_name = 'messages') then
     execute 'drop table if exists public.messages cascade';
   end if;
@@ -17,9 +32,15 @@ begin
   if exists (select 1 from information_schema.tables where table_schema = 'public' and table_name = 'chat_messages') then
     execute 'drop table if exists public.chat_messages cascade'; -- legacy
   end if;
+  if exists (select 1 from information_schema.tables where table_schema = 'public' and table_name = 'test_attempts') then
+    execute 'drop table if exists public.test_attempts cascade';
+  end if;
   if exists (select 1 from information_schema.tables where table_schema = 'public' and table_name = 'test_results') then
     execute 'drop table if exists public.test_results cascade';
   end if;
+  if exists (select 1 from information_schema.tables where table_schema = 'public' and table_name = 'partner_invites') then
+    execute 'drop table if exists public.partner_invites cascade';
+  end if;
   if exists (select 1 from information_schema.tables where table_schema = 'public' and table_name = 'profiles') then
     execute 'drop table if exists public.profiles cascade';
   end if;
@@ -29,6 +50,11 @@ end $$;
 create table if not exists public.profiles (
   user_id uuid primary key references auth.users(id) on delete cascade,
   partner_id uuid references public.profiles(user_id) on delete set null,
+  -- Opt-in: both partners must enable this before either sees a compatibility report
+  share_test_results boolean not null default false,
+  share_emotion_trends boolean not null default false,
+  -- Billing tier: sets rate limits, daily quotas and allowed models (api/_lib/limits.ts)
+  plan text not null default 'free' check (plan in ('free','plus','pro')),
   created_at timestamp with time zone default now(),
   updated_at timestamp with time zone default now()
 );
@@ -36,7 +62,9 @@ create table if not exists public.profiles (
 create unique index if not exists profiles_user_id_idx on public.profiles(user_id);
 create index if not exists profiles_partner_id_idx on public.profiles(partner_id);
 
--- Ensure only one partner at a time via constraint and helper functions
+-- Ensure only one partner at a time via constraint and helper functions.
+-- Exceptions the API passes on to clients carry a stable error code in their HINT (see api/_lib/errors.ts).
+-- `a` is the inviter and `b` the user accepting, so the codes are worded from b's side.
 create or replace function public.link_partners(a uuid, b uuid)
 returns void
 language plpgsql
@@ -44,7 +72,7 @@ security definer
 as $$
 begin
   if a = b then
-    raise exception 'Cannot partner with yourself';
+    raise exception 'Cannot partner with yourself' using hint = 'PARTNER_SELF';
   end if;
   -- Ensure rows exist
   insert into public.profiles(user_id) values (a)
@@ -54,10 +82,10 @@ begin
 
   -- Ensure neither has a partner
   if exists (select 1 from public.profiles where user_id = a and partner_id is not null) then
-    raise exception 'User already has a partner';
+    raise exception 'User already has a partner' using hint = 'PARTNER_UNAVAILABLE';
   end if;
   if exists (select 1 from public.profiles where user_id = b and partner_id is not null) then
-    raise exception 'Partner already linked';
+    raise exception 'Partner already linked' using hint = 'PARTNER_ALREADY_LINKED';
   end if;
 
   update public.profiles set partner_id = b, updated_at = now() where user_id = a;
@@ -65,6 +93,7 @@ begin
 end;
 $$;
 
+-- Sharing was agreed with this partner, not whoever comes next, so it is switched off on both sides
 create or replace function public.unlink_partner(a uuid)
 returns void
 language plpgsql
@@ -74,10 +103,134 @@ declare
   b uuid;
 begin
   select partner_id into b from public.profiles where user_id = a;
-  update public.profiles set partner_id = null, updated_at = now() where user_id = a;
+  update public.profiles set partner_id = null, share_test_results = false, share_emotion_trends = false, updated_at = now() where user_id = a;
   if b is not null then
-    update public.profiles set partner_id = null, updated_at = now() where user_id = b;
+    update public.profiles set partner_id = null, share_test_results = false, share_emotion_trends = false, updated_at = now() where user_id = b;
+  end if;
+end;
+$$;
+
+-- Unlink the current user from their partner, on both sides
+create or replace function public.unlink_own_partner()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using hint = 'UNAUTHORIZED';
+  end if;
+  perform public.unlink_partner(auth.uid());
+end;
+$$;
+
+-- Linking goes through accept_partner_invite and unlinking through unlink_own_partner; neither takes arbitrary ids from clients
+revoke all on function public.link_partners(uuid, uuid), public.unlink_partner(uuid) from public, anon, authenticated;
+
+-- Partner invitations: the inviter shares a short-lived code (or deep link), the invitee
+-- accepts or declines. Both profiles are linked atomically only on acceptance.
+create table if not exists public.partner_invites (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  inviter_id uuid not null references auth.users(id) on delete cascade,
+  invitee_id uuid references auth.users(id) on delete set null,
+  status text not null default 'pending' check (status in ('pending','accepted','declined','revoked','expired')),
+  expires_at timestamp with time zone not null,
+  responded_at timestamp with time zone,
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists partner_invites_inviter_id_idx on public.partner_invites(inviter_id);
+
+alter table public.partner_invites enable row level security;
+
+-- Inviters manage their own invites; invitees act only through the functions below
+drop policy if exists "read own invites" on public.partner_invites;
+create policy "read own invites" on public.partner_invites
+  for select using (auth.uid() = inviter_id or auth.uid() = invitee_id);
+
+drop policy if exists "insert own invites" on public.partner_invites;
+create policy "insert own invites" on public.partner_invites
+  for insert with check (auth.uid() = inviter_id and status = 'pending');
+
+-- The only change an inviter makes directly is revoking a pending invite
+drop policy if exists "update own invites" on public.partner_invites;
+create policy "update own invites" on public.partner_invites
+  for update using (auth.uid() = inviter_id and status = 'pending')
+  with check (auth.uid() = inviter_id and status = 'revoked');
+
+revoke update on public.partner_invites from anon, authenticated;
+grant update (status) on public.partner_invites to authenticated;
+
+-- Accept an invite as the current user. Locks the invite row so two accepts cannot race,
+-- then links both profiles via link_partners (which raises if either side is already linked).
+create or replace function public.accept_partner_invite(invite_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inv public.partner_invites%rowtype;
+  me uuid := auth.uid();
+begin
+  if me is null then
+    raise exception 'Not authenticated' using hint = 'UNAUTHORIZED';
+  end if;
+  select * into inv from public.partner_invites where code = upper(invite_code) for update;
+  if not found then
+    raise exception 'Invite not found' using hint = 'INVITE_NOT_FOUND';
+  end if;
+  -- Not marked expired here: the raise would roll that back. Readers derive it from expires_at
+  if inv.status = 'pending' and inv.expires_at <= now() then
+    raise exception 'Invite expired' using hint = 'INVITE_EXPIRED';
   end if;
+  if inv.status <> 'pending' then
+    raise exception 'Invite is no longer pending' using hint = 'INVITE_NOT_PENDING';
+  end if;
+  if inv.inviter_id = me then
+    raise exception 'Cannot accept your own invite' using hint = 'PARTNER_SELF';
+  end if;
+
+  perform public.link_partners(inv.inviter_id, me);
+  update public.partner_invites
+    set status = 'accepted', invitee_id = me, responded_at = now()
+    where id = inv.id;
+  -- Any other open invites from either user are moot now
+  update public.partner_invites
+    set status = 'revoked'
+    where status = 'pending' and inviter_id in (inv.inviter_id, me);
+  return inv.inviter_id;
+end;
+$$;
+
+create or replace function public.decline_partner_invite(invite_code text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inv public.partner_invites%rowtype;
+  me uuid := auth.uid();
+begin
+  if me is null then
+    raise exception 'Not authenticated' using hint = 'UNAUTHORIZED';
+  end if;
+  select * into inv from public.partner_invites where code = upper(invite_code) for update;
+  if not found then
+    raise exception 'Invite not found' using hint = 'INVITE_NOT_FOUND';
+  end if;
+  if inv.status <> 'pending' or inv.expires_at <= now() then
+    raise exception 'Invite is no longer pending' using hint = 'INVITE_NOT_PENDING';
+  end if;
+  if inv.inviter_id = me then
+    raise exception 'Cannot decline your own invite' using hint = 'PARTNER_SELF';
+  end if;
+  update public.partner_invites
+    set status = 'declined', invitee_id = me, responded_at = now()
+    where id = inv.id;
 end;
 $$;
 
@@ -92,10 +245,69 @@ create table if not exists public.test_results (
   score integer not null,
   percentile integer not null,
   summary text,
+  result jsonb, -- scoring engine output: { dimensions: [{ id, label, raw, max, percent }], style, band }
   created_at timestamp with time zone default now()
 );
 
 create index if not exists test_results_user_id_idx on public.test_results(user_id);
+-- History queries filter by test and order by date
+create index if not exists test_results_user_test_created_idx on public.test_results(user_id, test_id, created_at desc);
+
+-- Sharing status between the current user and their partner (mutual link required)
+drop function if exists public.partner_sharing_status();
+create or replace function public.partner_sharing_status()
+returns table (
+  partner_id uuid,
+  linked boolean,
+  self_sharing boolean,
+  partner_sharing boolean,
+  self_emotion_sharing boolean,
+  partner_emotion_sharing boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    me.partner_id,
+    coalesce(them.partner_id = me.user_id, false),
+    me.share_test_results,
+    coalesce(them.share_test_results, false),
+    me.share_emotion_trends,
+    coalesce(them.share_emotion_trends, false)
+  from public.profiles me
+  left join public.profiles them on them.user_id = me.partner_id
+  where me.user_id = auth.uid();
+$$;
+
+-- Partner's latest result for a test, only when both are mutually linked and both opted in
+drop function if exists public.get_partner_test_result(text);
+create or replace function public.get_partner_test_result(p_test_id text)
+returns table (
+  id uuid,
+  test_id text,
+  answers jsonb,
+  score integer,
+  percentile integer,
+  result jsonb,
+  created_at timestamp with time zone
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select t.id, t.test_id, t.answers, t.score, t.percentile, t.result, t.created_at
+  from public.profiles me
+  join public.profiles them on them.user_id = me.partner_id and them.partner_id = me.user_id
+  join public.test_results t on t.user_id = them.user_id and t.test_id = p_test_id
+  where me.user_id = auth.uid()
+    and me.share_test_results
+    and them.share_test_results
+  order by t.created_at desc
+  limit 1;
+$$;
 
 -- RLS policies
 alter table public.profiles enable row level security;
@@ -112,6 +324,30 @@ create policy "update own profile" on public.profiles
 create policy "insert own profile" on public.profiles
   for insert with check (auth.uid() = user_id);
 
+-- Users may write their own profile, but only the service role (billing) may set the plan
+create or replace function public.protect_profile_plan()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.plan is distinct from (case when tg_op = 'UPDATE' then old.plan else 'free' end)
+     and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'Plan can only be changed by billing' using hint = 'PLAN_LOCKED';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_profile_plan on public.profiles;
+create trigger protect_profile_plan
+before insert or update on public.profiles
+for each row execute function public.protect_profile_plan();
+
+-- partner_id is only written by the partner functions above, never directly by clients
+revoke insert, update on public.profiles from anon, authenticated;
+grant insert (user_id, share_test_results, share_emotion_trends, plan) on public.profiles to authenticated;
+grant update (share_test_results, share_emotion_trends, plan, updated_at) on public.profiles to authenticated;
+
 -- legacy policies removed
 
 -- Auto-create a profile row for every new auth user
@@ -146,20 +382,85 @@ on conflict (user_id) do nothing;
 create table if not exists public.chats (
   id uuid primary key default gen_random_uuid(),
   user_id uuid references auth.users(id) on delete cascade,
-  created_at timestamp with time zone default now()
+  -- 'joint' sessions are shared with partner_user_id (the creator's linked partner at creation time)
+  -- for as long as the two stay linked
+  kind text not null default 'solo' check (kind in ('solo','joint')),
+  partner_user_id uuid references auth.users(id) on delete set null,
+  title text,
+  archived_at timestamp with time zone,
+  -- Rolling memory: summary of all messages up to and including summary_through (see api/_lib/memory.ts)
+  summary text,
+  summary_through timestamp with time zone,
+  summary_updated_at timestamp with time zone,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
 );
 
 alter table public.chats enable row level security;
 
+-- Whether `other` is the current user's partner with the link pointing both ways. Security
+-- definer so chat policies can check the partner's side, which RLS on profiles hides.
+create or replace function public.is_mutual_partner(other uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles me
+    join public.profiles them on them.user_id = me.partner_id and them.partner_id = me.user_id
+    where me.user_id = auth.uid() and them.user_id = other
+  );
+$$;
+
+-- Creator, or the partner of a joint session while the two are still linked. Security definer
+-- so policies on messages can call it without recursing through RLS on chats.
+create or replace function public.is_chat_member(target_chat uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.chats c
+    where c.id = target_chat
+      and (
+        c.user_id = auth.uid()
+        or (c.kind = 'joint' and c.partner_user_id = auth.uid() and public.is_mutual_partner(c.user_id))
+      )
+  );
+$$;
+
 drop policy if exists "read own chats" on public.chats;
 create policy "read own chats" on public.chats
-  for select using (auth.uid() = user_id);
+  for select using (
+    auth.uid() = user_id
+    or (kind = 'joint' and auth.uid() = partner_user_id and public.is_mutual_partner(user_id))
+  );
 
 drop policy if exists "insert own chats" on public.chats;
 create policy "insert own chats" on public.chats
-  for insert with check (auth.uid() = user_id);
+  for insert with check (
+    auth.uid() = user_id
+    and (
+      kind = 'solo'
+      or public.is_mutual_partner(partner_user_id)
+    )
+  );
+
+drop policy if exists "update own chats" on public.chats;
+create policy "update own chats" on public.chats
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "delete own chats" on public.chats;
+create policy "delete own chats" on public.chats
+  for delete using (auth.uid() = user_id);
 
 create index if not exists chats_user_id_idx on public.chats(user_id);
+create index if not exists chats_user_updated_idx on public.chats(user_id, updated_at desc);
+create index if not exists chats_partner_user_id_idx on public.chats(partner_user_id);
 
 create table if not exists public.messages (
   id uuid primary key default gen_random_uuid(),
@@ -167,27 +468,215 @@ create table if not exists public.messages (
   user_id uuid references auth.users(id) on delete cascade,
   role text not null check (role in ('user','assistant','system')),
   content text not null,
-  analysis jsonb,
+  analysis jsonb, -- { version: 2, anger, sadness, anxiety, contempt, defensiveness, stonewalling, warmth, primaryNeed }; legacy rows: { anger }
+  -- Assistant replies: the model that produced them and its token usage, for cost attribution
+  model text,
+  prompt_tokens integer,
+  completion_tokens integer,
+  -- Assistant replies: the user message answered. Regenerating adds another reply with the same
+  -- reply_to; exactly one of them is the active variant shown and sent to the model.
+  reply_to uuid references public.messages(id) on delete set null,
+  active_variant boolean not null default true,
+  -- Bumped on every content edit; analysis jobs are keyed by it so edits get re-analyzed
+  revision integer not null default 0,
+  edited_at timestamp with time zone,
+  -- Soft delete: hidden from the app, the model context and insights, kept for safety audits
+  deleted_at timestamp with time zone,
   created_at timestamp with time zone default now()
 );
 
 alter table public.messages enable row level security;
 
--- Users can read/insert messages only within their own chats
+-- Emotion trend aggregation reads a user's own analyzed messages by date
+create index if not exists messages_user_created_idx on public.messages(user_id, created_at);
+
+-- Partner's per-message emotion analysis since p_since (no content, no chat ids), only when
+-- both are mutually linked and both opted in to sharing emotion trends. Newest first, so the
+-- cap drops the oldest rows; the cap is one past the API's so it can tell when a range was cut.
+-- The API pages through with range(), as PostgREST returns at most max_rows per call
+create or replace function public.get_partner_emotion_analyses(p_since timestamp with time zone)
+returns table (analysis jsonb, created_at timestamp with time zone)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.analysis, m.created_at
+  from public.profiles me
+  join public.profiles them on them.user_id = me.partner_id and them.partner_id = me.user_id
+  join public.messages m on m.user_id = them.user_id and m.role = 'user' and m.analysis is not null
+  where me.user_id = auth.uid()
+    and me.share_emotion_trends
+    and them.share_emotion_trends
+    and m.deleted_at is null
+    and m.created_at >= p_since
+  order by m.created_at desc, m.id desc
+  limit 5001;
+$$;
+
+-- Users can read/insert messages only within chats they are a member of (own or joint)
 drop policy if exists "read own messages" on public.messages;
 create policy "read own messages" on public.messages
-  for select using (
-    exists(select 1 from public.chats c where c.id = chat_id and c.user_id = auth.uid())
-  );
+  for select using (public.is_chat_member(chat_id));
 
 drop policy if exists "insert own messages" on public.messages;
 create policy "insert own messages" on public.messages
-  for insert with check (
-    exists(select 1 from public.chats c where c.id = chat_id and c.user_id = auth.uid())
-  );
+  for insert with check (public.is_chat_member(chat_id) and auth.uid() = user_id);
+
+-- Authors can edit and soft-delete their own messages (and replies stored under their id) in
+-- chats they belong to. Only these columns are writable; there is no delete policy.
+drop policy if exists "update own messages" on public.messages;
+create policy "update own messages" on public.messages
+  for update using (public.is_chat_member(chat_id) and auth.uid() = user_id)
+  with check (public.is_chat_member(chat_id) and auth.uid() = user_id);
+
+revoke update on public.messages from anon, authenticated;
+grant update (content, active_variant, deleted_at) on public.messages to authenticated;
 
 create index if not exists messages_chat_id_idx on public.messages(chat_id);
 create index if not exists messages_user_id_idx on public.messages(user_id);
+create index if not exists messages_reply_to_idx on public.messages(reply_to);
+-- At most one visible variant per answered message
+create unique index if not exists messages_active_variant_idx
+  on public.messages(reply_to) where active_variant and deleted_at is null and reply_to is not null;
+
+-- Content edits clear the stale analysis and bump the revision; only user messages are editable
+create or replace function public.on_message_edited()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.content is distinct from old.content then
+    if old.role <> 'user' and coalesce(auth.role(), '') <> 'service_role' then
+      raise exception 'Only user messages can be edited' using hint = 'MESSAGE_NOT_EDITABLE';
+    end if;
+    new.analysis := null;
+    new.revision := old.revision + 1;
+    new.edited_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_message_edited on public.messages;
+create trigger on_message_edited
+before update on public.messages
+for each row execute function public.on_message_edited();
+
+-- Makes one reply variant the visible one for its answered message. Security invoker, so the
+-- caller needs the same update rights as for editing the rows directly.
+create or replace function public.select_message_variant(p_message_id uuid)
+returns void
+language plpgsql
+as $$
+declare
+  target_reply_to uuid;
+begin
+  select reply_to into target_reply_to
+  from public.messages
+  where id = p_message_id and role = 'assistant' and deleted_at is null;
+  if target_reply_to is null then
+    raise exception 'Reply variant not found' using hint = 'MESSAGE_NOT_FOUND';
+  end if;
+
+  update public.messages set active_variant = false
+  where reply_to = target_reply_to and id <> p_message_id and active_variant;
+  update public.messages set active_variant = true
+  where id = p_message_id;
+end;
+$$;
+
+-- Files replies stored before variants existed under the user message they answered, so they
+-- count and can be selected as variants. reply_to is not client-writable; this only ever points
+-- a chat's legacy replies at the caller's own user message before them in the same chat.
+create or replace function public.adopt_legacy_replies(p_message_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  answered public.messages%rowtype;
+begin
+  select * into answered
+  from public.messages
+  where id = p_message_id
+    and role = 'user'
+    and deleted_at is null
+    and (auth.role() = 'service_role' or (user_id = auth.uid() and public.is_chat_member(chat_id)));
+  if answered.id is null then
+    raise exception 'Message not found' using hint = 'MESSAGE_NOT_FOUND';
+  end if;
+
+  update public.messages set reply_to = answered.id
+  where chat_id = answered.chat_id
+    and role = 'assistant'
+    and reply_to is null
+    and deleted_at is null
+    and created_at > answered.created_at
+    and not exists (
+      select 1 from public.messages later
+      where later.chat_id = answered.chat_id
+        and later.role = 'user'
+        and later.deleted_at is null
+        and later.created_at > answered.created_at
+        and later.created_at < messages.created_at
+    );
+end;
+$$;
+
+-- Bump chats.updated_at on every new message so conversation lists sort by activity
+create or replace function public.touch_chat_on_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.chats set updated_at = now() where id = new.chat_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_message_inserted on public.messages;
+create trigger on_message_inserted
+after insert on public.messages
+for each row execute function public.touch_chat_on_message();
+
+-- Conversation list with last message preview; security invoker so RLS on chats/messages applies
+drop function if exists public.list_chats(boolean);
+create or replace function public.list_chats(include_archived boolean default false)
+returns table (
+  id uuid,
+  user_id uuid,
+  kind text,
+  title text,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone,
+  archived_at timestamp with time zone,
+  last_message text,
+  last_message_role text,
+  last_message_at timestamp with time zone
+)
+language sql
+stable
+as $$
+  select c.id, c.user_id, c.kind, c.title, c.created_at, c.updated_at, c.archived_at, m.content, m.role, m.created_at
+  from public.chats c
+  left join lateral (
+    select content, role, created_at
+    from public.messages
+    where chat_id = c.id and deleted_at is null and active_variant
+    order by created_at desc
+    limit 1
+  ) m on true
+  where (
+      c.user_id = auth.uid()
+      or (c.kind = 'joint' and c.partner_user_id = auth.uid() and public.is_mutual_partner(c.user_id))
+    )
+    and (include_archived or c.archived_at is null)
+  order by coalesce(c.updated_at, c.created_at) desc;
+$$;
 
 -- Realtime publication and replication settings (idempotent)
 -- Ensure messages table is part of supabase_realtime publication
@@ -205,6 +694,7 @@ end $$;
 
 -- Ensure UPDATEs emit full row (so Realtime has primary key on update)
 alter table public.messages replica identity full;
+-- Realtime applies the messages RLS policies, so both members of a joint session receive inserts
 
 -- Test policies
 create policy "read own tests" on public.test_results
@@ -213,3 +703,383 @@ create policy "read own tests" on public.test_results
 create policy "insert own tests" on public.test_results
   for insert with check (auth.uid() = user_id);
 
+-- In-progress assessments: partial answers saved as the user goes, finalized into test_results
+create table if not exists public.test_attempts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  test_id text not null,
+  test_version integer not null, -- TestDefinition.version the answers were given against
+  status text not null default 'in_progress' check (status in ('in_progress','completed','abandoned','expired')),
+  answers jsonb not null default '[]'::jsonb,
+  result_id uuid references public.test_results(id) on delete set null,
+  started_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  expires_at timestamp with time zone not null, -- slides forward on every save
+  completed_at timestamp with time zone
+);
+
+alter table public.test_attempts enable row level security;
+
+drop policy if exists "read own attempts" on public.test_attempts;
+create policy "read own attempts" on public.test_attempts
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "insert own attempts" on public.test_attempts;
+create policy "insert own attempts" on public.test_attempts
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "update own attempts" on public.test_attempts;
+create policy "update own attempts" on public.test_attempts
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- At most one open draft per user and test
+create unique index if not exists test_attempts_one_open_idx
+  on public.test_attempts(user_id, test_id) where status = 'in_progress';
+create index if not exists test_attempts_expires_idx
+  on public.test_attempts(expires_at) where status = 'in_progress';
+
+-- Marks stale drafts expired. Called on every job worker run (api/_lib/jobs.ts runWorker); the API
+-- also expires drafts lazily when they are touched.
+create or replace function public.expire_test_attempts()
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with expired as (
+    update public.test_attempts
+    set status = 'expired', updated_at = now()
+    where status = 'in_progress' and expires_at <= now()
+    returning 1
+  )
+  select count(*)::integer from expired;
+$$;
+
+revoke all on function public.expire_test_attempts() from public, anon, authenticated;
+
+-- Guided exercises (api/_lib/exercises.ts): one row per run through an exercise's step machine.
+-- Completed rows are the user's exercise history.
+create table if not exists public.exercise_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  exercise_id text not null,
+  exercise_version integer not null,
+  -- Set when launched from a conversation
+  chat_id uuid references public.chats(id) on delete set null,
+  status text not null default 'in_progress' check (status in ('in_progress','completed','abandoned')),
+  current_step text, -- null once completed
+  path text[] not null default '{}', -- answered step ids in order
+  inputs jsonb not null default '{}'::jsonb,
+  output jsonb, -- { title, text, sections: [{ label, value }] }
+  started_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  completed_at timestamp with time zone
+);
+
+alter table public.exercise_sessions enable row level security;
+
+drop policy if exists "read own exercise sessions" on public.exercise_sessions;
+create policy "read own exercise sessions" on public.exercise_sessions
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "insert own exercise sessions" on public.exercise_sessions;
+create policy "insert own exercise sessions" on public.exercise_sessions
+  for insert with check (auth.uid() = user_id and (chat_id is null or public.is_chat_member(chat_id)));
+
+drop policy if exists "update own exercise sessions" on public.exercise_sessions;
+create policy "update own exercise sessions" on public.exercise_sessions
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create index if not exists exercise_sessions_user_updated_idx on public.exercise_sessions(user_id, updated_at desc);
+
+-- Safety events: user messages flagged by the crisis / self-harm screen in /api/chat
+create table if not exists public.safety_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade,
+  chat_id uuid references public.chats(id) on delete cascade,
+  message_id uuid references public.messages(id) on delete set null,
+  severity text not null check (severity in ('low','moderate','high')),
+  categories text[] not null default '{}',
+  source text not null check (source in ('keyword','llm','combined')),
+  templated boolean not null default false,
+  created_at timestamp with time zone default now()
+);
+
+alter table public.safety_events enable row level security;
+
+drop policy if exists "read own safety events" on public.safety_events;
+create policy "read own safety events" on public.safety_events
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "insert own safety events" on public.safety_events;
+create policy "insert own safety events" on public.safety_events
+  for insert with check (auth.uid() = user_id);
+
+create index if not exists safety_events_user_id_idx on public.safety_events(user_id);
+create index if not exists safety_events_created_at_idx on public.safety_events(created_at);
+
+-- Background jobs (api/_lib/jobs.ts). Only the service role touches this table directly;
+-- users enqueue through enqueue_message_analysis and enqueue_chat_job, which check ownership.
+create table if not exists public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null,
+  payload jsonb not null default '{}'::jsonb,
+  -- One job per unit of work, e.g. 'analyze_message:<message id>'; re-enqueueing is a no-op
+  idempotency_key text not null unique,
+  status text not null default 'queued' check (status in ('queued','running','succeeded','dead')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  run_at timestamp with time zone not null default now(),
+  locked_at timestamp with time zone,
+  locked_by text,
+  last_error text,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  completed_at timestamp with time zone
+);
+
+alter table public.jobs enable row level security;
+
+create index if not exists jobs_runnable_idx on public.jobs(run_at) where status in ('queued','running');
+
+-- One analysis job per message revision; the first revision keeps the original key
+create or replace function public.analysis_job_key(p_message_id uuid, p_revision integer)
+returns text
+language sql
+immutable
+as $$
+  select 'analyze_message:' || p_message_id || case when p_revision > 0 then ':' || p_revision else '' end;
+$$;
+
+-- p_request_id is the enqueuing API request's id, kept in the payload so the job's logs join its trace
+drop function if exists public.enqueue_message_analysis(uuid);
+create or replace function public.enqueue_message_analysis(p_message_id uuid, p_request_id text default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  job_id uuid;
+  job_key text;
+  msg_revision integer;
+begin
+  select revision into msg_revision
+  from public.messages
+  where id = p_message_id
+    and role = 'user'
+    and deleted_at is null
+    and (auth.role() = 'service_role' or user_id = auth.uid());
+  if msg_revision is null then
+    raise exception 'Message not found';
+  end if;
+  job_key := public.analysis_job_key(p_message_id, msg_revision);
+
+  insert into public.jobs (kind, payload, idempotency_key)
+  values (
+    'analyze_message',
+    jsonb_strip_nulls(jsonb_build_object('messageId', p_message_id, 'revision', msg_revision, 'requestId', p_request_id)),
+    job_key
+  )
+  on conflict (idempotency_key) do nothing
+  returning id into job_id;
+
+  if job_id is null then
+    select id into job_id from public.jobs where idempotency_key = job_key;
+  end if;
+  return job_id;
+end;
+$$;
+
+-- Titling and summarizing a chat after a stored reply (p_message_id). Summary jobs are one per
+-- reply; title jobs are only queued while the chat is untitled, and return null otherwise.
+create or replace function public.enqueue_chat_job(
+  p_kind text,
+  p_chat_id uuid,
+  p_message_id uuid,
+  p_request_id text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  job_id uuid;
+  job_key text;
+  chat_title text;
+begin
+  if p_kind not in ('title_chat', 'summarize_chat') then
+    raise exception 'Unknown chat job kind %', p_kind;
+  end if;
+  if not exists (
+    select 1 from public.messages
+    where id = p_message_id
+      and chat_id = p_chat_id
+      and (auth.role() = 'service_role' or public.is_chat_member(chat_id))
+  ) then
+    raise exception 'Message not found';
+  end if;
+  if p_kind = 'title_chat' then
+    select title into chat_title from public.chats where id = p_chat_id;
+    if chat_title is not null then
+      return null;
+    end if;
+  end if;
+  job_key := p_kind || ':' || p_chat_id || ':' || p_message_id;
+
+  insert into public.jobs (kind, payload, idempotency_key)
+  values (
+    p_kind,
+    jsonb_strip_nulls(jsonb_build_object('chatId', p_chat_id, 'messageId', p_message_id, 'requestId', p_request_id)),
+    job_key
+  )
+  on conflict (idempotency_key) do nothing
+  returning id into job_id;
+
+  if job_id is null then
+    select id into job_id from public.jobs where idempotency_key = job_key;
+  end if;
+  return job_id;
+end;
+$$;
+
+-- Claims due jobs (or one specific job) for a worker. Running jobs whose lock is older than
+-- p_lock_seconds are assumed to belong to a killed invocation and are claimed again.
+create or replace function public.claim_jobs(
+  p_worker text,
+  p_limit integer default 10,
+  p_lock_seconds integer default 300,
+  p_job_id uuid default null
+)
+returns setof public.jobs
+language sql
+security definer
+set search_path = public
+as $$
+  update public.jobs j
+  set status = 'running', locked_at = now(), locked_by = p_worker, attempts = j.attempts + 1, updated_at = now()
+  where j.id in (
+    select id from public.jobs
+    where (p_job_id is null or id = p_job_id)
+      and (
+        (status = 'queued' and run_at <= now())
+        or (status = 'running' and locked_at < now() - make_interval(secs => p_lock_seconds))
+      )
+    order by run_at
+    limit p_limit
+    for update skip locked
+  )
+  returning j.*;
+$$;
+
+-- Queues analysis for user messages that never got one (e.g. the job was never enqueued).
+-- Messages newer than a minute are left to the normal enqueue path.
+create or replace function public.enqueue_missing_analyses(p_since timestamp with time zone, p_limit integer default 100)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  with queued as (
+    insert into public.jobs (kind, payload, idempotency_key)
+    select 'analyze_message', jsonb_build_object('messageId', m.id, 'revision', m.revision), public.analysis_job_key(m.id, m.revision)
+    from public.messages m
+    where m.role = 'user'
+      and m.analysis is null
+      and m.deleted_at is null
+      and m.created_at >= p_since
+      and coalesce(m.edited_at, m.created_at) <= now() - interval '1 minute'
+      and not exists (select 1 from public.jobs j where j.idempotency_key = public.analysis_job_key(m.id, m.revision))
+    order by m.created_at desc
+    limit p_limit
+    on conflict (idempotency_key) do nothing
+    returning 1
+  )
+  select count(*)::integer from queued;
+$$;
+
+revoke all on function public.claim_jobs(text, integer, integer, uuid) from public, anon, authenticated;
+revoke all on function public.enqueue_missing_analyses(timestamp with time zone, integer) from public, anon, authenticated;
+
+-- Fixed-window request counters for rate limiting (api/_lib/limits.ts); service role only
+create table if not exists public.rate_limits (
+  key text not null, -- 'user:<id>' or 'ip:<address>'
+  window_start timestamp with time zone not null,
+  hits integer not null default 0,
+  primary key (key, window_start)
+);
+
+alter table public.rate_limits enable row level security;
+
+create or replace function public.hit_rate_limit(p_key text, p_limit integer, p_window_seconds integer)
+returns table (allowed boolean, hit_count integer, retry_after_seconds integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  w timestamp with time zone := to_timestamp(floor(extract(epoch from now()) / p_window_seconds) * p_window_seconds);
+  n integer;
+begin
+  insert into public.rate_limits as r (key, window_start, hits)
+  values (p_key, w, 1)
+  on conflict (key, window_start) do update set hits = r.hits + 1
+  returning r.hits into n;
+
+  -- Earlier windows for this key are no longer needed
+  delete from public.rate_limits where key = p_key and window_start < w;
+
+  return query select
+    n <= p_limit,
+    n,
+    greatest(1, ceil(extract(epoch from (w + make_interval(secs => p_window_seconds) - now()))))::integer;
+end;
+$$;
+
+revoke all on function public.hit_rate_limit(text, integer, integer) from public, anon, authenticated;
+
+-- Per-user daily LLM usage (UTC days), checked against the plan quota before each chat request
+create table if not exists public.usage_daily (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  day date not null,
+  messages integer not null default 0,
+  prompt_tokens bigint not null default 0,
+  completion_tokens bigint not null default 0,
+  primary key (user_id, day)
+);
+
+alter table public.usage_daily enable row level security;
+
+drop policy if exists "read own usage" on public.usage_daily;
+create policy "read own usage" on public.usage_daily
+  for select using (auth.uid() = user_id);
+
+-- Increment-only: callers can add usage for themselves, never reduce it
+create or replace function public.record_llm_usage(
+  p_user_id uuid,
+  p_messages integer,
+  p_prompt_tokens integer,
+  p_completion_tokens integer
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), '') <> 'service_role' and p_user_id is distinct from auth.uid() then
+    raise exception 'Not allowed';
+  end if;
+  if p_messages < 0 or p_prompt_tokens < 0 or p_completion_tokens < 0 then
+    raise exception 'Usage must not be negative';
+  end if;
+
+  insert into public.usage_daily as u (user_id, day, messages, prompt_tokens, completion_tokens)
+  values (p_user_id, (now() at time zone 'utc')::date, p_messages, p_prompt_tokens, p_completion_tokens)
+  on conflict (user_id, day) do update set
+    messages = u.messages + excluded.messages,
+    prompt_tokens = u.prompt_tokens + excluded.prompt_tokens,
+    completion_tokens = u.completion_tokens + excluded.completion_tokens;
+end;
+$$;
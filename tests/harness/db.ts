@@ -0,0 +1,86 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { PGlite, type Transaction } from '@electric-sql/pglite';
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto';
+
+const SCHEMA_FILE = join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'supabase.schema.sql');
+
+// The parts of a Supabase project that supabase.schema.sql relies on but does not create: the API
+// roles, auth.users with the auth.uid()/auth.role() helpers, default grants and the Realtime publication.
+// service_role bypasses RLS as it does on Supabase; anon and authenticated are subject to it.
+const SUPABASE_BOOTSTRAP = `
+create role anon nologin noinherit;
+create role authenticated nologin noinherit;
+create role service_role nologin noinherit bypassrls;
+
+create schema auth;
+create table auth.users (
+  id uuid primary key default gen_random_uuid(),
+  email text unique,
+  raw_user_meta_data jsonb not null default '{}'::jsonb,
+  created_at timestamp with time zone not null default now()
+);
+
+create function auth.jwt() returns jsonb language sql stable as $$
+  select coalesce(nullif(current_setting('request.jwt.claims', true), ''), '{}')::jsonb
+$$;
+create function auth.uid() returns uuid language sql stable as $$
+  select nullif(auth.jwt() ->> 'sub', '')::uuid
+$$;
+create function auth.role() returns text language sql stable as $$
+  select auth.jwt() ->> 'role'
+$$;
+
+grant usage on schema auth to anon, authenticated, service_role;
+grant execute on all functions in schema auth to anon, authenticated, service_role;
+grant usage on schema public to anon, authenticated, service_role;
+alter default privileges in schema public grant all on tables to anon, authenticated, service_role;
+alter default privileges in schema public grant all on sequences to anon, authenticated, service_role;
+alter default privileges in schema public grant all on functions to anon, authenticated, service_role;
+
+create publication supabase_realtime;
+`;
+
+export type DbRole = 'anon' | 'authenticated' | 'service_role';
+
+// What PostgREST derives from a request's JWT
+export type DbClaims = { role: DbRole; sub?: string };
+
+export type TestDatabase = {
+  db: PGlite;
+  // Runs `fn` in one transaction as the given role, with the claims auth.uid()/auth.role() read
+  asRole<T>(claims: DbClaims, fn: (tx: Transaction) => Promise<T>): Promise<T>;
+  createUser(email: string): Promise<string>;
+};
+
+/** A fresh in-memory Postgres with supabase.schema.sql applied, as on a new Supabase project. */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const db = await PGlite.create({ extensions: { pgcrypto } });
+  await db.exec(`set timezone = 'UTC';`);
+  await db.exec(SUPABASE_BOOTSTRAP);
+  await db.exec(readFileSync(SCHEMA_FILE, 'utf8'));
+
+  // PGlite has a single connection, so requests take turns like statements on one backend
+  let queue: Promise<unknown> = Promise.resolve();
+  const asRole = <T>(claims: DbClaims, fn: (tx: Transaction) => Promise<T>): Promise<T> => {
+    const run = queue.then(() =>
+      db.transaction(async (tx) => {
+        await tx.query(`select set_config('request.jwt.claims', $1, true)`, [JSON.stringify(claims)]);
+        await tx.exec(`set local role ${claims.role}`);
+        return fn(tx);
+      })
+    );
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  return {
+    db,
+    asRole,
+    async createUser(email) {
+      const { rows } = await db.query<{ id: string }>('insert into auth.users (email) values ($1) returning id', [email]);
+      return rows[0]!.id;
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { setTelemetrySinks, type LogRecord, type SpanRecord } from '../../api/_lib/logger';
+import { createTestDatabase, type TestDatabase } from './db';
+import type { FakeOpenAiServer } from './openai';
+import { startSupabaseStandIn, type SupabaseStandIn } from './supabase';
+
+// Runs the API as the dev server does, against an in-memory Postgres (see db.ts) behind a Supabase
+// stand-in (supabase.ts) and a fake OpenAI-compatible LLM (openai.ts). Nothing leaves the machine.
+// Handlers read their config when first imported, so one harness is started per test file (node
+// --test runs each file in its own process).
+
+export type TestUser = { userId: string; token: string; email: string };
+
+export type ApiResponse<T = unknown> = { status: number; headers: Headers; body: T };
+
+export type RequestOptions = {
+  method?: string;
+  // Sent as the user's bearer token
+  user?: TestUser;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+export type Harness = {
+  apiUrl: string;
+  database: TestDatabase;
+  supabase: SupabaseStandIn;
+  llm: FakeOpenAiServer;
+  // Everything the API logged or traced, for assertions on redaction and spans
+  telemetry: { logs: LogRecord[]; spans: SpanRecord[] };
+  signUp(name: string): Promise<TestUser>;
+  // JSON (or, for event streams, text) response from the API; never throws on an error status
+  request<T = unknown>(path: string, options?: RequestOptions): Promise<ApiResponse<T>>;
+  // A supabase-js client talking straight to the stand-in, as the app does: anon, or as a user
+  client(user?: TestUser): SupabaseClient;
+  // Waits for work the API does not wait for (inline analysis jobs, chat titles, summaries)
+  settle(): Promise<void>;
+  close(): Promise<void>;
+};
+
+export type HarnessOptions = {
+  // Whether the API gets SUPABASE_SERVICE_ROLE_KEY; it is optional, so handlers must also work as the user alone
+  serviceRole?: boolean;
+};
+
+let users = 0;
+
+export async function startHarness({ serviceRole = true }: HarnessOptions = {}): Promise<Harness> {
+  const database = await createTestDatabase();
+  const supabase = await startSupabaseStandIn(database);
+  process.env.SUPABASE_URL = supabase.url;
+  process.env.SUPABASE_ANON_KEY = supabase.anonKey;
+  if (serviceRole) process.env.SUPABASE_SERVICE_ROLE_KEY = supabase.serviceRoleKey;
+  else delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  const { startFakeOpenAi, TASKS, modelForTask } = await import('./openai');
+  const llm = await startFakeOpenAi();
+  process.env.LLM_PROVIDER = 'compatible';
+  process.env.LLM_BASE_URL = llm.baseUrl;
+  process.env.LLM_API_KEY = 'test';
+  for (const task of TASKS) process.env[`LLM_MODEL_${task.toUpperCase()}`] = modelForTask(task);
+  delete process.env.LLM_MODEL;
+  delete process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+
+  const telemetry: Harness['telemetry'] = { logs: [], spans: [] };
+  setTelemetrySinks([{ log: (record) => telemetry.logs.push(record), span: (record) => telemetry.spans.push(record) }]);
+
+  const { createApiApp } = await import('../../scripts/api-app');
+  const app = await createApiApp();
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const settle = async () => {
+    // Background work alternates between the database and the LLM, so check the database again last
+    await supabase.idle();
+    await llm.idle();
+    await supabase.idle();
+  };
+
+  return {
+    apiUrl,
+    database,
+    supabase,
+    llm,
+    telemetry,
+    async signUp(name) {
+      const email = `${name}-${++users}@example.test`;
+      const { userId, token } = await supabase.signUp(email);
+      return { userId, token, email };
+    },
+    async request(path, { method = 'GET', user, body, headers = {} } = {}) {
+      const res = await fetch(`${apiUrl}${path}`, {
+        method,
+        headers: {
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...(user ? { Authorization: `Bearer ${user.token}` } : {}),
+          ...headers,
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+      const text = await res.text();
+      const isJson = res.headers.get('content-type')?.includes('application/json');
+      return { status: res.status, headers: res.headers, body: isJson && text ? JSON.parse(text) : text };
+    },
+    client(user) {
+      return createClient(supabase.url, supabase.anonKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+        global: { headers: user ? { Authorization: `Bearer ${user.token}` } : {} },
+      });
+    },
+    settle,
+    async close() {
+      await settle();
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await llm.close();
+      await supabase.close();
+      await database.db.close();
+      setTelemetrySinks(null);
+    },
+  };
+}
+
+/** Parses a text/event-stream body into its events; `E` is what the endpoint declares, e.g. SendMessageEvent. */
+export function parseEventStream<E extends { event: string; data: unknown } = { event: string; data: unknown }>(text: string): E[] {
+  return text
+    .split('\n\n')
+    .filter((block) => block.trim())
+    .map((block) => {
+      const event = /^event: (.*)$/m.exec(block)?.[1] ?? 'message';
+      const data = block
+        .split('\n')
+        .filter((line) => line.startsWith('data: '))
+        .map((line) => line.slice('data: '.length))
+        .join('\n');
+      return { event, data: data ? JSON.parse(data) : null } as E;
+    });
+}
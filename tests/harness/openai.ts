@@ -0,0 +1,132 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createFakeProvider, type FakeScript, type LlmMessage, type LlmTask } from '../../api/_lib/llm';
+
+// An OpenAI-compatible /v1/chat/completions (JSON and SSE) for the API's "compatible" provider to
+// call. Replies come from the scripted fake provider; the task is read from the model name, which
+// the harness sets per task (LLM_MODEL_<TASK>=test-<task>). Must be imported after the env is set.
+
+export const TASKS: LlmTask[] = ['counsel', 'analysis', 'safety', 'title', 'summary', 'coach'];
+
+export function modelForTask(task: LlmTask): string {
+  return `test-${task}`;
+}
+
+export type RecordedCompletion = { task: LlmTask; model: string; stream: boolean; messages: LlmMessage[] };
+
+export type FakeOpenAiServer = {
+  baseUrl: string;
+  // Every completion request received, oldest first
+  requests: RecordedCompletion[];
+  // Replaces the scripted replies (tasks left out fall back to the fake provider's defaults)
+  setScript(script: FakeScript): void;
+  // The next `count` requests for `task` fail with a 500
+  failNext(task: LlmTask, count?: number): void;
+  idle(quietMs?: number): Promise<void>;
+  close(): Promise<void>;
+};
+
+type CompletionBody = { model?: string; messages?: LlmMessage[]; stream?: boolean };
+
+function taskOf(model: string | undefined): LlmTask | undefined {
+  return TASKS.find((task) => modelForTask(task) === model);
+}
+
+async function readJson(req: IncomingMessage): Promise<CompletionBody> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}') as CompletionBody;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function startFakeOpenAi(): Promise<FakeOpenAiServer> {
+  let provider = createFakeProvider();
+  const failures = new Map<LlmTask, number>();
+  const requests: RecordedCompletion[] = [];
+  let inFlight = 0;
+  let lastActivity = Date.now();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+      return sendJson(res, 404, { error: { message: `No route for ${req.method} ${req.url}`, type: 'invalid_request_error' } });
+    }
+    const body = await readJson(req);
+    const task = taskOf(body.model);
+    if (!task) return sendJson(res, 404, { error: { message: `Unknown model ${body.model}`, type: 'invalid_request_error' } });
+    const model = modelForTask(task);
+    const messages = body.messages ?? [];
+    const stream = body.stream === true;
+    requests.push({ task, model, stream, messages });
+
+    const pendingFailures = failures.get(task) ?? 0;
+    if (pendingFailures > 0) {
+      failures.set(task, pendingFailures - 1);
+      return sendJson(res, 500, { error: { message: 'Scripted failure', type: 'server_error' } });
+    }
+
+    const id = `chatcmpl-${requests.length}`;
+    const created = Math.floor(Date.now() / 1000);
+    if (!stream) {
+      const result = await provider.complete({ task, model, messages });
+      return sendJson(res, 200, {
+        id,
+        object: 'chat.completion',
+        created,
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content: result.content }, finish_reason: 'stop' }],
+        usage: result.usage && {
+          prompt_tokens: result.usage.promptTokens,
+          completion_tokens: result.usage.completionTokens,
+          total_tokens: result.usage.totalTokens,
+        },
+      });
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    for await (const chunk of provider.stream({ task, model, messages })) {
+      if (!chunk.delta) continue;
+      const event = { id, object: 'chat.completion.chunk', created, model, choices: [{ index: 0, delta: { content: chunk.delta }, finish_reason: null }] };
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+    const last = { id, object: 'chat.completion.chunk', created, model, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] };
+    res.write(`data: ${JSON.stringify(last)}\n\n`);
+    res.end('data: [DONE]\n\n');
+  };
+
+  const server = createServer((req, res) => {
+    inFlight++;
+    handle(req, res)
+      .catch((e) => sendJson(res, 500, { error: { message: String(e), type: 'server_error' } }))
+      .finally(() => {
+        inFlight--;
+        lastActivity = Date.now();
+      });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests,
+    setScript(script) {
+      provider = createFakeProvider(script);
+    },
+    failNext(task, count = 1) {
+      failures.set(task, (failures.get(task) ?? 0) + count);
+    },
+    async idle(quietMs = 100) {
+      while (inFlight > 0 || Date.now() - lastActivity < quietMs) {
+        await new Promise((resolve) => setTimeout(resolve, quietMs / 4));
+      }
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((e) => (e ? reject(e) : resolve()));
+      }),
+  };
+}
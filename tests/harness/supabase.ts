@@ -0,0 +1,390 @@
+import { randomBytes } from 'node:crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Transaction } from '@electric-sql/pglite';
+import type { DbClaims, TestDatabase } from './db';
+
+// Serves the slice of Supabase's HTTP API that supabase-js uses in this repo, backed by the test
+// database: GoTrue's GET /auth/v1/user, and PostgREST's table reads/writes and RPCs under /rest/v1.
+// Every request runs in one transaction as the role its key or token maps to, so RLS, grants,
+// triggers and security definer functions behave as they do on Supabase. Embedded resources,
+// aliases, upserts and or=() filters are not implemented (nothing here uses them). Reads are capped at
+// PostgREST's default max_rows, so code that needs more rows has to page.
+
+export type SupabaseStandIn = {
+  url: string;
+  anonKey: string;
+  serviceRoleKey: string;
+  // Creates an auth user (and, through the schema's trigger, their profile) with a session token
+  signUp(email: string): Promise<{ userId: string; token: string }>;
+  // Resolves once no request has been in flight for `quietMs`; lets fire-and-forget work finish
+  idle(quietMs?: number): Promise<void>;
+  close(): Promise<void>;
+};
+
+// PostgREST's error body; `hint` carries the codes raised by the schema's functions
+type PostgrestError = { code: string; message: string; details: string | null; hint: string | null };
+
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: PostgrestError
+  ) {
+    super(body.message);
+  }
+}
+
+type PgError = Error & { code?: string; detail?: string; hint?: string };
+
+const IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+const OBJECT_MEDIA_TYPE = 'application/vnd.pgrst.object+json';
+const OPERATORS: Record<string, string> = { eq: '=', neq: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=', like: 'like', ilike: 'ilike' };
+// Query parameters that shape the response rather than filter rows
+const RESERVED_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'columns', 'on_conflict']);
+// PostgREST's db-max-rows default on Supabase: larger reads are cut short without an error
+const MAX_ROWS = 1000;
+
+function badRequest(message: string): RequestError {
+  return new RequestError(400, { code: 'PGRST100', message, details: null, hint: null });
+}
+
+function ident(name: string): string {
+  if (!IDENTIFIER.test(name)) throw badRequest(`"${name}" is not a supported identifier`);
+  return `"${name}"`;
+}
+
+// Mirrors PostgREST's mapping of SQLSTATEs to HTTP statuses for the errors the schema can raise
+function statusFor(code: string | undefined, role: DbClaims['role']): number {
+  switch (code) {
+    case '42501':
+      return role === 'anon' ? 401 : 403;
+    case '23505':
+    case '23503':
+      return 409;
+    case '42P01':
+    case '42883':
+    case 'P0002':
+      return 404;
+    default:
+      return 400;
+  }
+}
+
+function toRequestError(e: unknown, role: DbClaims['role']): RequestError {
+  if (e instanceof RequestError) return e;
+  const pg = e as PgError;
+  return new RequestError(statusFor(pg.code, role), {
+    code: pg.code ?? 'XX000',
+    message: pg.message,
+    details: pg.detail ?? null,
+    hint: pg.hint ?? null,
+  });
+}
+
+// "in.(a,b,"c,d")" values, with PostgREST's double-quoting for reserved characters
+function parseList(raw: string): string[] {
+  if (!raw.startsWith('(') || !raw.endsWith(')')) throw badRequest(`Malformed list ${raw}`);
+  return [...raw.slice(1, -1).matchAll(/"((?:[^"\\]|\\.)*)"|([^,]+)/g)].map((m) => m[1] ?? m[2] ?? '');
+}
+
+// Filter values are untyped literals, so Postgres reads them as the column's type like PostgREST does
+function literal(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+class SqlBuilder {
+  readonly params: unknown[] = [];
+
+  param(value: unknown, cast: string): string {
+    this.params.push(value);
+    return `$${this.params.length}::${cast}`;
+  }
+
+  // col=op.value filters, qualified with the table so they stay unambiguous in UPDATE ... FROM
+  where(table: string, search: URLSearchParams): string {
+    const clauses: string[] = [];
+    for (const [key, raw] of search) {
+      if (RESERVED_PARAMS.has(key)) continue;
+      const column = `${ident(table)}.${ident(key)}`;
+      const negated = raw.startsWith('not.');
+      const expr = negated ? raw.slice(4) : raw;
+      const dot = expr.indexOf('.');
+      const op = dot > 0 ? expr.slice(0, dot) : expr;
+      const value = dot > 0 ? expr.slice(dot + 1) : '';
+      let clause: string;
+      if (op === 'is') {
+        if (!['null', 'true', 'false', 'unknown'].includes(value)) throw badRequest(`Unsupported is.${value}`);
+        clause = `${column} is ${value}`;
+      } else if (op === 'in') {
+        const items = parseList(value);
+        clause = items.length ? `${column} in (${items.map(literal).join(', ')})` : 'false';
+      } else if (OPERATORS[op]) {
+        clause = `${column} ${OPERATORS[op]} ${literal(op.endsWith('like') ? value.replace(/\*/g, '%') : value)}`;
+      } else {
+        throw badRequest(`Unsupported operator ${op}`);
+      }
+      clauses.push(negated ? `not (${clause})` : clause);
+    }
+    return clauses.length ? ` where ${clauses.join(' and ')}` : '';
+  }
+}
+
+function selectList(search: URLSearchParams): string {
+  const raw = search.get('select') ?? '*';
+  if (raw === '*') return '*';
+  return raw
+    .split(',')
+    .map((c) => ident(c.trim()))
+    .join(', ');
+}
+
+function orderBy(table: string, search: URLSearchParams): string {
+  const raw = search.get('order');
+  if (!raw) return '';
+  const terms = raw.split(',').map((term) => {
+    const [column = '', ...modifiers] = term.split('.');
+    const parts = [`${ident(table)}.${ident(column)}`];
+    for (const modifier of modifiers) {
+      if (modifier === 'asc' || modifier === 'desc') parts.push(modifier);
+      else if (modifier === 'nullsfirst') parts.push('nulls first');
+      else if (modifier === 'nullslast') parts.push('nulls last');
+      else throw badRequest(`Unsupported order modifier ${modifier}`);
+    }
+    return parts.join(' ');
+  });
+  return ` order by ${terms.join(', ')}`;
+}
+
+function pagination(search: URLSearchParams): string {
+  const limit = search.get('limit');
+  const offset = search.get('offset');
+  const asInt = (raw: string) => {
+    if (!/^\d+$/.test(raw)) throw badRequest(`Not a row count: ${raw}`);
+    return raw;
+  };
+  const rows = limit !== null ? Math.min(Number(asInt(limit)), MAX_ROWS) : MAX_ROWS;
+  return ` limit ${rows}${offset !== null ? ` offset ${asInt(offset)}` : ''}`;
+}
+
+// `write` is a data-modifying statement whose RETURNING rows the select reads as _written
+async function rowsOf(tx: Transaction, select: string, params: unknown[], write?: string): Promise<unknown[]> {
+  const prefix = write ? `with _written as (${write}) ` : '';
+  const { rows } = await tx.query<{ body: unknown[] }>(`${prefix}select coalesce(json_agg(_row), '[]'::json) as body from (${select}) _row`, params);
+  return rows[0]?.body ?? [];
+}
+
+type Reply = { status: number; body?: unknown; headers?: Record<string, string> };
+
+// Accept: application/vnd.pgrst.object+json (single/maybeSingle) wants exactly one row
+function shape(rows: unknown[], wantsObject: boolean): unknown {
+  if (!wantsObject) return rows;
+  if (rows.length !== 1) {
+    throw new RequestError(406, {
+      code: 'PGRST116',
+      message: 'JSON object requested, multiple (or no) rows returned',
+      details: `The result contains ${rows.length} rows`,
+      hint: null,
+    });
+  }
+  return rows[0];
+}
+
+async function handleTable(
+  tx: Transaction,
+  method: string,
+  table: string,
+  search: URLSearchParams,
+  prefer: string,
+  wantsObject: boolean,
+  payload: unknown
+): Promise<Reply> {
+  const relation = `public.${ident(table)}`;
+  const representation = prefer.includes('return=representation');
+  const sql = new SqlBuilder();
+
+  if (method === 'GET' || method === 'HEAD') {
+    const where = sql.where(table, search);
+    const rows = await rowsOf(tx, `select ${selectList(search)} from ${relation}${where}${orderBy(table, search)}${pagination(search)}`, sql.params);
+    let total = '*';
+    if (prefer.includes('count=exact')) {
+      const { rows: counted } = await tx.query<{ count: number }>(`select count(*)::int as count from ${relation}${where}`, sql.params);
+      total = String(counted[0]?.count ?? 0);
+    }
+    const range = rows.length ? `0-${rows.length - 1}/${total}` : `*/${total}`;
+    return { status: 200, body: method === 'HEAD' ? undefined : shape(rows, wantsObject), headers: { 'Content-Range': range } };
+  }
+
+  let written: unknown[] = [];
+  if (method === 'POST') {
+    const records = Array.isArray(payload) ? payload : [payload];
+    for (const record of records) {
+      if (!record || typeof record !== 'object') throw badRequest('Insert payload must be an object or array of objects');
+      // Only the given columns are written, so the rest take their defaults
+      const columns = Object.keys(record).map(ident).join(', ');
+      const insert = new SqlBuilder();
+      const source = `json_populate_record(null::${relation}, ${insert.param(JSON.stringify(record), 'json')})`;
+      const statement = `insert into ${relation} (${columns}) select ${columns} from ${source}`;
+      if (representation) written.push(...(await rowsOf(tx, `select ${selectList(search)} from _written`, insert.params, `${statement} returning *`)));
+      else await tx.query(statement, insert.params);
+    }
+    return { status: 201, body: representation ? shape(written, wantsObject) : undefined };
+  }
+
+  if (method === 'PATCH') {
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) throw badRequest('Update payload must be an object');
+    const source = sql.param(JSON.stringify(payload), 'json');
+    const assignments = Object.keys(payload)
+      .map((column) => `${ident(column)} = _body.${ident(column)}`)
+      .join(', ');
+    const statement = `update ${relation} set ${assignments} from json_populate_record(null::${relation}, ${source}) _body${sql.where(table, search)}`;
+    if (representation) written = await rowsOf(tx, `select ${selectList(search)} from _written`, sql.params, `${statement} returning ${relation}.*`);
+    else await tx.query(statement, sql.params);
+  } else if (method === 'DELETE') {
+    const statement = `delete from ${relation}${sql.where(table, search)}`;
+    if (representation) written = await rowsOf(tx, `select ${selectList(search)} from _written`, sql.params, `${statement} returning *`);
+    else await tx.query(statement, sql.params);
+  } else {
+    throw new RequestError(405, { code: 'PGRST117', message: `Unsupported HTTP method ${method}`, details: null, hint: null });
+  }
+  return representation ? { status: 200, body: shape(written, wantsObject) } : { status: 204 };
+}
+
+type FunctionInfo = { returns_set: boolean; returns_void: boolean; args: Record<string, string> };
+
+// Function arguments arrive as JSON and are bound as their declared types (json ones as JSON text)
+function argument(sql: SqlBuilder, value: unknown, type: string): string {
+  if (value === null) return `null::${type}`;
+  return sql.param(type === 'json' || type === 'jsonb' ? JSON.stringify(value) : value, type);
+}
+
+async function handleRpc(tx: Transaction, name: string, search: URLSearchParams, wantsObject: boolean, payload: unknown): Promise<Reply> {
+  const { rows } = await tx.query<FunctionInfo>(
+    `select p.proretset as returns_set, p.prorettype = 'void'::regtype as returns_void,
+       coalesce((select json_object_agg(a.name, format_type(a.type, null))
+                 from unnest(p.proargnames[1:p.pronargs], p.proargtypes::oid[]) as a(name, type)), '{}') as args
+     from pg_proc p join pg_namespace n on n.oid = p.pronamespace
+     where n.nspname = 'public' and p.proname = $1`,
+    [name]
+  );
+  const info = rows[0];
+  if (!info) {
+    throw new RequestError(404, { code: 'PGRST202', message: `Could not find the function public.${name}`, details: null, hint: null });
+  }
+
+  const sql = new SqlBuilder();
+  const args = Object.entries((payload ?? {}) as Record<string, unknown>).map(([arg, value]) => {
+    const type = info.args[arg];
+    if (!type) throw new RequestError(404, { code: 'PGRST202', message: `public.${name} has no argument ${arg}`, details: null, hint: null });
+    return `${ident(arg)} => ${argument(sql, value, type)}`;
+  });
+  const call = `public.${ident(name)}(${args.join(', ')})`;
+
+  if (info.returns_set) return { status: 200, body: shape(await rowsOf(tx, `select * from ${call}${pagination(search)}`, sql.params), wantsObject) };
+  if (info.returns_void) {
+    await tx.query(`select ${call}`, sql.params);
+    return { status: 200, body: null };
+  }
+  const { rows: result } = await tx.query<{ body: unknown }>(`select to_json(${call}) as body`, sql.params);
+  return { status: 200, body: result[0]?.body ?? null };
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw badRequest('Request body is not valid JSON');
+  }
+}
+
+function reply(res: ServerResponse, { status, body, headers = {} }: Reply) {
+  res.writeHead(status, { ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}), ...headers });
+  res.end(body !== undefined ? JSON.stringify(body) : undefined);
+}
+
+export async function startSupabaseStandIn(database: TestDatabase): Promise<SupabaseStandIn> {
+  const anonKey = `anon-${randomBytes(8).toString('hex')}`;
+  const serviceRoleKey = `service-${randomBytes(8).toString('hex')}`;
+  // Session tokens handed out by signUp, standing in for GoTrue's JWTs
+  const sessions = new Map<string, string>();
+  let inFlight = 0;
+  let lastActivity = Date.now();
+
+  const claimsFor = (req: IncomingMessage): DbClaims | null => {
+    const header = req.headers.authorization ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : String(req.headers.apikey ?? '');
+    if (token === serviceRoleKey) return { role: 'service_role' };
+    if (token === anonKey) return { role: 'anon' };
+    const sub = sessions.get(token);
+    return sub ? { role: 'authenticated', sub } : null;
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    const claims = claimsFor(req);
+
+    if (url.pathname === '/auth/v1/user') {
+      if (!claims?.sub) return reply(res, { status: 401, body: { code: 401, error_code: 'bad_jwt', msg: 'invalid JWT' } });
+      const { rows } = await database.db.query('select id, email, created_at from auth.users where id = $1', [claims.sub]);
+      const user = rows[0] as Record<string, unknown> | undefined;
+      if (!user) return reply(res, { status: 404, body: { code: 404, error_code: 'user_not_found', msg: 'User not found' } });
+      return reply(res, { status: 200, body: { ...user, aud: 'authenticated', role: 'authenticated' } });
+    }
+
+    const match = /^\/rest\/v1\/(?:(rpc)\/)?([^/]+)$/.exec(url.pathname);
+    if (!match) return reply(res, { status: 404, body: { code: 'PGRST125', message: `Invalid path ${url.pathname}`, details: null, hint: null } });
+    if (!claims) return reply(res, { status: 401, body: { code: 'PGRST301', message: 'JWT invalid', details: null, hint: null } });
+
+    const [, rpc, name = ''] = match;
+    const wantsObject = (req.headers.accept ?? '').includes(OBJECT_MEDIA_TYPE);
+    const prefer = String(req.headers.prefer ?? '');
+    try {
+      const payload = await readJson(req);
+      const result = await database.asRole(claims, (tx) =>
+        rpc ? handleRpc(tx, name, url.searchParams, wantsObject, payload) : handleTable(tx, method, name, url.searchParams, prefer, wantsObject, payload)
+      );
+      reply(res, result);
+    } catch (e) {
+      const error = toRequestError(e, claims.role);
+      reply(res, { status: error.status, body: error.body });
+    }
+  };
+
+  const server = createServer((req, res) => {
+    inFlight++;
+    handle(req, res)
+      .catch((e) => reply(res, { status: 500, body: { code: 'XX000', message: String(e), details: null, hint: null } }))
+      .finally(() => {
+        inFlight--;
+        lastActivity = Date.now();
+      });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    anonKey,
+    serviceRoleKey,
+    async signUp(email) {
+      const userId = await database.createUser(email);
+      const token = `session-${randomBytes(12).toString('hex')}`;
+      sessions.set(token, userId);
+      return { userId, token };
+    },
+    async idle(quietMs = 100) {
+      while (inFlight > 0 || Date.now() - lastActivity < quietMs) {
+        await new Promise((resolve) => setTimeout(resolve, quietMs / 4));
+      }
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((e) => (e ? reject(e) : resolve()));
+      }),
+  };
+}
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { createClient } from '@supabase/supabase-js';
+import type { ChatReply, ListChatsResponse } from '../../packages/api-client/src';
+import { startHarness, type Harness, type TestUser } from '../harness';
+
+// SUPABASE_SERVICE_ROLE_KEY is optional; without it chat writes go through the user's own session
+let h: Harness;
+
+before(async () => {
+  h = await startHarness({ serviceRole: false });
+});
+
+after(() => h.close());
+
+function send(user: TestUser, body: Record<string, unknown>) {
+  return h.request<ChatReply>('/api/chat', { method: 'POST', user, body });
+}
+
+async function replies(chatId: string) {
+  const { rows } = await h.database.db.query<{ id: string; content: string; active_variant: boolean; reply_to: string | null }>(
+    "select id, content, active_variant, reply_to from public.messages where chat_id = $1 and role = 'assistant' order by created_at",
+    [chatId]
+  );
+  return rows;
+}
+
+test('regenerating works as the user alone', async () => {
+  const alice = await h.signUp('alice');
+  h.llm.setScript({ counsel: ['First answer', 'Second answer'] });
+  try {
+    const first = await send(alice, { content: 'How do we split the holidays?' });
+    assert.equal(first.status, 200);
+    const again = await send(alice, { action: 'regenerate', chatId: first.body.chatId });
+    assert.equal(again.status, 200);
+    assert.equal(again.body.variantCount, 2);
+
+    await h.settle();
+    assert.deepEqual(
+      (await replies(first.body.chatId)).map((m) => [m.content, m.active_variant, m.reply_to]),
+      [
+        ['First answer', false, first.body.userMessageId],
+        ['Second answer', true, first.body.userMessageId],
+      ]
+    );
+  } finally {
+    h.llm.setScript({});
+  }
+});
+
+test('a reply stored before variants existed becomes the first variant', async () => {
+  const alice = await h.signUp('alice');
+  h.llm.setScript({ counsel: ['Old answer', 'New answer'] });
+  try {
+    const first = await send(alice, { content: 'We never plan dates anymore' });
+    await h.settle();
+    await h.database.db.query('update public.messages set reply_to = null where id = $1', [first.body.assistantMessageId]);
+
+    const again = await send(alice, { action: 'regenerate', chatId: first.body.chatId });
+    assert.equal(again.status, 200);
+    assert.equal(again.body.variantCount, 2);
+
+    await h.settle();
+    assert.deepEqual(
+      (await replies(first.body.chatId)).map((m) => [m.content, m.active_variant, m.reply_to]),
+      [
+        ['Old answer', false, first.body.userMessageId],
+        ['New answer', true, first.body.userMessageId],
+      ]
+    );
+  } finally {
+    h.llm.setScript({});
+  }
+});
+
+test('clients still cannot point reply_to at another message', async () => {
+  const alice = await h.signUp('alice');
+  const first = await send(alice, { content: 'Is it normal to feel this distant?' });
+  const second = await send(alice, { chatId: first.body.chatId, content: 'It has been months' });
+  await h.settle();
+
+  const { error } = await h
+    .client(alice)
+    .from('messages')
+    .update({ reply_to: second.body.userMessageId })
+    .eq('id', first.body.assistantMessageId);
+  assert.equal(error?.code, '42501');
+});
+
+test('titling and summarizing are queued for the worker rather than lost with the response', async () => {
+  const alice = await h.signUp('alice');
+  const res = await send(alice, { content: 'We keep missing each other after work' });
+  assert.equal(res.status, 200);
+  await h.settle();
+
+  const { rows: queued } = await h.database.db.query<{ kind: string; status: string }>(
+    "select kind, status from public.jobs where payload->>'chatId' = $1 order by kind",
+    [res.body.chatId]
+  );
+  assert.deepEqual(queued, [
+    { kind: 'summarize_chat', status: 'queued' },
+    { kind: 'title_chat', status: 'queued' },
+  ]);
+  const untitled = await h.request<ListChatsResponse>('/api/chats', { user: alice });
+  assert.equal(untitled.body.chats[0]?.title, null);
+
+  // Handlers read their config on import, so the worker is loaded once the harness has set it
+  const { runWorker } = await import('../../api/_lib/jobs');
+  const service = createClient(h.supabase.url, h.supabase.serviceRoleKey, { auth: { persistSession: false, autoRefreshToken: false } });
+  const stats = await runWorker(service, { backfill: false });
+  assert.equal(stats.dead, 0);
+  const titled = await h.request<ListChatsResponse>('/api/chats', { user: alice });
+  assert.equal(titled.body.chats[0]?.title, 'We keep missing each other after');
+});
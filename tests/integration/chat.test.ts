@@ -0,0 +1,375 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import type { ChatReply, ErrorBody, ListChatsResponse, SendMessageEvent } from '../../packages/api-client/src';
+import { parseEventStream, startHarness, type Harness, type TestUser } from '../harness';
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness();
+});
+
+after(() => h.close());
+
+function send<T = ChatReply>(user: TestUser, body: Record<string, unknown>) {
+  return h.request<T>('/api/chat', { method: 'POST', user, body });
+}
+
+// The chat's visible messages as the app reads them: through the user's own Supabase session
+async function visibleMessages(user: TestUser, chatId: string) {
+  const { data, error } = await h
+    .client(user)
+    .from('messages')
+    .select('id,role,user_id,content,reply_to,model,active_variant,analysis')
+    .eq('chat_id', chatId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
+  assert.equal(error, null);
+  return data ?? [];
+}
+
+describe('chat persistence', () => {
+  test('a first message starts a chat and stores both sides of the turn', async () => {
+    const alice = await h.signUp('alice');
+    const res = await send(alice, { content: 'We keep arguing about chores' });
+    assert.equal(res.status, 200);
+    const { chatId, userMessageId, assistantMessageId, reply, model } = res.body;
+    assert.equal(model, 'test-counsel');
+    assert.match(reply, /We keep arguing about chores/);
+
+    await h.settle();
+    const messages = await visibleMessages(alice, chatId);
+    assert.deepEqual(
+      messages.map((m) => [m.id, m.role, m.user_id, m.reply_to]),
+      [
+        [userMessageId, 'user', alice.userId, null],
+        [assistantMessageId, 'assistant', alice.userId, userMessageId],
+      ]
+    );
+    assert.equal(messages[1]?.content, reply);
+    assert.equal(messages[1]?.model, 'test-counsel');
+    // Analysis runs as a job right after the reply and is stored on the user message
+    assert.equal(messages[0]?.analysis?.primaryNeed, 'understanding');
+
+    const chats = await h.request<ListChatsResponse>('/api/chats', { user: alice });
+    assert.equal(chats.status, 200);
+    assert.deepEqual(
+      chats.body.chats.map((c) => [c.id, c.title, c.isOwner]),
+      [[chatId, 'We keep arguing about chores', true]]
+    );
+
+    const { rows: usage } = await h.database.db.query<{ messages: number; prompt_tokens: number }>(
+      'select messages, prompt_tokens::int from public.usage_daily where user_id = $1',
+      [alice.userId]
+    );
+    assert.equal(usage[0]?.messages, 1);
+    assert.ok((usage[0]?.prompt_tokens ?? 0) > 0);
+  });
+
+  test('follow-ups stay in the chat and reach the model with the earlier turns', async () => {
+    const alice = await h.signUp('alice');
+    const first = await send(alice, { content: 'My partner works late every night' });
+    const second = await send(alice, { chatId: first.body.chatId, content: 'And I end up eating alone' });
+    assert.equal(second.status, 200);
+    assert.equal(second.body.chatId, first.body.chatId);
+
+    const counsel = h.llm.requests.filter((r) => r.task === 'counsel').at(-1);
+    const said = counsel?.messages.filter((m) => m.role !== 'system').map((m) => m.content);
+    assert.deepEqual(said, ['My partner works late every night', first.body.reply, 'And I end up eating alone']);
+
+    await h.settle();
+    assert.equal((await visibleMessages(alice, first.body.chatId)).length, 4);
+  });
+
+  test('a chat left untitled is titled from its first exchange on a later turn', async () => {
+    const alice = await h.signUp('alice');
+    const first = await send(alice, { content: 'We argue about money' });
+    await h.settle();
+    // As if titling the first exchange had failed
+    await h.database.db.query('update public.chats set title = null where id = $1', [first.body.chatId]);
+
+    // A long turn leaves only itself in the prompt, which used to look like a first exchange
+    const second = await send(alice, { chatId: first.body.chatId, content: `And about chores. ${'It never ends. '.repeat(2500)}` });
+    assert.equal(second.status, 200);
+    await h.settle();
+    const titling = h.llm.requests.filter((r) => r.task === 'title').at(-1);
+    assert.match(titling?.messages.at(-1)?.content ?? '', /^User:\nWe argue about money\n/);
+    const titled = await h.request<ListChatsResponse>('/api/chats', { user: alice });
+    assert.equal(titled.body.chats[0]?.title, 'We argue about money');
+  });
+
+  test('a streamed reply is stored as the concatenation of its deltas', async () => {
+    const alice = await h.signUp('alice');
+    h.llm.setScript({ counsel: ['That sounds exhausting. What would help tonight?'] });
+    try {
+      const res = await send<string>(alice, { content: 'I am so tired of this', stream: true });
+      assert.equal(res.status, 200);
+      const events = parseEventStream<SendMessageEvent>(res.body);
+      const deltas = events.flatMap((e) => (e.event === 'delta' ? [e.data.content] : []));
+      assert.ok(deltas.length > 1);
+      const done = events.at(-1);
+      assert.ok(done?.event === 'done');
+      assert.equal(deltas.join(''), 'That sounds exhausting. What would help tonight?');
+
+      await h.settle();
+      const stored = (await visibleMessages(alice, done.data.chatId)).find((m) => m.id === done.data.assistantMessageId);
+      assert.equal(stored?.content, deltas.join(''));
+    } finally {
+      h.llm.setScript({});
+    }
+  });
+
+  test('regenerating keeps the earlier reply as an inactive variant', async () => {
+    const alice = await h.signUp('alice');
+    h.llm.setScript({ counsel: ['First answer', 'Second answer'] });
+    try {
+      const first = await send(alice, { content: 'How do we split the holidays?' });
+      const again = await send(alice, { action: 'regenerate', chatId: first.body.chatId });
+      assert.equal(again.status, 200);
+      assert.equal(again.body.reply, 'Second answer');
+      assert.equal(again.body.variantCount, 2);
+      assert.equal(again.body.userMessageId, first.body.userMessageId);
+
+      await h.settle();
+      const replies = (await visibleMessages(alice, first.body.chatId)).filter((m) => m.role === 'assistant');
+      assert.deepEqual(
+        replies.map((m) => [m.content, m.active_variant, m.reply_to]),
+        [
+          ['First answer', false, first.body.userMessageId],
+          ['Second answer', true, first.body.userMessageId],
+        ]
+      );
+    } finally {
+      h.llm.setScript({});
+    }
+  });
+
+  test('a failed regenerate restores the reply it was replacing', async () => {
+    const alice = await h.signUp('alice');
+    const first = await send(alice, { content: 'Should we move in together?' });
+    // The OpenAI client retries twice, so three failures exhaust it
+    h.llm.failNext('counsel', 3);
+    const again = await send<ErrorBody>(alice, { action: 'regenerate', chatId: first.body.chatId });
+    assert.equal(again.status, 502);
+    assert.equal(again.body.code, 'LLM_UNAVAILABLE');
+
+    await h.settle();
+    const replies = (await visibleMessages(alice, first.body.chatId)).filter((m) => m.role === 'assistant');
+    assert.deepEqual(
+      replies.map((m) => [m.id, m.active_variant]),
+      [[first.body.assistantMessageId, true]]
+    );
+  });
+
+  test('deleting a user message also hides a reply stored before variants existed', async () => {
+    const alice = await h.signUp('alice');
+    const first = await send(alice, { content: 'Can we talk about last night?' });
+    const second = await send(alice, { chatId: first.body.chatId, content: 'I felt ignored' });
+    await h.settle();
+    await h.database.db.query('update public.messages set reply_to = null where id = $1', [first.body.assistantMessageId]);
+
+    const res = await h.request(`/api/messages?id=${first.body.userMessageId}`, { method: 'DELETE', user: alice });
+    assert.equal(res.status, 200);
+    assert.deepEqual(
+      (await visibleMessages(alice, first.body.chatId)).map((m) => m.id),
+      [second.body.userMessageId, second.body.assistantMessageId]
+    );
+  });
+
+  test('a regenerate whose reply cannot be stored keeps the reply it was replacing', async () => {
+    const alice = await h.signUp('alice');
+    const first = await send(alice, { content: 'Why do we fight before trips?' });
+    await h.settle();
+    await h.database.db.exec(`
+      create function pg_temp.reject_reply() returns trigger language plpgsql as $$
+      begin
+        raise exception 'insert rejected';
+      end;
+      $$;
+      create trigger reject_reply before insert on public.messages
+      for each row when (new.content = 'Unstorable answer') execute function pg_temp.reject_reply();
+    `);
+    h.llm.setScript({ counsel: ['Unstorable answer'] });
+    try {
+      const again = await send(alice, { action: 'regenerate', chatId: first.body.chatId });
+      assert.equal(again.status, 200);
+      assert.equal(again.body.assistantMessageId, null);
+    } finally {
+      h.llm.setScript({});
+      await h.database.db.exec('drop trigger reject_reply on public.messages;');
+    }
+
+    await h.settle();
+    const replies = (await visibleMessages(alice, first.body.chatId)).filter((m) => m.role === 'assistant');
+    assert.deepEqual(
+      replies.map((m) => [m.id, m.active_variant]),
+      [[first.body.assistantMessageId, true]]
+    );
+  });
+});
+
+describe('analysis jobs', () => {
+  test('a job whose status cannot be recorded is logged and left for the worker', async () => {
+    const alice = await h.signUp('alice');
+    await h.database.db.exec(`
+      create function pg_temp.reject_job_update() returns trigger language plpgsql as $$
+      begin
+        raise exception 'update rejected';
+      end;
+      $$;
+      create trigger reject_job_update before update on public.jobs
+      for each row when (new.status = 'succeeded') execute function pg_temp.reject_job_update();
+    `);
+    try {
+      const res = await send(alice, { content: 'We had a good weekend for once' });
+      assert.equal(res.status, 200);
+      await h.settle();
+    } finally {
+      await h.database.db.exec('drop trigger reject_job_update on public.jobs;');
+    }
+
+    const logged = h.telemetry.logs.find((r) => r.scope === 'jobs' && r.msg === 'failed to mark job succeeded');
+    assert.equal(logged?.level, 'error');
+    const { rows } = await h.database.db.query<{ status: string }>(
+      "select j.status from public.jobs j join public.messages m on j.payload->>'messageId' = m.id::text where m.content = $1",
+      ['We had a good weekend for once']
+    );
+    assert.deepEqual(rows, [{ status: 'running' }]);
+  });
+});
+
+describe('conversation memory', () => {
+  test('only the verbatim window of unsummarized turns reaches the model', async () => {
+    const alice = await h.signUp('alice');
+    const first = await send(alice, { content: 'Turn 0' });
+    await h.settle();
+    await h.database.db.query(
+      `insert into public.messages (chat_id, user_id, role, content, created_at)
+       select $1, $2, case when n % 2 = 1 then 'user' else 'assistant' end, 'Turn ' || n, now() - interval '1 day' + n * interval '1 second'
+       from generate_series(1, 40) as n`,
+      [first.body.chatId, alice.userId]
+    );
+
+    const res = await send(alice, { chatId: first.body.chatId, content: 'Where were we?' });
+    assert.equal(res.status, 200);
+    const counsel = h.llm.requests.filter((r) => r.task === 'counsel').at(-1);
+    const said = counsel?.messages.filter((m) => m.role !== 'system') ?? [];
+    assert.equal(said.length, 16);
+    assert.equal(said.at(-1)?.content, 'Where were we?');
+    await h.settle();
+  });
+
+  test('a long chat whose summary was dropped is summarized again from its first message', async () => {
+    const alice = await h.signUp('alice');
+    const first = await send(alice, { content: 'Turn 0' });
+    await h.settle();
+    // 250 earlier messages and no summary, as after an edit invalidated it
+    await h.database.db.query(
+      `insert into public.messages (chat_id, user_id, role, content, created_at)
+       select $1, $2, case when n % 2 = 1 then 'user' else 'assistant' end, 'Turn ' || n, now() - interval '1 day' + n * interval '1 second'
+       from generate_series(1, 250) as n`,
+      [first.body.chatId, alice.userId]
+    );
+    const summariesBefore = h.llm.requests.filter((r) => r.task === 'summary').length;
+
+    const res = await send(alice, { chatId: first.body.chatId, content: 'Where were we?' });
+    assert.equal(res.status, 200);
+    await h.settle();
+
+    const transcripts = h.llm.requests
+      .filter((r) => r.task === 'summary')
+      .slice(summariesBefore)
+      .map((r) => r.messages.at(-1)?.content ?? '');
+    assert.ok(transcripts.length >= 2);
+    assert.ok(transcripts[0]!.includes('New transcript:\nUser: Turn 1\n'));
+    // Everything but the verbatim window is covered again
+    const { rows } = await h.database.db.query<{ summary: string | null; covered: number; left: number }>(
+      `select c.summary,
+         (select count(*)::int from public.messages m where m.chat_id = c.id and m.created_at <= c.summary_through) as covered,
+         (select count(*)::int from public.messages m where m.chat_id = c.id and m.created_at > c.summary_through) as left
+       from public.chats c where c.id = $1`,
+      [first.body.chatId]
+    );
+    assert.ok(rows[0]?.summary);
+    assert.equal(rows[0]?.left, 16);
+    assert.equal(rows[0]?.covered, 250 + 4 - 16);
+  });
+});
+
+describe('chat ownership', () => {
+  test("sending to someone else's chat starts a new chat instead", async () => {
+    const alice = await h.signUp('alice');
+    const mallory = await h.signUp('mallory');
+    const theirs = await send(alice, { content: 'Private thoughts about my partner' });
+
+    const res = await send(mallory, { chatId: theirs.body.chatId, content: 'Let me in' });
+    assert.equal(res.status, 200);
+    assert.notEqual(res.body.chatId, theirs.body.chatId);
+
+    await h.settle();
+    // The reply was built without the other chat's history
+    const counsel = h.llm.requests.filter((r) => r.task === 'counsel').at(-1);
+    assert.ok(counsel?.messages.every((m) => !m.content.includes('Private thoughts')));
+
+    const { rows } = await h.database.db.query<{ user_id: string; messages: number }>(
+      'select c.user_id, count(m.id)::int as messages from public.chats c left join public.messages m on m.chat_id = c.id where c.id = $1 group by c.user_id',
+      [theirs.body.chatId]
+    );
+    assert.deepEqual(rows, [{ user_id: alice.userId, messages: 2 }]);
+    assert.deepEqual(await visibleMessages(mallory, theirs.body.chatId), []);
+  });
+
+  test("regenerating or editing in someone else's chat is a 404", async () => {
+    const alice = await h.signUp('alice');
+    const mallory = await h.signUp('mallory');
+    const theirs = await send(alice, { content: 'Something only I should change' });
+
+    const regenerate = await send<ErrorBody>(mallory, { action: 'regenerate', chatId: theirs.body.chatId });
+    assert.equal(regenerate.status, 404);
+    assert.equal(regenerate.body.code, 'CHAT_NOT_FOUND');
+
+    const edit = await send(mallory, {
+      action: 'edit',
+      chatId: theirs.body.chatId,
+      messageId: theirs.body.userMessageId,
+      content: 'Rewritten',
+    });
+    assert.equal(edit.status, 404);
+
+    await h.settle();
+    const messages = await visibleMessages(alice, theirs.body.chatId);
+    assert.equal(messages[0]?.content, 'Something only I should change');
+  });
+
+  test("another user's chats are not listed, renamed or deleted", async () => {
+    const alice = await h.signUp('alice');
+    const mallory = await h.signUp('mallory');
+    const theirs = await send(alice, { content: 'Our anniversary plans' });
+    await h.settle();
+
+    const listed = await h.request<ListChatsResponse>('/api/chats', { user: mallory });
+    assert.deepEqual(listed.body.chats, []);
+
+    const rename = await h.request(`/api/chats?id=${theirs.body.chatId}`, { method: 'PATCH', user: mallory, body: { title: 'Mine now' } });
+    assert.equal(rename.status, 404);
+    const remove = await h.request(`/api/chats?id=${theirs.body.chatId}`, { method: 'DELETE', user: mallory });
+    assert.equal(remove.status, 404);
+
+    const own = await h.request<ListChatsResponse>('/api/chats', { user: alice });
+    assert.deepEqual(
+      own.body.chats.map((c) => [c.id, c.title]),
+      [[theirs.body.chatId, 'Our anniversary plans']]
+    );
+  });
+
+  test('requests without a valid session are rejected before anything is stored', async () => {
+    const res = await h.request('/api/chat', { method: 'POST', body: { content: 'Hello?' } });
+    assert.equal(res.status, 401);
+    const forged = await h.request('/api/chat', {
+      method: 'POST',
+      body: { content: 'Hello?' },
+      headers: { Authorization: 'Bearer not-a-session' },
+    });
+    assert.equal(forged.status, 401);
+  });
+});
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import type { PartnerInvite, RewriteDraftResponse } from '../../packages/api-client/src';
+import { startHarness, type Harness, type TestUser } from '../harness';
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness();
+});
+
+after(() => h.close());
+
+function rewrite(user: TestUser, draft: string) {
+  return h.request<RewriteDraftResponse>('/api/coach/rewrite', { method: 'POST', user, body: { draft } });
+}
+
+describe('draft coaching', () => {
+  test('the model path returns two or three rewrites', async () => {
+    const alice = await h.signUp('alice');
+    const res = await rewrite(alice, 'You always leave the dishes for me.');
+    assert.equal(res.status, 200);
+    assert.equal(res.body.fallback, undefined);
+    assert.equal(res.body.rewrites.length, 2);
+    assert.deepEqual(
+      res.body.patterns.map((p) => [p.type, p.match]),
+      [['absolute', 'always']]
+    );
+  });
+
+  test('a single rewrite from the model is replaced by the fallback', async () => {
+    const alice = await h.signUp('alice');
+    h.llm.setScript({ coach: [JSON.stringify({ rewrites: [{ text: 'Only one', approach: 'Lonely' }] })] });
+    try {
+      const res = await rewrite(alice, 'You never call when you are late.');
+      assert.equal(res.status, 200);
+      assert.equal(res.body.fallback, true);
+      const texts = res.body.rewrites.map((r) => r.text);
+      assert.ok(texts.length >= 2 && texts.length <= 3);
+      assert.equal(new Set(texts).size, texts.length);
+      for (const text of texts) assert.match(text, /You rarely call when you are late\./);
+    } finally {
+      h.llm.setScript({});
+    }
+  });
+
+  test('unparseable model output falls back to two distinct rewrites', async () => {
+    const alice = await h.signUp('alice');
+    h.llm.setScript({ coach: ['Sure! Here are some ideas.'] });
+    try {
+      const res = await rewrite(alice, 'Forget it.');
+      assert.equal(res.status, 200);
+      assert.equal(res.body.fallback, true);
+      assert.deepEqual(
+        res.body.rewrites.map((r) => r.approach),
+        ['Softened wording', 'Brief and direct']
+      );
+    } finally {
+      h.llm.setScript({});
+    }
+  });
+
+  test('rewrites are still suggested when the analysis model is down', async () => {
+    const alice = await h.signUp('alice');
+    // The OpenAI client retries twice, so three failures exhaust it
+    h.llm.failNext('analysis', 3);
+    const res = await rewrite(alice, 'You always leave the dishes for me.');
+    assert.equal(res.status, 200);
+    assert.equal(res.body.analysis, null);
+    assert.equal(res.body.rewrites.length, 2);
+    assert.deepEqual(
+      res.body.patterns.map((p) => p.type),
+      ['absolute']
+    );
+  });
+
+  test("the partner's style comes from their stored result, like the writer's own", async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const invite = await h.request<{ invite: PartnerInvite }>('/api/partnerInvites', {
+      method: 'POST',
+      user: alice,
+      body: { action: 'create' },
+    });
+    await h.request('/api/partnerInvites', { method: 'POST', user: bob, body: { action: 'accept', code: invite.body.invite.code } });
+    for (const user of [alice, bob]) {
+      await h.request('/api/partners', { method: 'PATCH', user, body: { shareResults: true } });
+    }
+    // Bob answers as a Direct communicator (q1, q5 and q9 score "direct")
+    const answers = ['q1', 'q2', 'q3', 'q4', 'q5', 'q6', 'q7', 'q8', 'q9', 'q10'].map((questionId) => ({
+      questionId,
+      value: ['q1', 'q5', 'q9'].includes(questionId) ? 5 : 1,
+    }));
+    const submitted = await h.request('/api/submitTest', { method: 'POST', user: bob, body: { testId: 'communication-v1', answers } });
+    assert.equal(submitted.status, 200);
+    // The stored result is what counts: answers that would score differently now are not rescored
+    const flipped = answers.map((a) => ({ ...a, value: 6 - a.value }));
+    await h.database.db.query('update public.test_results set answers = $2 where user_id = $1', [bob.userId, JSON.stringify(flipped)]);
+
+    const res = await h.request<RewriteDraftResponse>('/api/coach/rewrite', {
+      method: 'POST',
+      user: alice,
+      body: { draft: 'You never listen.', toPartner: true },
+    });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.basedOn, { yourStyle: null, partnerStyle: { primary: 'Direct', secondary: 'Empathetic' } });
+  });
+});
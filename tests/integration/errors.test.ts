@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import type { ErrorBody } from '../../packages/api-client/src';
+import { startHarness, type Harness } from '../harness';
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness();
+});
+
+after(() => h.close());
+
+describe('error responses', () => {
+  test('an unknown API path is a coded 404 with the request id', async () => {
+    const res = await h.request<ErrorBody>('/api/nope', { headers: { 'x-request-id': 'req-unknown-path' } });
+    assert.equal(res.status, 404);
+    assert.equal(res.headers.get('x-request-id'), 'req-unknown-path');
+    assert.equal(res.body.code, 'NOT_FOUND');
+    assert.equal(res.body.requestId, 'req-unknown-path');
+  });
+});
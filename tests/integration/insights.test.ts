@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import type { EmotionTrends, ErrorBody, PartnerInvite } from '../../packages/api-client/src';
+import { startHarness, type Harness, type TestUser } from '../harness';
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness();
+});
+
+after(() => h.close());
+
+// Stores `count` analyzed user messages for `user`, one a minute going back from now
+async function seedAnalyzedMessages(user: TestUser, count: number) {
+  await h.database.db.query(
+    `with chat as (insert into public.chats (user_id) values ($1) returning id)
+     insert into public.messages (chat_id, user_id, role, content, analysis, created_at)
+     select chat.id, $1, 'user', 'Seeded message ' || n, $2::jsonb, now() - n * interval '1 minute'
+     from chat, generate_series(1, $3::int) as n`,
+    [user.userId, JSON.stringify({ version: 2, anger: 4, sadness: 2, anxiety: 3, contempt: 1, defensiveness: 2, stonewalling: 1, warmth: 3, primaryNeed: 'respect' }), count]
+  );
+}
+
+async function link(a: TestUser, b: TestUser) {
+  const invite = await h.request<{ invite: PartnerInvite }>('/api/partnerInvites', { method: 'POST', user: a, body: { action: 'create' } });
+  const res = await h.request('/api/partnerInvites', { method: 'POST', user: b, body: { action: 'accept', code: invite.body.invite.code } });
+  assert.equal(res.status, 200);
+  for (const user of [a, b]) {
+    const shared = await h.request('/api/partners', { method: 'PATCH', user, body: { shareEmotionTrends: true } });
+    assert.equal(shared.status, 200);
+  }
+}
+
+describe('emotion trends', () => {
+  test('reads past the per-response row limit and reports a range that fits as complete', async () => {
+    const alice = await h.signUp('alice');
+    await seedAnalyzedMessages(alice, 1500);
+
+    const res = await h.request<EmotionTrends>('/api/insights/emotions', { user: alice });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.messageCount, 1500);
+    assert.equal(res.body.truncated, false);
+  });
+
+  test('stops at the row cap and reports the range as truncated', async () => {
+    const alice = await h.signUp('alice');
+    await seedAnalyzedMessages(alice, 5001);
+
+    const res = await h.request<EmotionTrends>('/api/insights/emotions', { user: alice });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.messageCount, 5000);
+    assert.equal(res.body.truncated, true);
+  });
+
+  test("a partner's trends are paged the same way", async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    await link(alice, bob);
+    await seedAnalyzedMessages(bob, 1200);
+
+    const res = await h.request<EmotionTrends>('/api/insights/emotions?subject=partner', { user: alice });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.messageCount, 1200);
+    assert.equal(res.body.truncated, false);
+  });
+
+  test("opting in to share trends does not carry over to the next partner", async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const carol = await h.signUp('carol');
+    await link(alice, bob);
+    await seedAnalyzedMessages(alice, 3);
+    await h.request('/api/partners', { method: 'DELETE', user: bob });
+
+    const invite = await h.request<{ invite: PartnerInvite }>('/api/partnerInvites', {
+      method: 'POST',
+      user: carol,
+      body: { action: 'create' },
+    });
+    await h.request('/api/partnerInvites', { method: 'POST', user: alice, body: { action: 'accept', code: invite.body.invite.code } });
+    await h.request('/api/partners', { method: 'PATCH', user: carol, body: { shareEmotionTrends: true } });
+
+    const res = await h.request<ErrorBody>('/api/insights/emotions?subject=partner', { user: carol });
+    assert.equal(res.status, 403);
+    assert.equal(res.body.code, 'SHARING_DISABLED');
+    assert.deepEqual(res.body.sharing, { you: true, partner: false });
+  });
+});
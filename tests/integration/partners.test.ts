@@ -0,0 +1,235 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import type {
+  ErrorBody,
+  GetPartnerSettingsResponse,
+  InviteActionResponse,
+  ListInvitesResponse,
+  PartnerInvite,
+} from '../../packages/api-client/src';
+import { startHarness, type Harness, type TestUser } from '../harness';
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness();
+});
+
+after(() => h.close());
+
+async function createInvite(user: TestUser, ttlMinutes?: number) {
+  const res = await h.request<{ invite: PartnerInvite }>('/api/partnerInvites', {
+    method: 'POST',
+    user,
+    body: { action: 'create', ttlMinutes },
+  });
+  assert.equal(res.status, 201);
+  return res.body.invite;
+}
+
+function respond<T = InviteActionResponse>(user: TestUser, action: 'accept' | 'decline', code: string) {
+  return h.request<T>('/api/partnerInvites', { method: 'POST', user, body: { action, code } });
+}
+
+async function partnerOf(userId: string): Promise<string | null> {
+  const { rows } = await h.database.db.query<{ partner_id: string | null }>(
+    'select partner_id from public.profiles where user_id = $1',
+    [userId]
+  );
+  return rows[0]?.partner_id ?? null;
+}
+
+async function link(a: TestUser, b: TestUser) {
+  const invite = await createInvite(a);
+  const res = await respond(b, 'accept', invite.code);
+  assert.equal(res.status, 200);
+}
+
+describe('partner invites', () => {
+  test('accepting an invite links both profiles and closes the invite', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const invite = await createInvite(alice);
+    assert.match(invite.code, /^[A-HJ-NP-Z2-9]{8}$/);
+    assert.equal(invite.status, 'pending');
+
+    // Codes are read aloud and typed, so case does not matter
+    const res = await respond(bob, 'accept', invite.code.toLowerCase());
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, { ok: true, partnerId: alice.userId });
+
+    assert.equal(await partnerOf(alice.userId), bob.userId);
+    assert.equal(await partnerOf(bob.userId), alice.userId);
+    const listed = await h.request<ListInvitesResponse>('/api/partnerInvites', { user: alice });
+    assert.equal(listed.body.invites[0]?.status, 'accepted');
+    const settings = await h.request<GetPartnerSettingsResponse>('/api/partners', { user: bob });
+    assert.deepEqual(settings.body, { partnerId: alice.userId, shareResults: false, shareEmotionTrends: false });
+  });
+
+  test('a new invite revokes the previous one', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const first = await createInvite(alice);
+    const second = await createInvite(alice);
+
+    const listed = await h.request<ListInvitesResponse>('/api/partnerInvites', { user: alice });
+    assert.deepEqual(
+      listed.body.invites.map((i) => [i.id, i.status]),
+      [
+        [second.id, 'pending'],
+        [first.id, 'revoked'],
+      ]
+    );
+    const stale = await respond<ErrorBody>(bob, 'accept', first.code);
+    assert.equal(stale.status, 410);
+    assert.equal(stale.body.code, 'INVITE_NOT_PENDING');
+  });
+
+  test('accepting your own invite is refused', async () => {
+    const alice = await h.signUp('alice');
+    const invite = await createInvite(alice);
+    const res = await respond<ErrorBody>(alice, 'accept', invite.code);
+    assert.equal(res.status, 400);
+    assert.equal(res.body.code, 'PARTNER_SELF');
+    assert.equal(await partnerOf(alice.userId), null);
+  });
+
+  test('an unknown code is a 404', async () => {
+    const bob = await h.signUp('bob');
+    const res = await respond<ErrorBody>(bob, 'accept', 'ZZZZZZZZ');
+    assert.equal(res.status, 404);
+    assert.equal(res.body.code, 'INVITE_NOT_FOUND');
+  });
+
+  test('an expired invite cannot be accepted', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const invite = await createInvite(alice, 5);
+    await h.database.db.query("update public.partner_invites set expires_at = now() - interval '1 minute' where id = $1", [
+      invite.id,
+    ]);
+
+    const res = await respond<ErrorBody>(bob, 'accept', invite.code);
+    assert.equal(res.status, 410);
+    assert.equal(res.body.code, 'INVITE_EXPIRED');
+    assert.equal(await partnerOf(bob.userId), null);
+    const listed = await h.request<ListInvitesResponse>('/api/partnerInvites', { user: alice });
+    assert.equal(listed.body.invites[0]?.status, 'expired');
+  });
+
+  test('a declined invite stays declined', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const invite = await createInvite(alice);
+
+    const declined = await respond(bob, 'decline', invite.code);
+    assert.equal(declined.status, 200);
+    const accepted = await respond<ErrorBody>(bob, 'accept', invite.code);
+    assert.equal(accepted.status, 410);
+    assert.equal(accepted.body.code, 'INVITE_NOT_PENDING');
+
+    const listed = await h.request<ListInvitesResponse>('/api/partnerInvites', { user: alice });
+    assert.equal(listed.body.invites[0]?.status, 'declined');
+    assert.equal(await partnerOf(alice.userId), null);
+  });
+
+  test('someone already linked can neither invite nor accept', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const carol = await h.signUp('carol');
+    const invite = await createInvite(carol);
+    await link(alice, bob);
+
+    const create = await h.request<ErrorBody>('/api/partnerInvites', { method: 'POST', user: alice, body: { action: 'create' } });
+    assert.equal(create.status, 409);
+    assert.equal(create.body.code, 'PARTNER_ALREADY_LINKED');
+
+    const accept = await respond<ErrorBody>(bob, 'accept', invite.code);
+    assert.equal(accept.status, 409);
+    assert.equal(accept.body.code, 'PARTNER_ALREADY_LINKED');
+    // The failed accept left everything as it was
+    assert.equal(await partnerOf(bob.userId), alice.userId);
+    assert.equal(await partnerOf(carol.userId), null);
+    const listed = await h.request<ListInvitesResponse>('/api/partnerInvites', { user: carol });
+    assert.equal(listed.body.invites[0]?.status, 'pending');
+  });
+
+  test("linking revokes both people's other open invites", async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const carol = await h.signUp('carol');
+    const bobsInvite = await createInvite(bob);
+    await link(alice, bob);
+
+    const res = await respond<ErrorBody>(carol, 'accept', bobsInvite.code);
+    assert.equal(res.status, 410);
+    assert.equal(res.body.code, 'INVITE_NOT_PENDING');
+  });
+
+  test('revoking by id only touches that invite', async () => {
+    const alice = await h.signUp('alice');
+    const invite = await createInvite(alice);
+    const res = await h.request(`/api/partnerInvites?id=${invite.id}`, { method: 'DELETE', user: alice });
+    assert.equal(res.status, 200);
+    const listed = await h.request<ListInvitesResponse>('/api/partnerInvites', { user: alice });
+    assert.equal(listed.body.invites[0]?.status, 'revoked');
+  });
+});
+
+describe('partner links', () => {
+  test('unlinking clears both sides', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    await link(alice, bob);
+
+    const res = await h.request('/api/partners', { method: 'DELETE', user: bob });
+    assert.equal(res.status, 200);
+    assert.equal(await partnerOf(alice.userId), null);
+    assert.equal(await partnerOf(bob.userId), null);
+
+    // Either of them can link again afterwards
+    const carol = await h.signUp('carol');
+    await link(carol, alice);
+    assert.equal(await partnerOf(alice.userId), carol.userId);
+  });
+
+  test('opting in to share results does not carry over to the next partner', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const carol = await h.signUp('carol');
+    await link(alice, bob);
+    for (const user of [alice, bob]) {
+      await h.request('/api/partners', { method: 'PATCH', user, body: { shareResults: true } });
+    }
+    await h.request('/api/partners', { method: 'DELETE', user: alice });
+
+    await link(carol, alice);
+    await h.request('/api/partners', { method: 'PATCH', user: carol, body: { shareResults: true } });
+    const res = await h.request<ErrorBody>('/api/partners/compatibility', { user: carol });
+    assert.equal(res.status, 403);
+    assert.equal(res.body.code, 'SHARING_DISABLED');
+    assert.deepEqual(res.body.sharing, { you: true, partner: false });
+    const alices = await h.request<GetPartnerSettingsResponse>('/api/partners', { user: alice });
+    assert.equal(alices.body.shareResults, false);
+  });
+
+  test('linking by raw partner id is gone', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const res = await h.request<ErrorBody>('/api/partners', { method: 'POST', user: alice, body: { partnerId: bob.userId } });
+    assert.equal(res.status, 410);
+    assert.equal(res.body.code, 'ENDPOINT_REMOVED');
+    assert.equal(await partnerOf(alice.userId), null);
+  });
+
+  test('sharing settings are per person', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    await link(alice, bob);
+
+    const res = await h.request('/api/partners', { method: 'PATCH', user: alice, body: { shareResults: true } });
+    assert.deepEqual(res.body, { ok: true, shareResults: true, shareEmotionTrends: false });
+    const bobs = await h.request<GetPartnerSettingsResponse>('/api/partners', { user: bob });
+    assert.equal(bobs.body.shareResults, false);
+  });
+});
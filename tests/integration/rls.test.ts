@@ -0,0 +1,282 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import type { ErrorBody } from '../../packages/api-client/src';
+import { startHarness, type Harness, type TestUser } from '../harness';
+
+// The app talks to Supabase directly with the anon key and the user's session, so these checks go
+// through supabase-js against the stand-in rather than through the API
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness();
+});
+
+after(() => h.close());
+
+async function chatWithMessage(user: TestUser, content: string) {
+  const { data: chat, error } = await h.client(user).from('chats').insert({ user_id: user.userId }).select('id').single();
+  assert.equal(error, null);
+  const { error: messageErr } = await h
+    .client(user)
+    .from('messages')
+    .insert({ chat_id: chat!.id, user_id: user.userId, role: 'user', content });
+  assert.equal(messageErr, null);
+  return chat!.id as string;
+}
+
+async function linkPartners(a: TestUser, b: TestUser) {
+  await h.database.db.query('select public.link_partners($1, $2)', [a.userId, b.userId]);
+}
+
+describe('row level security', () => {
+  test('the anon key reads nothing and writes nothing', async () => {
+    const alice = await h.signUp('alice');
+    await chatWithMessage(alice, 'Anyone there?');
+    const anon = h.client();
+
+    for (const table of ['profiles', 'chats', 'messages', 'test_results', 'partner_invites', 'usage_daily', 'jobs']) {
+      const { data, error } = await anon.from(table).select('*');
+      assert.equal(error, null, table);
+      assert.deepEqual(data, [], table);
+    }
+    const { error } = await anon.from('chats').insert({ user_id: alice.userId });
+    assert.equal(error?.code, '42501');
+  });
+
+  test("users cannot read each other's chats, messages, profiles or results", async () => {
+    const alice = await h.signUp('alice');
+    const mallory = await h.signUp('mallory');
+    const chatId = await chatWithMessage(alice, 'Just between me and the counselor');
+    await h.database.db.query(
+      "insert into public.test_results (user_id, test_id, answers, score, percentile) values ($1, 'communication-v1', '[]', 30, 60)",
+      [alice.userId]
+    );
+    const client = h.client(mallory);
+
+    assert.deepEqual((await client.from('chats').select('id').eq('id', chatId)).data, []);
+    assert.deepEqual((await client.from('messages').select('id').eq('chat_id', chatId)).data, []);
+    assert.deepEqual((await client.from('profiles').select('user_id').eq('user_id', alice.userId)).data, []);
+    assert.deepEqual((await client.from('test_results').select('id').eq('user_id', alice.userId)).data, []);
+    // Their own rows are still visible
+    assert.deepEqual((await client.from('profiles').select('user_id')).data, [{ user_id: mallory.userId }]);
+  });
+
+  test("users cannot write into each other's chats", async () => {
+    const alice = await h.signUp('alice');
+    const mallory = await h.signUp('mallory');
+    const chatId = await chatWithMessage(alice, 'Original');
+    const client = h.client(mallory);
+
+    const post = await client.from('messages').insert({ chat_id: chatId, user_id: mallory.userId, role: 'user', content: 'Injected' });
+    assert.equal(post.error?.code, '42501');
+    // Posting under the owner's id is refused as well
+    const spoofed = await client.from('messages').insert({ chat_id: chatId, user_id: alice.userId, role: 'user', content: 'Injected' });
+    assert.equal(spoofed.error?.code, '42501');
+
+    const renamed = await client.from('chats').update({ title: 'Taken over' }).eq('id', chatId).select('id');
+    assert.deepEqual(renamed.data, []);
+    const deleted = await client.from('chats').delete().eq('id', chatId).select('id');
+    assert.deepEqual(deleted.data, []);
+
+    const { rows } = await h.database.db.query<{ title: string | null; messages: number }>(
+      'select c.title, (select count(*)::int from public.messages m where m.chat_id = c.id) as messages from public.chats c where c.id = $1',
+      [chatId]
+    );
+    assert.deepEqual(rows, [{ title: null, messages: 1 }]);
+  });
+
+  test('message authors can only change content, variant and deletion', async () => {
+    const alice = await h.signUp('alice');
+    const chatId = await chatWithMessage(alice, 'Original');
+    const client = h.client(alice);
+
+    const edit = await client.from('messages').update({ content: 'Edited' }).eq('chat_id', chatId).select('content,revision');
+    assert.equal(edit.error, null);
+    assert.deepEqual(edit.data, [{ content: 'Edited', revision: 1 }]);
+
+    // Analysis is written by the job worker only
+    const forged = await client.from('messages').update({ analysis: { anger: 0 } }).eq('chat_id', chatId);
+    assert.equal(forged.error?.code, '42501');
+  });
+
+  test('only the service role changes a plan', async () => {
+    const alice = await h.signUp('alice');
+    const upgrade = await h.client(alice).from('profiles').update({ plan: 'pro' }).eq('user_id', alice.userId);
+    assert.equal(upgrade.error?.hint, 'PLAN_LOCKED');
+
+    // Other profile fields stay writable
+    const sharing = await h.client(alice).from('profiles').update({ share_test_results: true }).eq('user_id', alice.userId);
+    assert.equal(sharing.error, null);
+
+    const billing = await h.database.asRole({ role: 'service_role' }, (tx) =>
+      tx.query<{ plan: string }>("update public.profiles set plan = 'pro' where user_id = $1 returning plan", [alice.userId])
+    );
+    assert.deepEqual(billing.rows, [{ plan: 'pro' }]);
+  });
+
+  test('invites are hidden from others until they answer them', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const { data: invite, error } = await h
+      .client(alice)
+      .from('partner_invites')
+      .insert({ code: 'RLSTEST2', inviter_id: alice.userId, expires_at: new Date(Date.now() + 60_000).toISOString() })
+      .select('id')
+      .single();
+    assert.equal(error, null);
+
+    assert.deepEqual((await h.client(bob).from('partner_invites').select('id')).data, []);
+    // Nor can an invitee accept by writing the row
+    const hijack = await h.client(bob).from('partner_invites').update({ status: 'accepted' }).eq('id', invite!.id).select('id');
+    assert.deepEqual(hijack.data, []);
+
+    const accepted = await h.client(bob).rpc('accept_partner_invite', { invite_code: 'RLSTEST2' });
+    assert.equal(accepted.error, null);
+    assert.equal(accepted.data, alice.userId);
+    assert.deepEqual((await h.client(bob).from('partner_invites').select('id,status')).data, [{ id: invite!.id, status: 'accepted' }]);
+  });
+
+  test('inviters can only revoke their pending invites', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const client = h.client(alice);
+    const { data: invite } = await client
+      .from('partner_invites')
+      .insert({ code: 'RLSTEST3', inviter_id: alice.userId, expires_at: new Date(Date.now() + 60_000).toISOString() })
+      .select('id')
+      .single();
+
+    const accepted = await client.from('partner_invites').update({ status: 'accepted' }).eq('id', invite!.id);
+    assert.equal(accepted.error?.code, '42501');
+    const extended = await client.from('partner_invites').update({ expires_at: '2999-01-01T00:00:00Z' }).eq('id', invite!.id);
+    assert.equal(extended.error?.code, '42501');
+    const named = await client.from('partner_invites').update({ invitee_id: bob.userId }).eq('id', invite!.id);
+    assert.equal(named.error?.code, '42501');
+
+    const revoked = await client.from('partner_invites').update({ status: 'revoked' }).eq('id', invite!.id).select('status');
+    assert.deepEqual(revoked.data, [{ status: 'revoked' }]);
+    // Once revoked it stays revoked
+    const reopened = await client.from('partner_invites').update({ status: 'pending' }).eq('id', invite!.id).select('status');
+    assert.deepEqual(reopened.data, []);
+  });
+
+  test('joint sessions are shared with the linked partner only', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const mallory = await h.signUp('mallory');
+    await linkPartners(alice, bob);
+
+    const { data: chat, error } = await h
+      .client(alice)
+      .from('chats')
+      .insert({ user_id: alice.userId, kind: 'joint', partner_user_id: bob.userId })
+      .select('id')
+      .single();
+    assert.equal(error, null);
+    const reply = await h.client(bob).from('messages').insert({ chat_id: chat!.id, user_id: bob.userId, role: 'user', content: 'Hi both' });
+    assert.equal(reply.error, null);
+    assert.equal((await h.client(bob).from('messages').select('id').eq('chat_id', chat!.id)).data?.length, 1);
+    assert.deepEqual((await h.client(mallory).from('messages').select('id').eq('chat_id', chat!.id)).data, []);
+
+    // A joint session can only be opened with one's own partner
+    const forced = await h.client(mallory).from('chats').insert({ user_id: mallory.userId, kind: 'joint', partner_user_id: alice.userId });
+    assert.equal(forced.error?.code, '42501');
+  });
+
+  test("unlinking ends the former partner's access to joint sessions", async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    await linkPartners(alice, bob);
+    const { data: chat } = await h
+      .client(alice)
+      .from('chats')
+      .insert({ user_id: alice.userId, kind: 'joint', partner_user_id: bob.userId })
+      .select('id')
+      .single();
+    await h.client(alice).from('messages').insert({ chat_id: chat!.id, user_id: alice.userId, role: 'user', content: 'Before' });
+
+    const unlinked = await h.client(alice).rpc('unlink_own_partner');
+    assert.equal(unlinked.error, null);
+
+    const client = h.client(bob);
+    assert.deepEqual((await client.from('chats').select('id').eq('id', chat!.id)).data, []);
+    assert.deepEqual((await client.from('messages').select('id').eq('chat_id', chat!.id)).data, []);
+    assert.deepEqual((await client.rpc('list_chats')).data, []);
+    const post = await client.from('messages').insert({ chat_id: chat!.id, user_id: bob.userId, role: 'user', content: 'After' });
+    assert.equal(post.error?.code, '42501');
+    // The creator keeps the session and its history
+    assert.equal((await h.client(alice).from('messages').select('id').eq('chat_id', chat!.id)).data?.length, 1);
+  });
+
+  test('a one-sided partner link does not open a joint session', async () => {
+    const bob = await h.signUp('bob');
+    const carol = await h.signUp('carol');
+    await h.database.db.query('update public.profiles set partner_id = $1 where user_id = $2', [bob.userId, carol.userId]);
+
+    const forced = await h.client(carol).from('chats').insert({ user_id: carol.userId, kind: 'joint', partner_user_id: bob.userId });
+    assert.equal(forced.error?.code, '42501');
+    const viaApi = await h.request<ErrorBody>('/api/chats', { method: 'POST', user: carol, body: { kind: 'joint' } });
+    assert.equal(viaApi.status, 400);
+    assert.equal(viaApi.body.code, 'PARTNER_LINK_PENDING');
+    assert.deepEqual((await h.client(bob).from('chats').select('id')).data, []);
+  });
+
+  test('partner results are shared only once both sides opt in', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    await linkPartners(alice, bob);
+    await h.database.db.query(
+      "insert into public.test_results (user_id, test_id, answers, score, percentile) values ($1, 'communication-v1', '[]', 30, 60)",
+      [bob.userId]
+    );
+    const partnerResult = () => h.client(alice).rpc('get_partner_test_result', { p_test_id: 'communication-v1' });
+
+    assert.deepEqual((await partnerResult()).data, []);
+    await h.client(bob).from('profiles').update({ share_test_results: true }).eq('user_id', bob.userId);
+    assert.deepEqual((await partnerResult()).data, []);
+    await h.client(alice).from('profiles').update({ share_test_results: true }).eq('user_id', alice.userId);
+    const shared = await partnerResult();
+    assert.deepEqual(
+      shared.data?.map((r: { test_id: string; score: number; percentile: number }) => [r.test_id, r.score, r.percentile]),
+      [['communication-v1', 30, 60]]
+    );
+  });
+
+  test('job and rate limit functions are reserved for the service role', async () => {
+    const alice = await h.signUp('alice');
+    const client = h.client(alice);
+    const claim = await client.rpc('claim_jobs', { p_worker: 'mallory', p_limit: 10, p_lock_seconds: 60 });
+    assert.equal(claim.error?.code, '42501');
+    const limit = await client.rpc('hit_rate_limit', { p_key: 'user:x', p_limit: 1000, p_window_seconds: 60 });
+    assert.equal(limit.error?.code, '42501');
+  });
+
+  test('partner links are only made and broken through the invite flow', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    const mallory = await h.signUp('mallory');
+    const stranger = await h.signUp('stranger');
+    await linkPartners(alice, bob);
+    const client = h.client(mallory);
+
+    const forced = await client.rpc('link_partners', { a: mallory.userId, b: stranger.userId });
+    assert.equal(forced.error?.code, '42501');
+    const broken = await client.rpc('unlink_partner', { a: alice.userId });
+    assert.equal(broken.error?.code, '42501');
+    // Nor by writing the profile column
+    const written = await client.from('profiles').update({ partner_id: stranger.userId }).eq('user_id', mallory.userId);
+    assert.equal(written.error?.code, '42501');
+
+    const { rows } = await h.database.db.query<{ user_id: string; partner_id: string | null }>(
+      'select user_id, partner_id from public.profiles where user_id = any($1) order by user_id',
+      [[alice.userId, bob.userId, mallory.userId, stranger.userId]]
+    );
+    assert.deepEqual(Object.fromEntries(rows.map((r) => [r.user_id, r.partner_id])), {
+      [alice.userId]: bob.userId,
+      [bob.userId]: alice.userId,
+      [mallory.userId]: null,
+      [stranger.userId]: null,
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import type { AnswerIssue } from '../../api/_lib/scoring';
+import type { WorkerStats } from '../../api/_lib/jobs';
+import type {
+  ErrorBody,
+  ListTestResultsResponse,
+  SubmitTestResponse,
+  TestAttempt,
+  TestAttemptActionResponse,
+} from '../../packages/api-client/src';
+import { startHarness, type Harness, type TestUser } from '../harness';
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness();
+});
+
+after(() => h.close());
+
+// communication-v1: ten 1-5 Likert questions; q1, q5 and q9 score "direct"
+const QUESTIONS = ['q1', 'q2', 'q3', 'q4', 'q5', 'q6', 'q7', 'q8', 'q9', 'q10'];
+const DIRECT = new Set(['q1', 'q5', 'q9']);
+
+function answers(value: (questionId: string) => number) {
+  return QUESTIONS.map((questionId) => ({ questionId, value: value(questionId) }));
+}
+
+type AnswersInvalid = ErrorBody & { details: AnswerIssue[] };
+
+function submit<T = SubmitTestResponse>(user: TestUser | undefined, body: Record<string, unknown>) {
+  return h.request<T>('/api/submitTest', { method: 'POST', user, body });
+}
+
+async function storedResults(userId: string) {
+  const { rows } = await h.database.db.query<{ test_id: string; score: number; percentile: number; summary: string; answers: unknown }>(
+    'select test_id, score, percentile, summary, answers from public.test_results where user_id = $1 order by created_at',
+    [userId]
+  );
+  return rows;
+}
+
+describe('test submission scoring', () => {
+  test('scores every dimension and stores the result', async () => {
+    const alice = await h.signUp('alice');
+    const submitted = answers((id) => (DIRECT.has(id) ? 5 : 1));
+    const res = await submit(alice, { testId: 'communication-v1', answers: submitted });
+    assert.equal(res.status, 200);
+
+    const { result } = res.body;
+    // direct 15/15; empathetic 2/10, analytical 3/15 and adaptive 2/10 are all at their minimum
+    assert.equal(result.score, 22);
+    assert.equal(result.percentile, 44);
+    assert.deepEqual(
+      result.dimensions.map((d) => [d.id, d.raw, d.max, d.percent]),
+      [
+        ['direct', 15, 15, 100],
+        ['empathetic', 2, 10, 0],
+        ['analytical', 3, 15, 0],
+        ['adaptive', 2, 10, 0],
+      ]
+    );
+    assert.deepEqual(result.style, { primary: 'Direct', secondary: 'Empathetic' });
+    assert.equal(result.band?.label, 'Balanced');
+    assert.match(result.summary, /^Your responses suggest a Direct style with Empathetic tendencies\. You scored 22\/50 \(44%\)\./);
+
+    assert.deepEqual(await storedResults(alice.userId), [
+      { test_id: 'communication-v1', score: 22, percentile: 44, summary: result.summary, answers: submitted },
+    ]);
+  });
+
+  test('the default test is used when none is named', async () => {
+    const alice = await h.signUp('alice');
+    const res = await submit(alice, { answers: answers(() => 5) });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.result.testId, 'communication-v1');
+    assert.equal(res.body.result.score, 50);
+    assert.equal(res.body.result.percentile, 100);
+    assert.equal(res.body.result.band?.label, 'Expressive');
+  });
+
+  test('stored results come back in the history for their owner only', async () => {
+    const alice = await h.signUp('alice');
+    const bob = await h.signUp('bob');
+    await submit(alice, { testId: 'communication-v1', answers: answers(() => 3) });
+
+    const own = await h.request<ListTestResultsResponse>('/api/tests/results?test_id=communication-v1', { user: alice });
+    assert.equal(own.status, 200);
+    assert.deepEqual(
+      own.body.results.map((r) => [r.testId, r.score]),
+      [['communication-v1', 30]]
+    );
+    const other = await h.request<ListTestResultsResponse>('/api/tests/results', { user: bob });
+    assert.deepEqual(other.body.results, []);
+  });
+
+  test('incomplete or out-of-range answers are rejected and nothing is stored', async () => {
+    const alice = await h.signUp('alice');
+    const missing = await submit<AnswersInvalid>(alice, { testId: 'communication-v1', answers: answers(() => 3).slice(0, 9) });
+    assert.equal(missing.status, 400);
+    assert.equal(missing.body.code, 'ANSWERS_INVALID');
+    assert.deepEqual(missing.body.details, [{ questionId: 'q10', message: 'Missing answer' }]);
+
+    const outOfRange = await submit<AnswersInvalid>(alice, { testId: 'communication-v1', answers: answers((id) => (id === 'q3' ? 6 : 3)) });
+    assert.equal(outOfRange.status, 400);
+    assert.deepEqual(
+      outOfRange.body.details.map((d) => d.questionId),
+      ['q3']
+    );
+
+    const unknown = await submit<AnswersInvalid>(alice, {
+      testId: 'communication-v1',
+      answers: [...answers(() => 3), { questionId: 'q99', value: 3 }],
+    });
+    assert.equal(unknown.status, 400);
+    assert.deepEqual(unknown.body.details, [{ questionId: 'q99', message: 'Unknown question' }]);
+
+    assert.deepEqual(await storedResults(alice.userId), []);
+  });
+
+  test('an unknown test is a 404 and an anonymous submission a 401', async () => {
+    const alice = await h.signUp('alice');
+    const unknown = await submit<ErrorBody>(alice, { testId: 'nope-v1', answers: answers(() => 3) });
+    assert.equal(unknown.status, 404);
+    assert.equal(unknown.body.code, 'TEST_NOT_FOUND');
+
+    const anonymous = await submit(undefined, { testId: 'communication-v1', answers: answers(() => 3) });
+    assert.equal(anonymous.status, 401);
+    assert.deepEqual(await storedResults(alice.userId), []);
+  });
+
+  test('the job cron expires abandoned drafts', async () => {
+    const alice = await h.signUp('alice');
+    const { rows } = await h.database.db.query<{ id: string }>(
+      `insert into public.test_attempts (user_id, test_id, test_version, expires_at)
+       values ($1, 'communication-v1', 1, now() - interval '1 minute'), ($1, 'other-v1', 1, now() + interval '1 day')
+       returning id`,
+      [alice.userId]
+    );
+
+    process.env.CRON_SECRET = 'test-cron-secret';
+    try {
+      const res = await h.request<WorkerStats>('/api/cron/jobs', { method: 'POST', headers: { authorization: 'Bearer test-cron-secret' } });
+      assert.equal(res.status, 200);
+      assert.equal(res.body.expiredAttempts, 1);
+    } finally {
+      delete process.env.CRON_SECRET;
+    }
+
+    const { rows: swept } = await h.database.db.query<{ id: string; status: string }>(
+      'select id, status from public.test_attempts where user_id = $1',
+      [alice.userId]
+    );
+    assert.deepEqual(Object.fromEntries(swept.map((r) => [r.id, r.status])), {
+      [rows[0]!.id]: 'expired',
+      [rows[1]!.id]: 'in_progress',
+    });
+  });
+});
+
+describe('test drafts', () => {
+  function attempts<T = TestAttemptActionResponse>(user: TestUser, body: Record<string, unknown>) {
+    return h.request<T>('/api/tests/attempts', { method: 'POST', user, body });
+  }
+
+  test('a draft whose result cannot be stored is abandoned when another draft took its place', async () => {
+    const alice = await h.signUp('alice');
+    const started = await attempts<{ attempt: TestAttempt }>(alice, { action: 'start', testId: 'communication-v1' });
+    assert.equal(started.status, 201);
+    const attemptId = started.body.attempt.id;
+    // A second draft opens as soon as this one is claimed, and storing the result fails
+    await h.database.db.exec(`
+      create function pg_temp.open_second_draft() returns trigger language plpgsql as $$
+      begin
+        insert into public.test_attempts (user_id, test_id, test_version, expires_at)
+        values (new.user_id, new.test_id, new.test_version, now() + interval '1 day');
+        return null;
+      end;
+      $$;
+      create trigger open_second_draft after update on public.test_attempts
+      for each row when (old.status = 'in_progress' and new.status = 'completed') execute function pg_temp.open_second_draft();
+      create function pg_temp.reject_result() returns trigger language plpgsql as $$
+      begin
+        raise exception 'insert rejected';
+      end;
+      $$;
+      create trigger reject_result before insert on public.test_results for each row execute function pg_temp.reject_result();
+    `);
+    try {
+      const res = await attempts(alice, { action: 'finalize', attemptId, answers: answers(() => 3) });
+      assert.equal(res.status, 500);
+    } finally {
+      await h.database.db.exec('drop trigger open_second_draft on public.test_attempts; drop trigger reject_result on public.test_results;');
+    }
+
+    const { rows } = await h.database.db.query<{ id: string; status: string }>(
+      'select id, status from public.test_attempts where user_id = $1 order by started_at, id',
+      [alice.userId]
+    );
+    assert.deepEqual(
+      rows.map((r) => [r.id === attemptId, r.status]).sort(),
+      [
+        [false, 'in_progress'],
+        [true, 'abandoned'],
+      ]
+    );
+  });
+
+  test('attempt ids that are not uuids are rejected up front', async () => {
+    const alice = await h.signUp('alice');
+    for (const method of ['GET', 'DELETE']) {
+      const res = await h.request<ErrorBody>('/api/tests/attempts?id=not-a-uuid', { method, user: alice });
+      assert.equal(res.status, 400);
+      assert.equal(res.body.error, 'Invalid query');
+    }
+  });
+});
+
+describe('result history', () => {
+  test('trends cover the whole history whatever the page size', async () => {
+    const alice = await h.signUp('alice');
+    for (const value of [1, 3, 5]) {
+      const res = await submit(alice, { testId: 'communication-v1', answers: answers((id) => (DIRECT.has(id) ? value : 3)) });
+      assert.equal(res.status, 200);
+    }
+
+    const full = await h.request<ListTestResultsResponse>('/api/tests/results', { user: alice });
+    const paged = await h.request<ListTestResultsResponse>('/api/tests/results?limit=1', { user: alice });
+    assert.equal(full.body.results.length, 3);
+    assert.equal(paged.body.results.length, 1);
+    assert.equal(paged.body.results[0]?.id, full.body.results[0]?.id);
+    assert.deepEqual(paged.body.trends, full.body.trends);
+    assert.deepEqual(paged.body.highlights, full.body.highlights);
+    const direct = full.body.trends.find((t) => t.dimension === 'direct');
+    assert.deepEqual(
+      direct?.points.map((p) => p.percent),
+      [0, 50, 100]
+    );
+  });
+});